@@ -1,6 +1,11 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
+import ora from 'ora'
 import { getLogger } from '../../utils/logger'
+import { AgentTaskRunner } from '../../core/services/AgentTaskRunner'
+import { CommandDispatcher } from '../../core/services/CommandDispatcher'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { AgentCommand as AgentCommandMessage, QueuedCommand } from '../../core/types'
 
 export class AgentCommand {
   private logger = getLogger()
@@ -15,7 +20,8 @@ export class AgentCommand {
       .description('Run tasks with AI agents')
       .option('-t, --tasks <tasks>', 'Comma-separated task list')
       .option('-p, --parallel', 'Run tasks in parallel')
-      .option('-s, --sessions <sessions>', 'Target specific sessions')
+      .option('-s, --sessions <sessions>', 'Comma-separated sessions to spread tasks over (created if missing)')
+      .option('-a, --agent <name>', 'Agent from the project config (default: settings.defaultAgent)')
       .action(async (options) => {
         await this.runTasks(options)
       })
@@ -27,6 +33,7 @@ export class AgentCommand {
     tasks?: string
     parallel?: boolean
     sessions?: string
+    agent?: string
   }): Promise<void> {
     console.log('')
     console.log(chalk.bold.cyan('🤖 Agent Task Runner'))
@@ -38,15 +45,65 @@ export class AgentCommand {
       return
     }
 
-    const tasks = options.tasks.split(',').map(t => t.trim())
-    
-    console.log(chalk.gray('Tasks to execute:'))
-    tasks.forEach((task, index) => {
-      console.log(chalk.cyan(`  ${index + 1}. ${task}`))
-    })
-    
-    console.log('')
-    console.log(chalk.yellow('⚠️  Agent task execution is not yet implemented'))
-    console.log(chalk.gray('   This feature will be available in a future version'))
+    const tasks = options.tasks.split(',').map(t => t.trim()).filter(t => t !== '')
+    const sessions = options.sessions?.split(',').map(s => s.trim()).filter(s => s !== '')
+
+    try {
+      const runner = new AgentTaskRunner(this.logger)
+      const commands = runner.createCommands(tasks, { parallel: options.parallel, sessions, agent: options.agent })
+
+      console.log(chalk.gray(`Tasks to execute (${options.parallel ? 'in parallel' : 'one after another per session'}):`))
+      commands.forEach((command, index) => {
+        console.log(chalk.cyan(`  ${index + 1}. ${tasks[index]}`), chalk.gray(`→ ${command.sessionId}`))
+      })
+      console.log('')
+
+      // Commands go through the project queue so they show up in `tazz queue ls`
+      const spinner = ora('Dispatching tasks').start()
+      const processed = await DaemonClient.tryCall<QueuedCommand[]>('queue.submit', { commands }, 0)
+        ?? await this.submit(commands)
+      const results = commands.map(command => {
+        const queued = processed.find(q => q.command.requestId === command.requestId)
+        return queued?.results[queued.results.length - 1] ?? { success: false, error: 'Command was not run' }
+      })
+      spinner.stop()
+
+      results.forEach((result, index) => {
+        const data = result.data as { taskId: string; processId?: string; state: string; dependencies: string[] } | undefined
+        const requestId = chalk.gray(`[${commands[index].requestId.substring(0, 8)}]`)
+
+        if (!result.success || !data) {
+          console.log(chalk.red(`  ✗ ${tasks[index]}: ${result.error}`), requestId)
+        } else if (data.processId) {
+          console.log(chalk.green(`  ▶ ${data.taskId}`), chalk.gray('started as'), chalk.cyan(data.processId), requestId)
+        } else {
+          const after = data.dependencies.length > 0 ? `after ${data.dependencies.join(', ')}` : 'for a free slot'
+          console.log(chalk.yellow(`  ⏳ ${data.taskId}`), chalk.gray(`queued in ${commands[index].sessionId} (${after})`), requestId)
+        }
+      })
+      console.log('')
+
+      const failed = results.filter(r => !r.success).length
+      if (failed > 0) {
+        console.log(chalk.red(`❌ ${failed} of ${results.length} tasks failed`))
+        process.exit(1)
+      }
+      console.log(chalk.green(`✅ ${results.length} tasks dispatched`))
+      console.log(chalk.gray('   Follow them with'), chalk.cyan('tazz list'), chalk.gray('and finish each with'), chalk.cyan('tazz done <process-id>'))
+      console.log('')
+
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to run tasks: ${(error as Error).message}`))
+      this.logger.error('Agent run failed', error as Error, { tasks })
+      process.exit(1)
+    }
+  }
+
+  private async submit(commands: AgentCommandMessage[]): Promise<QueuedCommand[]> {
+    const dispatcher = new CommandDispatcher(this.logger)
+    for (const command of commands) {
+      await dispatcher.enqueue(command)
+    }
+    return dispatcher.drain(commands.map(c => c.requestId))
   }
-}
\ No newline at end of file
+}
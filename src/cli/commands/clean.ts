@@ -1,14 +1,12 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
 import ora from 'ora'
-import { remove, pathExists, readdir, stat } from 'fs-extra'
+import { remove, pathExists, readdir, stat, readFile } from 'fs-extra'
 import { join } from 'path'
-import { exec } from 'child_process'
-import { promisify } from 'util'
 import { getLogger } from '../../utils/logger'
 import { getTazzDir } from '../../utils/paths'
-
-const execAsync = promisify(exec)
+import { killTmuxSession } from '../../utils/tmux'
+import { SessionReconciler } from '../../core/services/SessionReconciler'
 
 export class CleanCommand {
   private logger = getLogger()
@@ -46,6 +44,10 @@ export class CleanCommand {
         name: 'Orphaned tmux sessions',
         action: () => this.cleanOrphanedTmuxSessions(options.dryRun)
       },
+      {
+        name: 'Stale session records',
+        action: () => this.cleanStaleSessionRecords(options.dryRun)
+      },
       {
         name: 'Old session data',
         action: () => this.cleanOldSessionData(options.dryRun)
@@ -141,18 +143,15 @@ export class CleanCommand {
 
   private async cleanOrphanedTmuxSessions(dryRun?: boolean): Promise<{ count: number; size: number }> {
     try {
-      const { stdout } = await execAsync('tmux list-sessions -F "#{session_name}" 2>/dev/null || true')
-      const sessions = stdout.trim().split('\n').filter(s => s.startsWith('tazz_'))
-      
-      // TODO: Check which sessions are actually orphaned
-      // For now, just count them
-      const orphanedSessions = sessions.filter(s => s.includes('orphaned')) // Placeholder logic
+      // Orphaned = running in one of this project's worktrees but unknown to the session store
+      const reconciler = new SessionReconciler(this.logger)
+      const { untrackedProcesses } = await reconciler.reconcile()
       
       let count = 0
-      for (const session of orphanedSessions) {
+      for (const proc of untrackedProcesses) {
         if (!dryRun) {
           try {
-            await execAsync(`tmux kill-session -t ${session}`)
+            await killTmuxSession(proc.sessionName)
             count++
           } catch (error) {
             // Session may have already been killed
@@ -169,6 +168,22 @@ export class CleanCommand {
     }
   }
 
+  private async cleanStaleSessionRecords(dryRun?: boolean): Promise<{ count: number; size: number }> {
+    const reconciler = new SessionReconciler(this.logger)
+    const { sessions } = await reconciler.reconcile()
+
+    // A record whose worktree is gone and has nothing running can never be joined again
+    const stale = sessions.filter(s => !s.worktreeExists && s.liveProcesses.length === 0)
+
+    for (const { session } of stale) {
+      if (!dryRun) {
+        await reconciler.getStore().removeSession(session.id)
+      }
+    }
+
+    return { count: stale.length, size: stale.length * 512 } // Estimate 512B per record
+  }
+
   private async cleanOldSessionData(dryRun?: boolean): Promise<{ count: number; size: number }> {
     const tazzDir = getTazzDir()
     const projectsDir = join(tazzDir, 'projects')
@@ -191,8 +206,11 @@ export class CleanCommand {
         try {
           const stats = await stat(sessionsFile)
           
-          // Clean sessions older than a week
-          if (stats.mtime.getTime() < oneWeekAgo) {
+          const sessionData = JSON.parse(await readFile(sessionsFile, 'utf-8'))
+          const hasSessions = Array.isArray(sessionData.sessions) && sessionData.sessions.length > 0
+          
+          // Clean sessions older than a week, but never a registry that still tracks sessions
+          if (stats.mtime.getTime() < oneWeekAgo && !hasSessions) {
             size += stats.size
             
             if (!dryRun) {
@@ -0,0 +1,174 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { spawn } from 'child_process'
+import { getLogger } from '../../utils/logger'
+import { getDaemonSocketPath } from '../../utils/paths'
+import { DaemonServer, DaemonInfo } from '../../core/services/DaemonServer'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { SessionError, ValidationError } from '../../core/types'
+
+/** How long `tazz daemon start` waits for the socket to answer */
+const START_TIMEOUT = 10000
+
+export class DaemonCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    const daemonCmd = new Command('daemon')
+      .description('🛰️  Background daemon that owns sessions, the agent monitor and the command queue')
+
+    daemonCmd
+      .command('start')
+      .description('Start the daemon for this project in the background')
+      .option('--interval <seconds>', 'Seconds between agent checks and queue runs', '10')
+      .action(async (options) => {
+        await this.run(() => this.start(options))
+      })
+
+    daemonCmd
+      .command('run')
+      .description('Run the daemon in the foreground')
+      .option('--interval <seconds>', 'Seconds between agent checks and queue runs', '10')
+      .action(async (options) => {
+        await this.run(() => this.foreground(options))
+      })
+
+    daemonCmd
+      .command('stop')
+      .description('Stop the daemon for this project')
+      .action(async () => {
+        await this.run(() => this.stop())
+      })
+
+    daemonCmd
+      .command('status')
+      .description('Show whether the daemon is running')
+      .action(async () => {
+        await this.run(() => this.status())
+      })
+
+    return daemonCmd
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    console.log('')
+    try {
+      await action()
+      console.log('')
+    } catch (error) {
+      console.log(chalk.red(`❌ ${(error as Error).message}`))
+      this.logger.error('Daemon command failed', error as Error)
+      process.exit(1)
+    }
+  }
+
+  private async start(options: { interval?: string }): Promise<void> {
+    const running = await this.ping()
+    if (running) {
+      console.log(chalk.yellow(`⚠️  The daemon is already running (pid ${running.pid})`))
+      return
+    }
+
+    const interval = parseInterval(options.interval)
+    const spinner = ora('Starting daemon').start()
+
+    // Re-run this same CLI entry point (node or tsx alike) with `daemon run`
+    const child = spawn(process.execPath, [
+      ...process.execArgv,
+      process.argv[1],
+      'daemon',
+      'run',
+      '--interval',
+      String(interval)
+    ], {
+      cwd: process.cwd(),
+      detached: true,
+      stdio: 'ignore'
+    })
+    child.unref()
+
+    const deadline = Date.now() + START_TIMEOUT
+    while (Date.now() < deadline) {
+      const info = await this.ping()
+      if (info) {
+        spinner.succeed(`Daemon started (pid ${info.pid})`)
+        console.log(chalk.gray('   Socket:'), chalk.cyan(info.socketPath))
+        return
+      }
+      if (child.exitCode !== null) {
+        break
+      }
+      await new Promise(resolve => setTimeout(resolve, 200))
+    }
+
+    spinner.fail('Daemon did not start')
+    throw new SessionError('The daemon did not answer on its socket; see the tazz log for details', {
+      socketPath: getDaemonSocketPath(process.cwd())
+    })
+  }
+
+  private async foreground(options: { interval?: string }): Promise<void> {
+    const server = new DaemonServer(this.logger, process.cwd(), {
+      interval: parseInterval(options.interval) * 1000
+    })
+    await server.start()
+
+    console.log(chalk.bold.cyan(`🛰️  Daemon listening on ${server.getSocketPath()}`), chalk.gray('(Ctrl+C to stop)'))
+
+    const shutdown = () => {
+      server.stop().catch(error => this.logger.error('Daemon shutdown failed', error as Error))
+    }
+    process.once('SIGINT', shutdown)
+    process.once('SIGTERM', shutdown)
+
+    await server.waitUntilStopped()
+    process.removeListener('SIGINT', shutdown)
+    process.removeListener('SIGTERM', shutdown)
+    console.log(chalk.gray('Daemon stopped'))
+  }
+
+  private async stop(): Promise<void> {
+    const client = await DaemonClient.connect()
+    if (!client) {
+      console.log(chalk.gray('The daemon is not running'))
+      return
+    }
+
+    try {
+      const info = await client.call<DaemonInfo>('daemon.ping')
+      await client.call('daemon.stop')
+      console.log(chalk.green(`✅ Daemon stopped (pid ${info.pid})`))
+    } finally {
+      client.close()
+    }
+  }
+
+  private async status(): Promise<void> {
+    const info = await this.ping()
+    if (!info) {
+      console.log(chalk.gray('⚪ The daemon is not running; commands work directly on the project files'))
+      console.log(chalk.gray('   Start it with'), chalk.cyan('tazz daemon start'))
+      return
+    }
+
+    const uptime = Math.floor((Date.now() - info.startedAt.getTime()) / 1000)
+    console.log(chalk.green('🟢 The daemon is running'))
+    console.log(chalk.gray('   PID:'), chalk.cyan(String(info.pid)))
+    console.log(chalk.gray('   Uptime:'), `${Math.floor(uptime / 60)}m ${uptime % 60}s`)
+    console.log(chalk.gray('   Checks every:'), `${info.interval / 1000}s`)
+    console.log(chalk.gray('   Socket:'), chalk.cyan(info.socketPath))
+  }
+
+  private async ping(): Promise<DaemonInfo | undefined> {
+    return DaemonClient.tryCall<DaemonInfo>('daemon.ping', {}, 2000)
+  }
+}
+
+function parseInterval(value: string | undefined): number {
+  const interval = parseInt(value || '10')
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new ValidationError(`--interval must be a positive number of seconds, got ${value}`)
+  }
+  return interval
+}
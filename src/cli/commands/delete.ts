@@ -4,9 +4,21 @@ import inquirer from 'inquirer'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import { getLogger } from '../../utils/logger'
+import { getTmuxSessionName, hasTmuxSession, killTmuxSession } from '../../utils/tmux'
+import { SessionReconciler } from '../../core/services/SessionReconciler'
+import { SessionTeardownService, TeardownPlan, TeardownResult } from '../../core/services/SessionTeardownService'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { SessionError } from '../../core/types'
 
 const execAsync = promisify(exec)
 
+interface BulkTarget {
+  id: string
+  plan?: TeardownPlan
+  /** An untracked tazz tmux session with no session record */
+  untracked?: boolean
+}
+
 export class DeleteCommand {
   private logger = getLogger()
 
@@ -14,34 +26,78 @@ export class DeleteCommand {
     return new Command('delete')
       .alias('rm')
       .alias('destroy')
-      .description('🗑️  Delete a Tazz process')
-      .argument('<process-id>', 'Process ID to delete (e.g., instance_task-1)')
-      .option('-f, --force', 'Skip confirmation prompt')
-      .action(async (processId: string, options) => {
+      .description('🗑️  Delete a Tazz process, or tear down a whole instance')
+      .argument('[process-id]', 'Process ID or instance to delete (e.g., instance_task-1)')
+      .option('-a, --all', 'Tear down every session, worktree and tazz tmux session of this project')
+      .option('-y, --yes', 'Skip confirmation prompt')
+      .option('--worktree', 'Also remove the git worktree and the session record')
+      .option('--branch', 'Also delete the branch if fully merged into the default branch, or with --force even if not (implies --worktree)')
+      .option('--purge', 'Shorthand for --worktree --branch')
+      .option('-f, --force', 'Skip confirmation and delete even if uncommitted changes or unpushed commits would be lost')
+      .action(async (processId: string | undefined, options) => {
+        if (options.all) {
+          const succeeded = await this.executeAll(options)
+          if (!succeeded) {
+            process.exit(1)
+          }
+          return
+        }
+        if (!processId) {
+          console.log(chalk.red('❌ Specify a process ID or --all'))
+          process.exit(1)
+        }
         await this.execute(processId, options)
       })
   }
 
-  async execute(processId: string, options: { force?: boolean } = {}): Promise<void> {
+  async execute(processId: string, options: {
+    yes?: boolean
+    force?: boolean
+    worktree?: boolean
+    branch?: boolean
+    purge?: boolean
+  } = {}): Promise<void> {
     console.log('')
-    
+
     try {
+      const teardownOptions = {
+        worktree: options.worktree || options.branch || options.purge,
+        branch: options.branch || options.purge,
+        force: options.force
+      }
+
+      const reconciler = new SessionReconciler(this.logger)
+      const { sessions } = await reconciler.reconcile()
+      const instance = sessions.find(s => s.session.id === processId)
+        || (teardownOptions.worktree
+          ? sessions.find(s => s.session.agents.some(agent => agent.id === processId))
+          : undefined)
+
+      if (instance) {
+        const teardown = new SessionTeardownService(this.logger)
+        const plan = await teardown.plan(
+          instance.session,
+          instance.liveProcesses.map(p => p.processId),
+          teardownOptions
+        )
+        await this.teardownInstance(teardown, plan, options)
+        return
+      }
+
       // Build tmux session name
-      const tmuxSessionName = `tazz_${processId}`
-      
+      const tmuxSessionName = getTmuxSessionName(processId)
+
       // Check if session exists
-      try {
-        await execAsync(`tmux has-session -t ${tmuxSessionName}`)
-      } catch (error) {
+      if (!await hasTmuxSession(tmuxSessionName)) {
         console.log(chalk.red(`❌ Tazz process not found: ${processId}`))
-        
+
         // List available sessions
         await this.listAvailableProcesses()
         process.exit(1)
       }
 
       // Confirmation prompt
-      if (!options.force) {
+      if (!options.yes && !options.force) {
         const { confirmed } = await inquirer.prompt([{
           type: 'confirm',
           name: 'confirmed',
@@ -57,9 +113,10 @@ export class DeleteCommand {
 
       console.log(chalk.yellow(`🗑️  Deleting Tazz process: ${processId}`))
 
-      // Kill tmux session
-      await execAsync(`tmux kill-session -t ${tmuxSessionName}`)
-      
+      // Kill tmux session and let the store catch up with it
+      await killTmuxSession(tmuxSessionName)
+      await reconciler.reconcile()
+
       console.log(chalk.green(`✅ Tazz process ${processId} deleted`))
 
     } catch (error) {
@@ -69,6 +126,248 @@ export class DeleteCommand {
     }
   }
 
+  private async teardownInstance(
+    teardown: SessionTeardownService,
+    plan: TeardownPlan,
+    options: { yes?: boolean; force?: boolean }
+  ): Promise<void> {
+    const { session } = plan
+
+    this.printPlan(plan)
+
+    if (teardown.isDestructive(plan)) {
+      this.printLosses(plan)
+      if (!options.force) {
+        console.log('')
+        console.log(chalk.red('❌ Refusing to delete: this work would be lost'))
+        console.log(chalk.gray('   Commit and push it first, or re-run with'), chalk.cyan('--force'))
+        process.exit(1)
+      }
+    }
+
+    if (!options.yes && !options.force) {
+      const { confirmed } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'confirmed',
+        message: `Are you sure you want to delete instance ${session.id}?`,
+        default: false
+      }])
+
+      if (!confirmed) {
+        console.log(chalk.yellow('❌ Deletion cancelled'))
+        return
+      }
+    }
+
+    console.log(chalk.yellow(`🗑️  Deleting instance: ${session.id}`))
+    const result = await this.executeTeardown(teardown, plan, options)
+
+    result.killedProcesses.forEach(id => console.log(chalk.gray(`   ✓ Killed process ${id}`)))
+    result.removedTaskWorktrees.forEach(path => console.log(chalk.gray(`   ✓ Removed task worktree ${path}`)))
+    result.deletedTaskBranches.forEach(branch => console.log(chalk.gray(`   ✓ Deleted task branch ${branch}`)))
+    result.keptTaskBranches.forEach(branch => {
+      console.log(chalk.yellow(`   ⚠ Kept task branch ${branch} (not merged into ${session.branch})`))
+    })
+    if (result.worktreeRemoved) {
+      console.log(chalk.gray(`   ✓ Removed worktree ${session.worktreePath}`))
+    }
+    if (result.branchDeleted) {
+      console.log(chalk.gray(`   ✓ Deleted branch ${session.branch}`))
+    } else if (result.branchKeptReason) {
+      console.log(chalk.yellow(`   ⚠ Kept branch ${session.branch} (${result.branchKeptReason})`))
+    }
+    if (result.recordRemoved) {
+      console.log(chalk.gray('   ✓ Removed session record'))
+    }
+
+    console.log(chalk.green(`✅ Instance ${session.id} deleted`))
+  }
+
+  /**
+   * Tear down every tracked session (worktree, merged branch, record) and every
+   * untracked tazz tmux session of the project, one by one. Returns false if
+   * any item failed or was refused because it would lose work.
+   */
+  async executeAll(options: { yes?: boolean; force?: boolean } = {}): Promise<boolean> {
+    console.log('')
+
+    try {
+      const reconciler = new SessionReconciler(this.logger)
+      const teardown = new SessionTeardownService(this.logger)
+      const { sessions, untrackedProcesses } = await reconciler.reconcile()
+
+      const targets: BulkTarget[] = [
+        ...await Promise.all(sessions.map(async ({ session, liveProcesses }) => ({
+          id: session.id,
+          plan: await teardown.plan(session, liveProcesses.map(p => p.processId), {
+            worktree: true,
+            branch: true,
+            force: options.force
+          })
+        }))),
+        ...untrackedProcesses.map(p => ({ id: p.processId, untracked: true }))
+      ]
+
+      if (targets.length === 0) {
+        console.log(chalk.yellow('📭 Nothing to delete'))
+        return true
+      }
+
+      this.printSummary(teardown, targets)
+
+      const destructive = targets.filter(t => t.plan && teardown.isDestructive(t.plan))
+      destructive.forEach(t => this.printLosses(t.plan!))
+      const refused = options.force ? [] : destructive
+      if (refused.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${refused.length} sessions would lose work and will be skipped (use --force to delete them anyway)`))
+        console.log('')
+      }
+
+      if (!options.yes && !options.force) {
+        const { confirmed } = await inquirer.prompt([{
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Are you sure you want to delete ${targets.length - refused.length} items?`,
+          default: false
+        }])
+
+        if (!confirmed) {
+          console.log(chalk.yellow('❌ Deletion cancelled'))
+          return true
+        }
+      }
+
+      console.log(chalk.yellow('🗑️  Deleting all sessions...'))
+
+      // One at a time: concurrent worktree and branch removals race on git's lock files
+      let failures = 0
+      for (const target of targets) {
+        try {
+          const result = await this.teardownTarget(teardown, target, refused.includes(target), options)
+          const kept = result?.branchKeptReason ? chalk.yellow(` (kept branch: ${result.branchKeptReason})`) : ''
+          console.log(chalk.green(`   ✓ ${target.id}`) + kept)
+        } catch (error) {
+          failures++
+          console.log(chalk.red(`   ✗ ${target.id}: ${(error as Error).message}`))
+        }
+      }
+
+      console.log('')
+      if (failures > 0) {
+        console.log(chalk.red(`❌ Deleted ${targets.length - failures} of ${targets.length} items`))
+        return false
+      }
+
+      console.log(chalk.green(`✅ Deleted ${targets.length} items`))
+      return true
+
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to delete sessions: ${(error as Error).message}`))
+      this.logger.error('Bulk delete failed', error as Error)
+      return false
+    }
+  }
+
+  private async teardownTarget(
+    teardown: SessionTeardownService,
+    target: BulkTarget,
+    refused: boolean,
+    options: { force?: boolean }
+  ): Promise<TeardownResult | undefined> {
+    if (target.untracked) {
+      await killTmuxSession(getTmuxSessionName(target.id))
+      return undefined
+    }
+    if (refused) {
+      throw new SessionError('Skipped: uncommitted changes or unpushed commits would be lost', { sessionId: target.id })
+    }
+    return this.executeTeardown(teardown, target.plan!, options)
+  }
+
+  /**
+   * Run a teardown in the daemon when one is running, so its monitor does not
+   * restart the agents being killed
+   */
+  private async executeTeardown(
+    teardown: SessionTeardownService,
+    plan: TeardownPlan,
+    options: { force?: boolean }
+  ): Promise<TeardownResult> {
+    const force = { force: options.force }
+    return await DaemonClient.tryCall<TeardownResult>('session.teardown', { plan, options: force }, 0)
+      ?? teardown.execute(plan, force)
+  }
+
+  private printSummary(teardown: SessionTeardownService, targets: BulkTarget[]): void {
+    const rows = targets.map(target => target.plan
+      ? [
+        target.id,
+        target.plan.processes.length > 0 ? target.plan.processes.join(', ') : '-',
+        target.plan.worktreeExists ? target.plan.session.worktreePath : '(missing)',
+        target.plan.deleteBranch || target.plan.branchKeptReason
+          ? `${target.plan.session.branch}${target.plan.deleteBranch ? '' : ' (kept)'}`
+          : '-',
+        teardown.isDestructive(target.plan) ? 'would lose work' : 'ok'
+      ]
+      : [target.id, target.id, '-', '-', 'untracked'])
+
+    const header = ['Session', 'Processes', 'Worktree', 'Branch', 'Status']
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)))
+    const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ')
+
+    console.log(chalk.bold('📋 Sessions to delete:'))
+    console.log('   ' + chalk.bold(format(header)))
+    rows.forEach(row => {
+      const line = '   ' + format(row)
+      console.log(row[4] === 'would lose work' ? chalk.red(line) : line)
+    })
+    console.log('')
+  }
+
+  private printPlan(plan: TeardownPlan): void {
+    console.log(chalk.bold(`📋 Teardown plan for ${plan.session.id}:`))
+    console.log(chalk.gray('   Processes to kill:'), plan.processes.length > 0 ? chalk.cyan(plan.processes.join(', ')) : chalk.gray('none running'))
+    if (plan.removeWorktree) {
+      console.log(chalk.gray('   Worktree to remove:'), chalk.cyan(plan.session.worktreePath), plan.worktreeExists ? '' : chalk.gray('(already gone)'))
+      plan.taskWorktrees.forEach(task => {
+        console.log(
+          chalk.gray(`   Task ${task.taskId}:`),
+          chalk.cyan(task.path),
+          task.merged ? chalk.gray(`(${task.branch} merged, will be deleted)`) : chalk.yellow(`(${task.branch} not merged, will be kept)`),
+          task.exists ? '' : chalk.gray('(already gone)')
+        )
+      })
+      console.log(chalk.gray('   Session record:'), chalk.cyan('will be removed'))
+    }
+    if (plan.deleteBranch || plan.branchKeptReason) {
+      console.log(
+        chalk.gray('   Branch:'),
+        chalk.cyan(plan.session.branch),
+        plan.branchMerged
+          ? chalk.gray(`(merged into ${plan.defaultBranch}, will be deleted)`)
+          : plan.deleteBranch
+            ? chalk.red(`(not merged into ${plan.defaultBranch}, will be deleted)`)
+            : chalk.yellow(`(not merged into ${plan.defaultBranch}, will be kept; --force deletes it)`)
+      )
+    }
+    console.log('')
+  }
+
+  private printLosses(plan: TeardownPlan): void {
+    if (plan.uncommitted.length > 0) {
+      console.log(chalk.red(`⚠️  ${plan.uncommitted.length} uncommitted changes in ${plan.session.worktreePath}:`))
+      plan.uncommitted.forEach(line => console.log(chalk.red(`     ${line}`)))
+    }
+    plan.taskWorktrees.filter(task => task.uncommitted.length > 0).forEach(task => {
+      console.log(chalk.red(`⚠️  ${task.uncommitted.length} uncommitted changes in ${task.path}:`))
+      task.uncommitted.forEach(line => console.log(chalk.red(`     ${line}`)))
+    })
+    if (plan.unpushed.length > 0) {
+      console.log(chalk.red(`⚠️  ${plan.unpushed.length} commits on ${plan.session.branch} exist nowhere else:`))
+      plan.unpushed.forEach(line => console.log(chalk.red(`     ${line}`)))
+    }
+  }
+
   private async listAvailableProcesses(): Promise<void> {
     try {
       const { stdout } = await execAsync('tmux list-sessions | grep tazz')
@@ -79,4 +378,4 @@ export class DeleteCommand {
       console.log(chalk.gray('No active Tazz processes found'))
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { getLogger } from '../../utils/logger'
+import { TaskScheduler, ScheduleResult } from '../../core/services/TaskScheduler'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { TaskReference } from '../../core/types'
+import { SyncCommand } from './sync'
+
+export class DoneCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    return new Command('done')
+      .description('✅ Mark a task completed and start the tasks waiting on it')
+      .argument('<process-id>', 'Task process ID (e.g., instance_task-1)')
+      .option('--keep', 'Keep the task process running')
+      .option('--timeout <ms>', 'Grace period for the agent to exit after C-c', '5000')
+      .option('--no-sync', 'Leave the tracker updates queued instead of sending them now')
+      .action(async (processId: string, options) => {
+        await this.execute(processId, options)
+      })
+  }
+
+  async execute(processId: string, options: {
+    keep?: boolean
+    timeout?: string
+    sync?: boolean
+  } = {}): Promise<void> {
+    console.log('')
+
+    try {
+      const params = { keepProcess: options.keep, gracePeriod: parseInt(options.timeout || '5000') }
+      const spinner = ora(`Completing ${processId}`).start()
+      let done: { sessionId: string; task: TaskReference; result: ScheduleResult }
+      try {
+        done = await DaemonClient.tryCall<typeof done>('task.done', { processId, ...params }, 0)
+          ?? await new TaskScheduler(this.logger).completeProcess(processId, params)
+      } catch (error) {
+        spinner.stop()
+        throw error
+      }
+      const { sessionId, task, result } = done
+      spinner.succeed(`Task ${task.id} completed`)
+
+      result.started.forEach(proc => {
+        console.log(chalk.green(`   ▶ Started ${proc.processId}`), chalk.gray(`(${proc.task?.title})`))
+      })
+      result.failed.forEach(({ task: failedTask, error }) => {
+        console.log(chalk.red(`   ✗ ${failedTask.id}: ${error.message}`))
+      })
+      if (result.waiting.length > 0) {
+        console.log(chalk.gray(`   ${result.waiting.length} tasks still waiting: ${result.waiting.map(t => t.id).join(', ')}`))
+      }
+      result.unreachable.forEach(blocked => {
+        console.log(chalk.yellow(`   ⚠ ${blocked.id} depends on a blocked task and will not start`))
+      })
+
+      if (result.started.length === 0 && result.waiting.length === 0 && result.unreachable.length === 0) {
+        console.log(chalk.green(`✅ All tasks of ${sessionId} are done`))
+      }
+
+      // The task is done either way; undelivered updates stay in the outbox for `tazz sync`
+      if (options.sync !== false) {
+        await new SyncCommand().flush(sessionId)
+      }
+      console.log('')
+
+      if (result.failed.length > 0) {
+        process.exit(1)
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to complete task: ${(error as Error).message}`))
+      this.logger.error('Done failed', error as Error, { processId })
+      process.exit(1)
+    }
+  }
+}
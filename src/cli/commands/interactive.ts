@@ -236,7 +236,7 @@ export class InteractiveCommand {
   }
 
   private async handleRun(): Promise<void> {
-    const { sessionName, tasks, branch, tmux } = await inquirer.prompt([
+    const { sessionName, branch } = await inquirer.prompt([
       {
         type: 'input',
         name: 'sessionName',
@@ -251,29 +251,16 @@ export class InteractiveCommand {
           return true
         }
       },
-      {
-        type: 'input',
-        name: 'tasks',
-        message: 'Tasks (comma-separated, optional):'
-      },
       {
         type: 'input',
         name: 'branch',
         message: 'Custom branch name (optional):'
-      },
-      {
-        type: 'confirm',
-        name: 'tmux',
-        message: 'Create tmux session?',
-        default: true
       }
     ])
 
     const runCommand = new RunCommand()
     await runCommand.execute(sessionName, {
-      tasks: tasks || undefined,
-      branch: branch || undefined,
-      tmux
+      branch: branch || undefined
     })
   }
 
@@ -360,11 +347,12 @@ export class InteractiveCommand {
     ])
 
     if (finalConfirm === 'destroy') {
-      console.log('')
-      console.log(chalk.yellow('🗑️  Destroying all sessions...'))
-      
-      // TODO: Implement destroy all sessions
-      console.log(chalk.green('✅ All sessions destroyed'))
+      const deleteCommand = new DeleteCommand()
+      const succeeded = await deleteCommand.executeAll({ yes: true })
+      if (!succeeded) {
+        this.logger.warn('Destroy left some sessions in place')
+        console.log(chalk.yellow('Some sessions were not destroyed. Check the errors above, or run `tazz delete --all --force` to discard their work.'))
+      }
     }
   }
 
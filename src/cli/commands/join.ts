@@ -3,6 +3,8 @@ import chalk from 'chalk'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 import { getLogger } from '../../utils/logger'
+import { getTmuxSessionName, hasTmuxSession } from '../../utils/tmux'
+import { SessionReconciler } from '../../core/services/SessionReconciler'
 
 const execAsync = promisify(exec)
 
@@ -24,14 +26,21 @@ export class JoinCommand {
     
     try {
       // Build tmux session name - process ID is already the full identifier
-      const tmuxSessionName = `tazz_${processId}`
+      let tmuxSessionName = getTmuxSessionName(processId)
       
       console.log(chalk.cyan(`🔗 Joining Tazz process: ${processId}`))
 
-      // Check if session exists
-      try {
-        await execAsync(`tmux has-session -t ${tmuxSessionName}`)
-      } catch (error) {
+      const reconciler = new SessionReconciler(this.logger)
+      const lookup = await reconciler.findProcess(processId)
+
+      if (lookup?.live) {
+        tmuxSessionName = lookup.live.sessionName
+      } else if (lookup) {
+        console.log(chalk.yellow(`⚠️  Tazz process ${processId} is not running (session ${lookup.session.status})`))
+        console.log(chalk.gray('   Worktree:'), chalk.cyan(lookup.session.worktreePath))
+        console.log(chalk.gray('   Resume with:'), chalk.cyan(`tazz resume ${lookup.session.id}`))
+        process.exit(1)
+      } else if (!await hasTmuxSession(tmuxSessionName)) {
         console.log(chalk.red(`❌ Tazz process not found: ${processId}`))
         
         // List available sessions
@@ -1,10 +1,10 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-import { getLogger } from '../../utils/logger'
-
-const execAsync = promisify(exec)
+import { getLogger, redact } from '../../utils/logger'
+import { SessionReconciler, ReconciledSession, ReconcileResult } from '../../core/services/SessionReconciler'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { PullRequestService, PullRequestStatusResult, RelatedPullRequest } from '../../core/services/PullRequestService'
+import { SessionStatus, AgentStatus, TaskStatus, PullRequestStatus } from '../../core/types'
 
 export class ListCommand {
   private logger = getLogger()
@@ -14,6 +14,7 @@ export class ListCommand {
       .alias('ls')
       .description('📋 List all active Tazz processes')
       .option('-v, --verbose', 'Show detailed session information')
+      .option('--refresh', 'Fetch pull request and CI status from GitHub instead of the cache')
       .action(async (options) => {
         await this.execute(options)
       })
@@ -21,16 +22,17 @@ export class ListCommand {
 
   async execute(options: {
     verbose?: boolean
+    refresh?: boolean
   } = {}): Promise<void> {
     console.log('')
     console.log(chalk.bold.cyan('📋 Active Tazz Processes'))
     console.log('')
 
     try {
-      // Get tmux sessions
-      const sessions = await this.getTmuxSessions()
+      const { sessions, untrackedProcesses } = await DaemonClient.tryCall<ReconcileResult>('sessions.reconcile')
+        ?? await new SessionReconciler(this.logger).reconcile()
       
-      if (sessions.length === 0) {
+      if (sessions.length === 0 && untrackedProcesses.length === 0) {
         console.log(chalk.yellow('📭 No active processes found'))
         console.log('')
         console.log(chalk.gray('Start new processes with:'), chalk.cyan('tazz run <instance-name>'))
@@ -38,38 +40,78 @@ export class ListCommand {
         return
       }
 
-      // Group sessions by instance
-      const grouped = this.groupSessionsByInstance(sessions)
-      
-      Object.entries(grouped).forEach(([project, projectSessions]) => {
-        console.log(chalk.bold.green(`🚀 Instance: ${project}`))
+      const pullRequests = await this.getPullRequestStatuses(sessions, options.refresh)
+      if (pullRequests.error) {
+        console.log(chalk.yellow(`⚠️  Pull request status not refreshed: ${redact(pullRequests.error)}`))
+        console.log('')
+      }
+
+      sessions.forEach(({ session, liveProcesses, worktreeExists }) => {
+        console.log(chalk.bold.green(`🚀 Instance: ${session.id}`), this.getStatusColor(session.status))
+        const relatedPRs = session.metadata.github?.relatedPRs || []
+        relatedPRs.forEach(pr => {
+          console.log(`   ${this.formatPullRequest(pr, pullRequests.statuses.get(pr.url))}`)
+        })
+        if (options.verbose) {
+          console.log(`   ${chalk.gray('Branch:')} ${session.branch}`)
+          console.log(`   ${chalk.gray('Worktree:')} ${session.worktreePath}${worktreeExists ? '' : chalk.red(' (missing)')}`)
+          console.log(`   ${chalk.gray('Created:')} ${new Date(session.createdAt).toLocaleString()}`)
+        }
         console.log('')
+
+        const taskAgents = session.agents.filter(agent => agent.id !== session.id)
+        const mainAgents = session.agents.filter(agent => agent.id === session.id)
         
-        if (projectSessions.tasks.length > 0) {
+        if (taskAgents.length > 0) {
           console.log(chalk.bold('  📋 Task Processes:'))
-          projectSessions.tasks.forEach((session, i) => {
-            console.log(`    ${i + 1}. ${chalk.cyan(session.fullProcessId || session.taskName)} ${chalk.gray(`(${session.taskName})`)}`)
-            if (options.verbose && session.created) {
-              console.log(`       ${chalk.gray('Created:')} ${session.created}`)
+          taskAgents.forEach((agent, i) => {
+            const live = liveProcesses.find(p => p.processId === agent.id)
+            console.log(`    ${i + 1}. ${chalk.cyan(agent.id)} ${chalk.gray(`(${agent.name})`)} ${this.getAgentStatusColor(agent.status)}`)
+            if (options.verbose && live) {
+              console.log(`       ${chalk.gray('Created:')} ${live.created.toLocaleString()}`)
+            }
+            if (live) {
+              console.log(`       ${chalk.gray('Join with:')} ${chalk.cyan(`tazz join ${agent.id}`)}`)
             }
-            console.log(`       ${chalk.gray('Join with:')} ${chalk.cyan(`tazz join ${session.fullProcessId || session.taskName}`)}`)
           })
           console.log('')
         }
         
-        if (projectSessions.main.length > 0) {
+        const waitingTasks = session.tasks.filter(task => task.status === TaskStatus.TODO && !task.assignedAgent)
+        if (waitingTasks.length > 0) {
+          console.log(chalk.bold('  ⏳ Waiting Tasks:'))
+          waitingTasks.forEach(task => {
+            const after = task.dependencies.length > 0 ? `after ${task.dependencies.join(', ')}` : 'for a free slot'
+            console.log(`    • ${chalk.cyan(task.id)} ${chalk.gray(`(${task.title}, ${after})`)}`)
+          })
+          console.log('')
+        }
+        
+        if (mainAgents.length > 0) {
           console.log(chalk.bold('  🔧 Main Sessions:'))
-          projectSessions.main.forEach((session, i) => {
-            console.log(`    ${i + 1}. ${chalk.cyan(session.fullProcessId || session.project)}`)
-            if (options.verbose && session.created) {
-              console.log(`       ${chalk.gray('Created:')} ${session.created}`)
+          mainAgents.forEach((agent, i) => {
+            const live = liveProcesses.find(p => p.processId === agent.id)
+            console.log(`    ${i + 1}. ${chalk.cyan(agent.id)} ${this.getAgentStatusColor(agent.status)}`)
+            if (options.verbose && live) {
+              console.log(`       ${chalk.gray('Created:')} ${live.created.toLocaleString()}`)
+            }
+            if (live) {
+              console.log(`       ${chalk.gray('Join with:')} ${chalk.cyan(`tazz join ${agent.id}`)}`)
             }
-            console.log(`       ${chalk.gray('Join with:')} ${chalk.cyan(`tazz join ${session.fullProcessId || session.project}`)}`)
           })
           console.log('')
         }
       })
 
+      if (untrackedProcesses.length > 0) {
+        console.log(chalk.bold.yellow('❔ Untracked Processes:'))
+        untrackedProcesses.forEach((proc, i) => {
+          console.log(`    ${i + 1}. ${chalk.cyan(proc.processId)} ${chalk.gray(`(${proc.path})`)}`)
+        })
+        console.log(chalk.gray('    Not in the session store; remove with'), chalk.cyan('tazz clean'))
+        console.log('')
+      }
+
       // Show quick actions
       this.showQuickActions(sessions)
 
@@ -81,97 +123,100 @@ export class ListCommand {
     }
   }
 
-  private async getTmuxSessions(): Promise<Array<{sessionId: string, created: string, project?: string, taskName?: string}>> {
+  /**
+   * Never fails the listing: without GitHub the recorded state is shown
+   */
+  private async getPullRequestStatuses(sessions: ReconciledSession[], refresh?: boolean): Promise<PullRequestStatusResult> {
     try {
-      // Get all tmux sessions that start with 'tazz_'
-      const { stdout } = await execAsync('tmux list-sessions -F "#{session_name}:#{session_created}" 2>/dev/null || true')
-      
-      if (!stdout.trim()) {
-        return []
-      }
-      
-      const sessions = stdout.trim().split('\n')
-        .filter(line => line.includes('tazz_'))
-        .map(line => {
-          const [sessionId, created] = line.split(':')
-          const createdDate = new Date(parseInt(created) * 1000).toLocaleString()
-          
-          // Parse session ID to extract instance and task info
-          // New format: tazz_instance_taskname
-          const match = sessionId.match(/^tazz_(.+)$/)
-          if (match) {
-            const fullId = match[1]
-            // Try to split by last underscore to separate instance from task
-            const lastUnderscoreIndex = fullId.lastIndexOf('_')
-            if (lastUnderscoreIndex > 0) {
-              const instance = fullId.substring(0, lastUnderscoreIndex)
-              const taskName = fullId.substring(lastUnderscoreIndex + 1)
-              return {
-                sessionId,
-                created: createdDate,
-                project: instance,
-                taskName: taskName,
-                fullProcessId: fullId
-              }
-            } else {
-              // Single session without task
-              return {
-                sessionId,
-                created: createdDate,
-                project: fullId,
-                fullProcessId: fullId
-              }
-            }
-          }
-          
-          return {
-            sessionId,
-            created: createdDate
-          }
-        })
-      
-      return sessions
+      return await new PullRequestService(this.logger).getStatuses(sessions.map(({ session }) => session), { refresh })
     } catch (error) {
-      // If tmux command fails, return empty array
-      return []
+      this.logger.warn('Failed to read pull request statuses', { error: (error as Error).message })
+      return { statuses: new Map(), error: (error as Error).message }
     }
   }
 
-  private groupSessionsByInstance(sessions: Array<{sessionId: string, created: string, project?: string, taskName?: string}>): Record<string, {tasks: any[], main: any[]}> {
-    const grouped: Record<string, {tasks: any[], main: any[]}> = {}
-    
-    sessions.forEach(session => {
-      const project = session.project || 'unknown'
-      
-      if (!grouped[project]) {
-        grouped[project] = { tasks: [], main: [] }
-      }
-      
-      if (session.taskName) {
-        grouped[project].tasks.push(session)
-      } else {
-        grouped[project].main.push(session)
-      }
-    })
-    
-    return grouped
+  private formatPullRequest(pr: RelatedPullRequest, status?: PullRequestStatus): string {
+    const label = chalk.gray(`PR #${pr.number}`)
+    if (!status) {
+      return `${label} ${chalk.gray(pr.status)} ${chalk.gray(pr.url)}`
+    }
+
+    const states: Record<PullRequestStatus['state'], string> = {
+      open: chalk.green('open'),
+      draft: chalk.gray('draft'),
+      merged: chalk.magenta('merged'),
+      closed: chalk.red('closed')
+    }
+    const reviews: Record<NonNullable<PullRequestStatus['reviewDecision']>, string> = {
+      approved: chalk.green('approved'),
+      changes_requested: chalk.red('changes requested'),
+      review_required: chalk.yellow('review required')
+    }
+    const checks: Record<NonNullable<PullRequestStatus['checks']>, string> = {
+      success: chalk.green('✓ checks passed'),
+      pending: chalk.yellow('● checks pending'),
+      failure: chalk.red('✗ checks failing'),
+      none: chalk.gray('no checks')
+    }
+
+    const parts = [states[status.state]]
+    if (status.reviewDecision) {
+      parts.push(reviews[status.reviewDecision])
+    }
+    if (status.checks) {
+      parts.push(checks[status.checks])
+    }
+    return `${label} ${parts.join(chalk.gray(' · '))} ${chalk.gray(pr.url)}`
   }
 
-  private showQuickActions(sessions: any[]): void {
+  private getStatusColor(status: SessionStatus): string {
+    switch (status) {
+      case SessionStatus.ACTIVE:
+        return chalk.green(status)
+      case SessionStatus.STOPPED:
+      case SessionStatus.PAUSED:
+        return chalk.yellow(status)
+      case SessionStatus.FAILED:
+        return chalk.red(status)
+      default:
+        return chalk.gray(status)
+    }
+  }
+
+  private getAgentStatusColor(status: AgentStatus): string {
+    switch (status) {
+      case AgentStatus.RUNNING:
+        return chalk.green(status)
+      case AgentStatus.STARTING:
+        return chalk.cyan(status)
+      case AgentStatus.ERROR:
+        return chalk.red(status)
+      default:
+        return chalk.yellow(status)
+    }
+  }
+
+  private showQuickActions(sessions: ReconciledSession[]): void {
     console.log(chalk.bold('🚀 Quick Actions:'))
     console.log('')
     
-    if (sessions.length > 0) {
+    const liveAgents = sessions.flatMap(({ session, liveProcesses }) =>
+      session.agents
+        .filter(agent => liveProcesses.some(p => p.processId === agent.id))
+        .map(agent => ({ agent, isMain: agent.id === session.id }))
+    )
+
+    if (liveAgents.length > 0) {
       // Find first task process to show as example
-      const taskSession = sessions.find(s => s.taskName)
-      if (taskSession) {
-        console.log(chalk.gray('  Join task process:'), chalk.cyan(`tazz join ${taskSession.fullProcessId}`))
+      const taskProcess = liveAgents.find(a => !a.isMain)
+      if (taskProcess) {
+        console.log(chalk.gray('  Join task process:'), chalk.cyan(`tazz join ${taskProcess.agent.id}`))
       }
       
       // Find first main session
-      const mainSession = sessions.find(s => !s.taskName)
-      if (mainSession && mainSession.project) {
-        console.log(chalk.gray('  Join main session:'), chalk.cyan(`tazz join ${mainSession.fullProcessId || mainSession.project}`))
+      const mainProcess = liveAgents.find(a => a.isMain)
+      if (mainProcess) {
+        console.log(chalk.gray('  Join main session:'), chalk.cyan(`tazz join ${mainProcess.agent.id}`))
       }
       
       console.log(chalk.gray('  Delete a process:'), chalk.cyan(`tazz delete <process-id>`))
@@ -180,4 +225,4 @@ export class ListCommand {
     console.log(chalk.gray('  Create new processes:'), chalk.cyan('tazz run <instance-name>'))
     console.log('')
   }
-}
\ No newline at end of file
+}
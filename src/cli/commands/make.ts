@@ -62,6 +62,8 @@ export class MakeCommand {
         analysis
       })
 
+      await mcpService?.disconnect()
+
       // Phase 7: Update .gitignore
       await this.updateGitignore(projectPath)
 
@@ -157,6 +159,11 @@ export class MakeCommand {
             maxConcurrentSessions: 10,
             defaultBranch: 'main',
             tmuxPrefix: 'tazz_',
+            worktreeRoot: '..',
+            branchTemplate: 'feature/{name}',
+            taskBranchTemplate: '{branch}--{task}',
+            defaultAgent: 'claude',
+            trackerSync: { enabled: true },
             agentTimeout: 300000,
             logLevel: 'info',
             autoCommit: false,
@@ -165,6 +172,13 @@ export class MakeCommand {
               coverage: 80
             }
           },
+          agents: {
+            claude: {
+              enabled: true,
+              command: 'claude',
+              args: ['{prompt}']
+            }
+          },
           connectedServices: {
             mcp: [],
             git: true,
@@ -202,6 +216,9 @@ export class MakeCommand {
 
 - [ ] Task 2: Write tests
       Session name: task-2
+      Depends on: task-1
+      Priority: high
+      Estimate: 2h
       Description: 
         Create comprehensive tests for the implemented functionality. Focus on unit tests and integration tests.
 
@@ -216,10 +233,7 @@ export class MakeCommand {
         Prepare code for review, run linting, fix any issues, and ensure quality standards are met.
 
 ## In Progress
-- [ ] Current task being worked on...
-      Session name: current-task
-      Description: 
-        Description of what is currently being implemented or debugged.
+<!-- Move tasks here while they are being worked on -->
 
 ## Quality Checklist
 - [ ] Code follows project patterns
@@ -689,6 +703,11 @@ describe('{{FEATURE_NAME}}', () => {
         maxConcurrentSessions: 10,
         defaultBranch: 'main',
         tmuxPrefix: 'tazz_',
+        worktreeRoot: '..',
+        branchTemplate: 'feature/{name}',
+        taskBranchTemplate: '{branch}--{task}',
+        defaultAgent: 'claude',
+        trackerSync: { enabled: true },
         agentTimeout: 300000,
         logLevel: 'info',
         autoCommit: false,
@@ -697,6 +716,13 @@ describe('{{FEATURE_NAME}}', () => {
           coverage: context.analysis?.quality.coverageThreshold || 80
         }
       },
+      agents: {
+        claude: {
+          enabled: true,
+          command: 'claude',
+          args: ['{prompt}']
+        }
+      },
       connectedServices: {
         mcp: context.mcpService?.getConnectedServers() || [],
         git: true,
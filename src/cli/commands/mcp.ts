@@ -0,0 +1,277 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { readFile } from 'fs-extra'
+import { relative } from 'path'
+import { homedir } from 'os'
+import { getLogger, createLogger, redact } from '../../utils/logger'
+import { MCPIntegrationService, MCPConfigSource } from '../../core/services/MCPIntegrationService'
+import { MCPTool } from '../../core/services/MCPClient'
+import { MCPError, ValidationError } from '../../core/types'
+
+export class MCPCommand {
+  private logger = getLogger()
+  // Server logs and call failures stay in the log file so stdout carries only command output
+  private fileLogger = createLogger({ enableConsole: false })
+
+  build(): Command {
+    const mcpCmd = new Command('mcp')
+      .description('🔌 Inspect and call the MCP servers from the Claude Code configuration')
+
+    mcpCmd
+      .command('list')
+      .description('List configured servers, the settings file each comes from and whether they connect')
+      .action(async () => {
+        await this.run(() => this.list())
+      })
+
+    mcpCmd
+      .command('status')
+      .description('Show handshake latency, protocol version and server info')
+      .argument('[server]', 'Only this server')
+      .action(async (server?: string) => {
+        await this.run(() => this.status(server))
+      })
+
+    mcpCmd
+      .command('tools')
+      .description('List the tools of a server with their input schemas')
+      .argument('<server>', 'Server name')
+      .option('--json', 'Print the tools as JSON')
+      .action(async (server: string, options) => {
+        await this.run(() => this.tools(server, options))
+      })
+
+    mcpCmd
+      .command('call')
+      .description('Call a tool and print its result as JSON')
+      .argument('<server>', 'Server name')
+      .argument('<tool>', 'Tool name')
+      .option('--arg <key=value>', 'Tool argument; repeatable. Values are parsed as JSON unless the schema expects a string', collect, [])
+      .option('--json <arguments>', 'All arguments as a JSON object, or @file to read them from a file (@- for stdin)')
+      .action(async (server: string, tool: string, options) => {
+        await this.call(server, tool, options)
+      })
+
+    return mcpCmd
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    console.log('')
+    try {
+      await action()
+      console.log('')
+    } catch (error) {
+      console.log(chalk.red(`❌ ${redact((error as Error).message)}`))
+      this.logger.error('MCP command failed', error as Error)
+      process.exit(1)
+    }
+  }
+
+  /**
+   * Connect the given servers (all configured ones by default)
+   */
+  private async connect(servers?: string[]): Promise<MCPIntegrationService> {
+    const service = new MCPIntegrationService(this.fileLogger)
+    await service.detectAndSetupMCPs({ servers })
+
+    const unknown = (servers || []).filter(name => !service.getConfiguredServers().includes(name))
+    if (unknown.length > 0) {
+      await service.disconnect()
+      throw new MCPError(`MCP server ${unknown.join(', ')} is not configured`, {
+        configured: service.getConfiguredServers()
+      })
+    }
+    return service
+  }
+
+  private async list(): Promise<void> {
+    const service = await this.connect()
+    try {
+      const configured = service.getConfiguredServers()
+      if (configured.length === 0) {
+        console.log(chalk.gray('No MCP servers configured'))
+        return
+      }
+
+      const connected = service.getConnectedServers()
+      console.log(chalk.bold(`🔌 MCP servers (${connected.length} of ${configured.length} connected):`))
+      service.getServerStatus().forEach(status => {
+        const mark = status.connected ? chalk.green('●') : chalk.red('○')
+        const detail = status.connected ? `${status.tools} tools` : (status.error || 'not connected')
+        const source = status.source ? formatSource(status.source) : '-'
+        console.log(`   ${mark} ${chalk.cyan(status.name.padEnd(20))} ${chalk.gray(status.transportType.padEnd(6))} ${chalk.gray(source.padEnd(32))} ${chalk.gray(detail)}`)
+      })
+
+      const searched = service.getConfigSources().map(formatSource)
+      console.log('')
+      console.log(chalk.gray(`   Settings are merged in this order, later files win: ${searched.join(', ')}`))
+    } finally {
+      await service.disconnect()
+    }
+  }
+
+  private async status(server?: string): Promise<void> {
+    const service = await this.connect(server ? [server] : undefined)
+    try {
+      const statuses = service.getServerStatus().filter(status => !server || status.name === server)
+      if (statuses.length === 0) {
+        console.log(chalk.gray('No MCP servers configured'))
+        return
+      }
+
+      statuses.forEach((status, i) => {
+        if (i > 0) {
+          console.log('')
+        }
+        const connected = status.connected
+        console.log(connected ? chalk.green(`● ${status.name}`) : chalk.red(`○ ${status.name}`), chalk.gray(`(${status.transportType})`))
+        if (status.source) {
+          console.log(chalk.gray('   Source:'), `${formatSource(status.source)}`, chalk.gray(`(${status.source.scope})`))
+        }
+        if (status.overrides.length > 0) {
+          console.log(chalk.gray('   Overrides:'), status.overrides.map(formatSource).join(', '))
+        }
+        if (!connected) {
+          console.log(chalk.gray('   Error:'), chalk.red(status.error || 'not connected'))
+          return
+        }
+        console.log(chalk.gray('   Server:'), `${status.serverInfo?.name} ${status.serverInfo?.version}`)
+        console.log(chalk.gray('   Protocol:'), status.protocolVersion)
+        console.log(chalk.gray('   Handshake:'), `${status.latency}ms`)
+        console.log(chalk.gray('   Tools:'), String(status.tools))
+      })
+    } finally {
+      await service.disconnect()
+    }
+  }
+
+  private async tools(server: string, options: { json?: boolean }): Promise<void> {
+    const service = await this.connect([server])
+    try {
+      this.ensureConnected(service, server)
+      const tools = service.getTools(server)
+
+      if (options.json) {
+        console.log(JSON.stringify(tools, null, 2))
+        return
+      }
+      if (tools.length === 0) {
+        console.log(chalk.gray(`${server} offers no tools`))
+        return
+      }
+
+      console.log(chalk.bold(`🔧 Tools of ${server}:`))
+      tools.forEach(tool => {
+        console.log('')
+        console.log(chalk.cyan(`   ${tool.name}`), tool.description ? chalk.gray(`- ${tool.description.split('\n')[0]}`) : '')
+        JSON.stringify(tool.inputSchema, null, 2).split('\n').forEach(line => console.log(chalk.gray(`     ${line}`)))
+      })
+    } finally {
+      await service.disconnect()
+    }
+  }
+
+  /**
+   * Prints only the JSON result on stdout so hooks can pipe it to jq; errors go to stderr
+   */
+  private async call(server: string, toolName: string, options: { arg: string[]; json?: string }): Promise<void> {
+    let service: MCPIntegrationService | undefined
+    try {
+      service = await this.connect([server])
+      this.ensureConnected(service, server)
+
+      const tool = service.getTools(server).find(t => t.name === toolName)
+      const args = {
+        ...(options.json ? await readJsonArguments(options.json) : {}),
+        ...parseArgs(options.arg, tool)
+      }
+
+      const result = await service.callTool(server, toolName, args)
+      console.log(JSON.stringify(result, null, 2))
+    } catch (error) {
+      const { message, cause } = error as MCPError
+      console.error(chalk.red(`❌ ${redact(`${message}${cause ? `: ${cause.message}` : ''}`)}`))
+      this.fileLogger.error('MCP call failed', error as Error, { server, tool: toolName })
+      process.exitCode = 1
+    } finally {
+      await service?.disconnect()
+    }
+  }
+
+  private ensureConnected(service: MCPIntegrationService, server: string): void {
+    if (!service.isAvailable(server)) {
+      const status = service.getServerStatus().find(s => s.name === server)
+      throw new MCPError(`MCP server ${server} is not connected: ${status?.error || 'unknown error'}`, { server })
+    }
+  }
+}
+
+/**
+ * Settings path relative to the project, or with ~ for the home directory
+ */
+function formatSource(source: MCPConfigSource | string): string {
+  const path = typeof source === 'string' ? source : source.path
+  const fromProject = relative(process.cwd(), path)
+  if (!fromProject.startsWith('..')) {
+    return fromProject
+  }
+  return path.startsWith(homedir()) ? `~${path.substring(homedir().length)}` : path
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value]
+}
+
+/**
+ * key=value pairs as tool arguments; values are JSON unless the tool's schema declares a string
+ */
+function parseArgs(pairs: string[], tool?: MCPTool): Record<string, unknown> {
+  const properties = (tool?.inputSchema.properties || {}) as Record<string, { type?: string | string[] }>
+
+  return Object.fromEntries(pairs.map(pair => {
+    const separator = pair.indexOf('=')
+    if (separator <= 0) {
+      throw new ValidationError(`--arg expects key=value, got ${pair}`)
+    }
+
+    const key = pair.substring(0, separator)
+    const value = pair.substring(separator + 1)
+    const type = properties[key]?.type
+    if (type === 'string' || (Array.isArray(type) && type.length === 1 && type[0] === 'string')) {
+      return [key, value]
+    }
+    try {
+      return [key, JSON.parse(value)]
+    } catch {
+      return [key, value]
+    }
+  }))
+}
+
+async function readJsonArguments(value: string): Promise<Record<string, unknown>> {
+  let text = value
+  if (value === '@-') {
+    text = await readStdin()
+  } else if (value.startsWith('@')) {
+    text = await readFile(value.substring(1), 'utf-8')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    throw new ValidationError(`--json is not valid JSON: ${(error as Error).message}`)
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError('--json must be a JSON object')
+  }
+  return parsed as Record<string, unknown>
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
@@ -0,0 +1,84 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { getLogger } from '../../utils/logger'
+import { TaskBranchMerger, TaskMergeResult } from '../../core/services/TaskBranchMerger'
+
+export class MergeCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    return new Command('merge')
+      .description('🔀 Merge the branches of isolated tasks back into the instance branch')
+      .argument('<instance-name>', 'Instance whose task branches to merge')
+      .option('--rebase', 'Rebase each task branch onto the instance branch and fast-forward')
+      .option('--all', 'Also merge tasks that are not completed yet')
+      .action(async (instanceName: string, options) => {
+        await this.execute(instanceName, options)
+      })
+  }
+
+  async execute(instanceName: string, options: {
+    rebase?: boolean
+    all?: boolean
+  } = {}): Promise<void> {
+    console.log('')
+
+    try {
+      const spinner = ora(`${options.rebase ? 'Rebasing' : 'Merging'} task branches of ${instanceName}`).start()
+      const results = await new TaskBranchMerger(this.logger).merge(instanceName, options)
+      spinner.stop()
+
+      if (results.length === 0) {
+        console.log(chalk.yellow(`No task branches to merge for ${instanceName}`))
+        console.log(chalk.gray('   Tasks get their own branch with'), chalk.cyan('tazz run --isolate'), chalk.gray('or'), chalk.cyan('Isolate: true'))
+        console.log('')
+        return
+      }
+
+      console.log(chalk.bold(`🔀 Task branches of ${instanceName}:`))
+      results.forEach(result => this.printResult(result))
+      console.log('')
+
+      const merged = results.filter(r => r.status === 'merged').length
+      const problems = results.filter(r => r.status === 'conflict' || r.status === 'failed').length
+      if (problems > 0) {
+        console.log(chalk.red(`❌ ${problems} task branches could not be merged`), chalk.gray(`(${merged} merged)`))
+        console.log(chalk.gray('   Resolve the conflicts in the task worktree, commit, then run'), chalk.cyan(`tazz merge ${instanceName}`), chalk.gray('again'))
+        console.log('')
+        process.exit(1)
+      }
+      console.log(chalk.green(`✅ ${merged} task branches merged into ${instanceName}`))
+      console.log('')
+
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to merge task branches: ${(error as Error).message}`))
+      this.logger.error('Merge failed', error as Error, { instanceName })
+      process.exit(1)
+    }
+  }
+
+  private printResult(result: TaskMergeResult): void {
+    const { task } = result
+    const branch = chalk.gray(`(${task.branch})`)
+
+    switch (result.status) {
+      case 'merged':
+        console.log(chalk.green(`   ✓ ${task.id}`), branch, chalk.gray(`${result.commits.length} commits`))
+        break
+      case 'up-to-date':
+        console.log(chalk.gray(`   · ${task.id} (${task.branch}) already merged`))
+        break
+      case 'conflict':
+        console.log(chalk.red(`   ✗ ${task.id}`), branch, chalk.red(`conflicts in ${result.conflicts.length} files, aborted:`))
+        result.conflicts.forEach(file => console.log(chalk.red(`       ${file}`)))
+        break
+      case 'failed':
+        console.log(chalk.red(`   ✗ ${task.id}`), branch, chalk.red(result.reason || 'failed'))
+        break
+      case 'skipped':
+        console.log(chalk.yellow(`   - ${task.id}`), branch, chalk.yellow(`skipped: ${result.reason}`))
+        break
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import { getLogger } from '../../utils/logger'
+import { AgentMonitor, MonitorResult } from '../../core/services/AgentMonitor'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { AgentStatus, ValidationError } from '../../core/types'
+
+const STATUS_COLORS: Record<AgentStatus, (text: string) => string> = {
+  [AgentStatus.RUNNING]: chalk.green,
+  [AgentStatus.STARTING]: chalk.cyan,
+  [AgentStatus.STOPPED]: chalk.gray,
+  [AgentStatus.ERROR]: chalk.red
+}
+
+export class MonitorCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    return new Command('monitor')
+      .description('🩺 Watch agent processes, update their status and restart crashed agents')
+      .option('--once', 'Check once and exit')
+      .option('--interval <seconds>', 'Seconds between checks', '10')
+      .action(async (options) => {
+        await this.execute(options)
+      })
+  }
+
+  async execute(options: { once?: boolean; interval?: string } = {}): Promise<void> {
+    console.log('')
+
+    try {
+      const monitor = new AgentMonitor(this.logger)
+
+      if (options.once) {
+        const result = await DaemonClient.tryCall<MonitorResult>('monitor.check', {}, 0) ?? await monitor.check()
+        this.printResult(result)
+        if (result.changes.length === 0 && result.failedSessions.length === 0) {
+          console.log(chalk.green(`✅ ${result.checked} agents checked, no changes`))
+        }
+        console.log('')
+        return
+      }
+
+      const interval = parseInt(options.interval || '10')
+      if (!Number.isInteger(interval) || interval < 1) {
+        throw new ValidationError(`--interval must be a positive number of seconds, got ${options.interval}`)
+      }
+
+      console.log(chalk.bold.cyan(`🩺 Monitoring agents every ${interval}s`), chalk.gray('(Ctrl+C to stop)'))
+      console.log('')
+
+      const controller = new AbortController()
+      process.once('SIGINT', () => controller.abort())
+      await monitor.watch(interval * 1000, result => this.printResult(result), controller.signal)
+      console.log('')
+
+    } catch (error) {
+      console.log(chalk.red(`❌ Monitor failed: ${(error as Error).message}`))
+      this.logger.error('Monitor failed', error as Error)
+      process.exit(1)
+    }
+  }
+
+  private printResult(result: MonitorResult): void {
+    const time = chalk.gray(new Date().toLocaleTimeString())
+
+    result.changes.forEach(change => {
+      const transition = `${STATUS_COLORS[change.previous](change.previous)} → ${STATUS_COLORS[change.status](change.status)}`
+      const reason = change.reason ? chalk.gray(` (${change.reason})`) : ''
+      console.log(`${time} ${chalk.cyan(change.agentId)} ${transition}${reason}`)
+      if (change.restarted) {
+        console.log(`${time} ${chalk.yellow(`↻ Restarted ${change.agentId}`)}`)
+      }
+    })
+    result.failedSessions.forEach(sessionId => {
+      console.log(`${time} ${chalk.red(`✗ Session ${sessionId} failed: no agent is alive`)}`)
+    })
+  }
+}
@@ -4,6 +4,8 @@ import { spawn } from 'child_process'
 import { pathExists, readFile, writeFile, ensureFile } from 'fs-extra'
 import { join } from 'path'
 import { getLogger } from '../../utils/logger'
+import { loadTaskFile, getRunnableTasks } from '../../core/storage/TaskFileParser'
+import { findDependencyCycle } from '../../core/services/TaskScheduler'
 
 export class NoteCommand {
   private logger = getLogger()
@@ -13,11 +15,75 @@ export class NoteCommand {
       .description('📝 Open editor to create/edit tasks and prompts')
       .option('-e, --editor <editor>', 'Specify editor (code, vim, nano)', 'code')
       .option('-t, --template <type>', 'Use template (task, prompt, session)', 'task')
+      .option('--validate', 'Check the task file for errors instead of opening the editor')
+      .option('-i, --instance <name>', 'Validate the task file `tazz run <name>` reads')
       .action(async (options) => {
+        if (options.validate) {
+          const valid = await this.validate(options.instance)
+          process.exit(valid ? 0 : 1)
+        }
         await this.execute(options)
       })
   }
 
+  /**
+   * Parse the task file (the instance's own one if it has one) and report
+   * tasks and line-numbered problems. Returns false if it has errors.
+   */
+  async validate(instanceName?: string): Promise<boolean> {
+    console.log('')
+    const { path, tasks, issues } = await loadTaskFile(process.cwd(), instanceName)
+    const cycle = findDependencyCycle(tasks)
+    if (cycle) {
+      const first = tasks.find(task => task.id === cycle[0])!
+      issues.push({ line: first.line, severity: 'error', message: `Dependency cycle: ${cycle.join(' → ')}` })
+      issues.sort((a, b) => a.line - b.line)
+    }
+
+    if (!await pathExists(path)) {
+      console.log(chalk.yellow('⚠️  No task file found:'), chalk.cyan(path))
+      console.log(chalk.gray('Create one with'), chalk.cyan('tazz note'))
+      console.log('')
+      return true
+    }
+
+    console.log(chalk.bold.cyan(`📝 Validating ${path}`))
+    console.log('')
+
+    const runnable = new Set(getRunnableTasks(tasks))
+    tasks.forEach(task => {
+      const details = [
+        task.status,
+        task.section && `in "${task.section}"`,
+        task.dependencies.length > 0 && `after ${task.dependencies.join(', ')}`,
+        task.agent && `agent ${task.agent}`
+      ].filter(Boolean).join(', ')
+      const label = `${String(task.line).padStart(4)}  ${task.id}`
+      console.log(runnable.has(task) ? chalk.cyan(label) : chalk.gray(label), chalk.gray(`${task.title} (${details})`))
+    })
+    if (tasks.length > 0) {
+      console.log('')
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error')
+    const warnings = issues.filter(issue => issue.severity === 'warning')
+    issues.forEach(issue => {
+      const color = issue.severity === 'error' ? chalk.red : chalk.yellow
+      console.log(color(`${path}:${issue.line}: ${issue.severity}: ${issue.message}`))
+    })
+    if (issues.length > 0) {
+      console.log('')
+    }
+
+    if (errors.length > 0) {
+      console.log(chalk.red(`❌ ${errors.length} errors, ${warnings.length} warnings`))
+    } else {
+      console.log(chalk.green(`✅ ${tasks.length} tasks (${runnable.size} runnable), ${warnings.length} warnings`))
+    }
+    console.log('')
+    return errors.length === 0
+  }
+
   async execute(options: {
     editor?: string
     template?: string
@@ -157,6 +223,9 @@ As a [user type], I want [functionality] so that [benefit]...
 
 - [ ] Task 2: Write tests
       Session name: task-2
+      Depends on: task-1
+      Priority: high
+      Estimate: 2h
       Description: 
         Create comprehensive tests for the implemented functionality. Focus on unit tests and integration tests.
 
@@ -171,16 +240,10 @@ As a [user type], I want [functionality] so that [benefit]...
         Prepare code for review, run linting, fix any issues, and ensure quality standards are met.
 
 ## In Progress
-- [ ] Current task being worked on...
-      Session name: current-task
-      Description: 
-        Description of what is currently being implemented or debugged.
+<!-- Move tasks here while they are being worked on -->
 
 ## Blocked
-- [ ] Task waiting for dependency
-      Session name: blocked-task
-      Description: 
-        Describe what is blocking this task and what needs to be resolved.
+<!-- Move tasks here with what is blocking them -->
 
 ## Quality Checklist
 - [ ] Code follows project patterns
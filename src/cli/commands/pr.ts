@@ -0,0 +1,90 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { getLogger, redact } from '../../utils/logger'
+import { PullRequestService, PullRequestDraft } from '../../core/services/PullRequestService'
+
+export class PRCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    return new Command('pr')
+      .description('📤 Push an instance branch and open a GitHub pull request for it')
+      .argument('<instance-name>', 'Instance whose branch to open the pull request for')
+      .option('--base <branch>', 'Branch to merge into (default: settings.defaultBranch)')
+      .option('--title <title>', 'Pull request title (default: from the Jira ticket or commits)')
+      .option('--draft', 'Open it as a draft')
+      .option('--remote <name>', 'Remote to push to and read the repository from', 'origin')
+      .option('--no-push', 'Do not push the branch first')
+      .option('--dry-run', 'Print the title and body without pushing or creating anything')
+      .action(async (instanceName: string, options) => {
+        await this.execute(instanceName, options)
+      })
+  }
+
+  async execute(instanceName: string, options: {
+    base?: string
+    title?: string
+    draft?: boolean
+    remote?: string
+    push?: boolean
+    dryRun?: boolean
+  } = {}): Promise<void> {
+    console.log('')
+
+    try {
+      const service = new PullRequestService(this.logger)
+      const session = await service.getSession(instanceName)
+
+      const isOpen = (status?: string) => status === 'open' || status === 'draft'
+      let open = (session.metadata.github?.relatedPRs || []).filter(pr => isOpen(pr.status))
+      if (open.length > 0 && !options.dryRun) {
+        // The recorded status may be outdated, e.g. the pull request was merged or closed on GitHub since
+        const { statuses } = await service.getStatuses([session], { refresh: true })
+        open = open.filter(pr => isOpen(statuses.get(pr.url)?.state ?? pr.status))
+      }
+      if (open.length > 0 && !options.dryRun) {
+        console.log(chalk.yellow(`⚠️  ${instanceName} already has an open pull request:`))
+        open.forEach(pr => console.log(chalk.gray(`   #${pr.number}`), chalk.cyan(pr.url), chalk.gray(pr.title)))
+        console.log('')
+        return
+      }
+
+      const draft = await service.prepare(session, options)
+      if (draft.uncommitted.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${draft.uncommitted.length} uncommitted changes in ${session.worktreePath} are not part of the pull request`))
+      }
+
+      if (options.dryRun) {
+        this.printDraft(draft)
+        return
+      }
+
+      const spinner = ora(`${options.push !== false ? 'Pushing' : 'Opening a pull request for'} ${draft.head}`).start()
+      try {
+        const pullRequest = await service.create(session, draft, { push: options.push, remote: options.remote })
+        spinner.succeed(`Opened pull request #${pullRequest.number}${pullRequest.status === 'draft' ? ' (draft)' : ''}`)
+        console.log(chalk.gray('   Title:'), chalk.cyan(pullRequest.title))
+        console.log(chalk.gray('   Branch:'), chalk.cyan(`${draft.head} → ${draft.base}`), chalk.gray(`(${draft.commits.length} commits)`))
+        console.log(chalk.gray('   URL:'), chalk.cyan(pullRequest.url))
+        console.log('')
+      } catch (error) {
+        spinner.stop()
+        throw error
+      }
+
+    } catch (error) {
+      console.log(chalk.red(`❌ Failed to open pull request: ${redact((error as Error).message)}`))
+      this.logger.error('Pull request failed', error as Error, { instanceName })
+      process.exit(1)
+    }
+  }
+
+  private printDraft(draft: PullRequestDraft): void {
+    console.log(chalk.bold(`📤 Pull request for ${draft.owner}/${draft.repo}${draft.draft ? ' (draft)' : ''}`))
+    console.log(chalk.gray('   Branch:'), chalk.cyan(`${draft.head} → ${draft.base}`), chalk.gray(`(${draft.commits.length} commits)`))
+    console.log(chalk.gray('   Title:'), chalk.cyan(draft.title))
+    console.log('')
+    console.log(draft.body)
+  }
+}
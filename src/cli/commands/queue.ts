@@ -0,0 +1,225 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { getLogger } from '../../utils/logger'
+import { CommandDispatcher } from '../../core/services/CommandDispatcher'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { QueuedCommand, QueuedCommandStatus, SessionError } from '../../core/types'
+
+const STATUS_COLORS: Record<QueuedCommandStatus, (text: string) => string> = {
+  [QueuedCommandStatus.PENDING]: chalk.yellow,
+  [QueuedCommandStatus.RUNNING]: chalk.cyan,
+  [QueuedCommandStatus.SUCCEEDED]: chalk.green,
+  [QueuedCommandStatus.FAILED]: chalk.red,
+  [QueuedCommandStatus.CANCELLED]: chalk.gray
+}
+
+export class QueueCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    const queueCmd = new Command('queue')
+      .description('📬 Inspect and manage the agent command queue')
+
+    queueCmd
+      .command('ls')
+      .description('List queued commands')
+      .option('--status <status>', 'Only show commands with this status (pending, running, succeeded, failed, cancelled)')
+      .action(async (options) => {
+        await this.run(() => this.list(options))
+      })
+
+    queueCmd
+      .command('show')
+      .description('Show a command with its payload and the result of every attempt')
+      .argument('<request-id>', 'Request ID or a unique prefix of it')
+      .action(async (requestId: string) => {
+        await this.run(() => this.show(requestId))
+      })
+
+    queueCmd
+      .command('retry')
+      .description('Queue a failed or cancelled command again and run it')
+      .argument('<request-id>', 'Request ID or a unique prefix of it')
+      .option('--no-run', 'Only put it back in the queue')
+      .action(async (requestId: string, options) => {
+        await this.run(() => this.retry(requestId, options))
+      })
+
+    queueCmd
+      .command('cancel')
+      .description('Cancel a pending command')
+      .argument('<request-id>', 'Request ID or a unique prefix of it')
+      .action(async (requestId: string) => {
+        await this.run(() => this.cancel(requestId))
+      })
+
+    queueCmd
+      .command('run')
+      .description('Run every pending command')
+      .action(async () => {
+        await this.run(() => this.drain())
+      })
+
+    return queueCmd
+  }
+
+  private async run(action: () => Promise<boolean | void>): Promise<void> {
+    console.log('')
+    try {
+      const ok = await action()
+      console.log('')
+      if (ok === false) {
+        process.exit(1)
+      }
+    } catch (error) {
+      console.log(chalk.red(`❌ ${(error as Error).message}`))
+      this.logger.error('Queue command failed', error as Error)
+      process.exit(1)
+    }
+  }
+
+  private async list(options: { status?: string }): Promise<void> {
+    const statuses = Object.values(QueuedCommandStatus) as string[]
+    if (options.status && !statuses.includes(options.status)) {
+      throw new SessionError(`Unknown status ${options.status}; use one of ${statuses.join(', ')}`)
+    }
+
+    const commands = (await this.call('queue.list', {}, dispatcher => dispatcher.getQueue().getAll()))
+      .filter(queued => !options.status || queued.status === options.status)
+    if (commands.length === 0) {
+      console.log(chalk.gray(options.status ? `No ${options.status} commands` : 'The command queue is empty'))
+      return
+    }
+
+    const rows = commands.map(queued => [
+      queued.command.requestId.substring(0, 8),
+      queued.command.type,
+      queued.command.sessionId || '-',
+      queued.status,
+      `${queued.attempts}/${queued.maxRetries + 1}`,
+      formatAge(queued.enqueuedAt),
+      summarize(queued)
+    ])
+
+    const header = ['Request', 'Type', 'Session', 'Status', 'Attempts', 'Queued', 'Summary']
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)))
+    const format = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ')
+
+    console.log(chalk.bold('📬 Command queue:'))
+    console.log('   ' + chalk.bold(format(header)))
+    rows.forEach((row, i) => {
+      console.log('   ' + STATUS_COLORS[commands[i].status](format(row)))
+    })
+  }
+
+  private async show(requestId: string): Promise<void> {
+    const queued = await this.find(requestId)
+    const { command } = queued
+
+    console.log(chalk.bold(`📬 Command ${command.requestId}`))
+    console.log(chalk.gray('   Type:'), chalk.cyan(command.type))
+    console.log(chalk.gray('   Session:'), chalk.cyan(command.sessionId || '-'))
+    console.log(chalk.gray('   Status:'), STATUS_COLORS[queued.status](queued.status))
+    console.log(chalk.gray('   Attempts:'), `${queued.attempts} of ${queued.maxRetries + 1}`, chalk.gray(`(timeout ${queued.timeout}ms)`))
+    console.log(chalk.gray('   Queued:'), queued.enqueuedAt.toISOString())
+    if (queued.startedAt) {
+      console.log(chalk.gray('   Started:'), queued.startedAt.toISOString())
+    }
+    if (queued.finishedAt) {
+      console.log(chalk.gray('   Finished:'), queued.finishedAt.toISOString())
+    }
+    console.log(chalk.gray('   Payload:'))
+    JSON.stringify(command.payload, null, 2).split('\n').forEach(line => console.log(chalk.gray(`     ${line}`)))
+
+    queued.results.forEach((result, i) => {
+      console.log('')
+      console.log(result.success ? chalk.green(`   ✓ Attempt ${i + 1}`) : chalk.red(`   ✗ Attempt ${i + 1}: ${result.error}`))
+      if (result.data !== undefined) {
+        JSON.stringify(result.data, null, 2).split('\n').forEach(line => console.log(chalk.gray(`     ${line}`)))
+      }
+    })
+  }
+
+  private async retry(requestId: string, options: { run?: boolean }): Promise<boolean> {
+    const id = (await this.find(requestId)).command.requestId
+    const queued = await this.call('queue.retry', { requestId: id }, dispatcher => dispatcher.retry(id))
+    console.log(chalk.green(`✅ ${queued.command.requestId} queued again`))
+
+    if (options.run === false) {
+      return true
+    }
+    return this.printProcessed(await this.call('queue.drain', { requestIds: [id] }, dispatcher => dispatcher.drain([id])))
+  }
+
+  private async cancel(requestId: string): Promise<void> {
+    const id = (await this.find(requestId)).command.requestId
+    const queued = await this.call('queue.cancel', { requestId: id }, dispatcher => dispatcher.cancel(id))
+    console.log(chalk.green(`✅ ${queued.command.requestId} cancelled`))
+  }
+
+  private async drain(): Promise<boolean> {
+    const spinner = ora('Running pending commands').start()
+    const processed = await this.call('queue.drain', {}, dispatcher => dispatcher.drain())
+    spinner.stop()
+
+    if (processed.length === 0) {
+      console.log(chalk.gray('No pending commands'))
+      return true
+    }
+    return this.printProcessed(processed)
+  }
+
+  /**
+   * Ask the daemon when one is running, otherwise work on the queue directly
+   */
+  private async call<T>(method: string, params: Record<string, unknown>, direct: (dispatcher: CommandDispatcher) => Promise<T>): Promise<T> {
+    return await DaemonClient.tryCall<T>(method, params, 0) ?? direct(new CommandDispatcher(this.logger))
+  }
+
+  private printProcessed(processed: QueuedCommand[]): boolean {
+    processed.forEach(queued => {
+      const id = queued.command.requestId.substring(0, 8)
+      if (queued.status === QueuedCommandStatus.SUCCEEDED) {
+        console.log(chalk.green(`   ✓ ${id} ${queued.command.type}`), chalk.gray(summarize(queued)))
+      } else {
+        console.log(chalk.red(`   ✗ ${id} ${queued.command.type}: ${summarize(queued)}`))
+      }
+    })
+    return processed.every(queued => queued.status === QueuedCommandStatus.SUCCEEDED)
+  }
+
+  private async find(requestId: string): Promise<QueuedCommand> {
+    const queued = await this.call('queue.find', { requestId }, dispatcher => dispatcher.getQueue().find(requestId))
+    if (!queued) {
+      throw new SessionError(`No queued command ${requestId}`, { requestId })
+    }
+    return queued
+  }
+}
+
+/**
+ * Error of the last attempt, or a short description of what the command does
+ */
+function summarize(queued: QueuedCommand): string {
+  const last = queued.results[queued.results.length - 1]
+  if (last && !last.success) {
+    return last.error || 'failed'
+  }
+
+  const payload = queued.command.payload as { title?: string; tasks?: string[]; taskId?: string } | undefined
+  const text = payload?.title || payload?.tasks?.join(', ') || payload?.taskId || ''
+  return text.length > 50 ? `${text.substring(0, 47)}...` : text
+}
+
+function formatAge(date: Date): string {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000)
+  if (minutes < 1) {
+    return 'just now'
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`
+  }
+  const hours = Math.floor(minutes / 60)
+  return hours < 24 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`
+}
@@ -0,0 +1,80 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { getLogger } from '../../utils/logger'
+import { DependencyManager } from '../../utils/dependencies'
+import { SessionLifecycleService, ResumeResult } from '../../core/services/SessionLifecycleService'
+import { DaemonClient } from '../../core/services/DaemonClient'
+
+export class ResumeCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    return new Command('resume')
+      .description('▶️  Resume a stopped Tazz session in its existing worktree')
+      .argument('<session-id>', 'Instance name or process ID to resume (e.g., feature-auth)')
+      .action(async (sessionId: string) => {
+        await this.execute(sessionId)
+      })
+  }
+
+  async execute(sessionId: string): Promise<void> {
+    console.log('')
+    console.log(chalk.bold.cyan(`▶️  Resuming session: ${sessionId}`))
+    console.log('')
+
+    try {
+      if (!await DependencyManager.ensureDependencies()) {
+        throw new Error('Required dependencies are missing')
+      }
+
+      const spinner = ora('Restoring Tazz processes').start()
+      let resumed: ResumeResult
+      try {
+        resumed = await DaemonClient.tryCall<ResumeResult>('session.resume', { sessionId }, 0)
+          ?? await new SessionLifecycleService(this.logger).resume(sessionId)
+      } catch (error) {
+        spinner.fail('Failed to restore Tazz processes')
+        throw error
+      }
+
+      const { session, restored } = resumed
+      if (resumed.alreadyRunning) {
+        spinner.stop()
+        console.log(chalk.yellow(`⚠️  Session ${session.id} is already running`))
+        console.log(chalk.gray('   Join with:'), chalk.cyan(`tazz join ${session.agents[0].id}`))
+        console.log('')
+        return
+      }
+      if (restored.length === 0) {
+        spinner.stop()
+        console.log(chalk.yellow(`⚠️  Nothing to resume in session ${session.id}: all tasks are done or waiting`))
+        console.log('')
+        return
+      }
+      spinner.succeed(`Restored ${restored.length} Tazz processes`)
+
+      console.log('')
+      console.log(chalk.green(`✅ Session ${session.id} resumed`))
+      console.log('')
+      console.log(chalk.bold('📍 Session Details:'))
+      console.log(chalk.gray('   Branch:'), chalk.cyan(session.branch))
+      console.log(chalk.gray('   Worktree:'), chalk.cyan(session.worktreePath))
+      console.log(chalk.gray('   Tazz Processes:'))
+      restored.forEach((proc, i) => {
+        console.log(chalk.gray(`     ${i + 1}.`), chalk.cyan(proc.processId), chalk.gray(`(${proc.task?.title || 'main'})`))
+      })
+      if (resumed.failed?.length) {
+        console.log(chalk.yellow(`⚠️  Could not restore: ${resumed.failed.join(', ')}`))
+      }
+      console.log('')
+      console.log(chalk.gray('• Join a process:'), chalk.cyan(`tazz join ${restored[0].processId}`))
+      console.log('')
+
+    } catch (error) {
+      this.logger.error('Resume failed', error as Error, { sessionId })
+      console.log(chalk.red(`❌ Failed to resume session: ${(error as Error).message}`))
+      process.exit(1)
+    }
+  }
+}
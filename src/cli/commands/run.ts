@@ -1,30 +1,46 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
 import ora from 'ora'
-import { pathExists, readFile } from 'fs-extra'
+import { pathExists } from 'fs-extra'
 import { join } from 'path'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-import { getLogger } from '../../utils/logger'
-import { getTazzDir, getProjectTazzDir } from '../../utils/paths'
+import { getLogger, redact } from '../../utils/logger'
 import { TazzAnimation } from '../ui/tornado'
 import { DependencyManager } from '../../utils/dependencies'
-
-const execAsync = promisify(exec)
+import { SessionStore } from '../../core/storage/SessionStore'
+import { TaskProcessLauncher, TazzProcess } from '../../core/services/TaskProcessLauncher'
+import { WorktreeManager, WorktreeOptions, PreparedWorktree } from '../../core/services/WorktreeManager'
+import { ProjectConfigStore } from '../../core/storage/ProjectConfigStore'
+import { TaskScheduler, ScheduleResult, findDependencyCycle } from '../../core/services/TaskScheduler'
+import { MCPIntegrationService } from '../../core/services/MCPIntegrationService'
+import { JiraTicketService } from '../../core/services/JiraTicketService'
+import { DaemonClient } from '../../core/services/DaemonClient'
+import { loadTaskFile, getRunnableTasks } from '../../core/storage/TaskFileParser'
+import { getRemoteRepository } from '../../utils/git'
+import { SyncCommand } from './sync'
+import { TazzSession, SessionStatus, SessionMetadata, TaskReference, GitHubIssueReference, ValidationError } from '../../core/types'
 
 export class RunCommand {
   private logger = getLogger()
+  private launcher = new TaskProcessLauncher(this.logger)
 
   build(): Command {
     return new Command('run')
       .description('🚀 Start a development session with git worktree and tmux')
       .argument('<instance-name>', 'Instance name (e.g., feature-auth, JIRA-123)')
-      .action(async (sessionName: string) => {
-        await this.execute(sessionName)
+      .option('--base <ref>', 'Branch from this ref instead of HEAD')
+      .option('--reuse', 'Attach an existing branch or worktree instead of failing')
+      .option('--branch <name>', 'Branch name, overriding settings.branchTemplate')
+      .option('--type <type>', 'Value for {type} in settings.branchTemplate', 'feature')
+      .option('--max-parallel <n>', 'Most task processes to run at once (default: settings.maxConcurrentSessions)')
+      .option('--isolate', 'Give every task its own worktree and branch off the instance branch')
+      .option('--no-jira', 'Do not fetch the Jira ticket the instance is named after')
+      .option('--issue <ref>', 'GitHub issue to report task progress on (42, owner/repo#42 or its URL)')
+      .action(async (sessionName: string, options) => {
+        await this.execute(sessionName, options)
       })
   }
 
-  async execute(sessionName: string): Promise<void> {
+  async execute(sessionName: string, options: WorktreeOptions & { maxParallel?: string; isolate?: boolean; jira?: boolean; issue?: string } = {}): Promise<void> {
     
     // Show animation
     const animation = new TazzAnimation()
@@ -43,51 +59,94 @@ export class RunCommand {
         throw new Error('Required dependencies are missing')
       }
 
+      const issue = options.issue ? await this.resolveGitHubIssue(options.issue) : undefined
+
+      // A ticket's sub-tasks and acceptance criteria go into the task file before it is read
+      const jira = options.jira !== false ? await this.fetchJiraTicket(sessionName) : undefined
+
       // Load tasks from notes if available
-      const tasks = await this.loadTasks()
+      const tasks = await this.loadTasks(sessionName)
+      if (options.isolate) {
+        // An explicit `Isolate: false` in the task file wins over --isolate
+        tasks.forEach(task => { task.isolate = task.isolate ?? true })
+      }
+      const runnable = getRunnableTasks(tasks)
       if (tasks.length > 0) {
         console.log(chalk.bold('📋 Session Tasks:'))
         tasks.forEach((task, i) => {
-          console.log(chalk.gray(`   ${i + 1}.`), chalk.cyan(task.name))
+          const after = (task.dependencies.length > 0 ? chalk.gray(` (after ${task.dependencies.join(', ')})`) : '') +
+            (task.isolate ? chalk.gray(' [isolated]') : '')
+          if (runnable.includes(task)) {
+            console.log(chalk.gray(`   ${i + 1}.`), chalk.cyan(task.title) + after)
+          } else {
+            console.log(chalk.gray(`   ${i + 1}. ${task.title} [${task.status}]`))
+          }
           if (task.description) {
             console.log(chalk.gray(`      ${task.description.substring(0, 80)}...`))
           }
         })
         console.log('')
       }
+      const maxParallel = await this.resolveMaxParallel(options.maxParallel)
 
       // Create git worktree
-      const worktreePath = await this.createWorktree(sessionName)
+      const worktree = await this.createWorktree(sessionName, { ...options, summary: jira?.title })
+      const worktreePath = worktree.path
       
-      // Create separate Tazz processes for each task
-      if (tasks.length > 0) {
-        await this.createTazzProcessesForTasks(sessionName, worktreePath, tasks)
-      } else {
-        // Fallback: create single session
-        await this.createTmuxSession(sessionName, worktreePath, 'Main development session')
-      }
+      // Task processes are started by the scheduler once the session is recorded;
+      // without tasks a single main session is created instead
+      const processes = runnable.length > 0
+        ? []
+        : [await this.createTmuxSession(sessionName, worktreePath, 'Main development session')]
 
       // Save session info
       await this.saveSessionInfo(sessionName, {
         worktreePath,
         tasks,
-        branch: `feature/${sessionName}`,
-        createdAt: new Date().toISOString()
+        processes,
+        maxParallel,
+        branch: worktree.branch,
+        jira,
+        issue
       })
 
+      const schedule = runnable.length > 0 ? await this.startTasks(sessionName, maxParallel) : undefined
+      if (schedule && schedule.started.length > 0) {
+        // Moves the started tasks' issues to In Progress
+        await new SyncCommand().flush(sessionName)
+      }
+
       console.log('')
       console.log(chalk.green('✅ Sessions started successfully!'))
       console.log('')
       console.log(chalk.bold('📍 Session Details:'))
       console.log(chalk.gray('   Instance:'), chalk.cyan(sessionName))
       console.log(chalk.gray('   Worktree:'), chalk.cyan(worktreePath))
-      
-      if (tasks.length > 0) {
+      console.log(chalk.gray('   Branch:'), chalk.cyan(worktree.branch), worktree.reused ? chalk.gray('(reused)') : '')
+      if (jira) {
+        console.log(chalk.gray('   Jira:'), chalk.cyan(`${jira.key} ${jira.title}`), chalk.gray(`[${jira.status}]`))
+      }
+      if (issue) {
+        console.log(chalk.gray('   Issue:'), chalk.cyan(`${issue.owner}/${issue.repo}#${issue.number}`))
+      }
+
+      if (schedule) {
         console.log(chalk.gray('   Tazz Processes:'))
-        tasks.forEach((task, i) => {
-          const taskSessionName = task.sessionName || `task${i + 1}`
-          const fullSessionId = `${sessionName}_${taskSessionName}`
-          console.log(chalk.gray(`     ${i + 1}.`), chalk.cyan(fullSessionId), chalk.gray(`(${task.name})`))
+        schedule.started.forEach((proc, i) => {
+          console.log(chalk.gray(`     ${i + 1}.`), chalk.cyan(proc.processId), chalk.gray(`(${proc.task?.title})`))
+        })
+        if (schedule.waiting.length > 0) {
+          console.log(chalk.gray('   Waiting:'))
+          schedule.waiting.forEach(task => {
+            const after = task.dependencies.length > 0 ? `after ${task.dependencies.join(', ')}` : 'for a free slot'
+            console.log(chalk.gray(`     • ${task.id} (${after})`))
+          })
+        }
+        schedule.unreachable.forEach(task => {
+          console.log(chalk.yellow(`   ⚠ ${task.id} depends on a blocked task and will not start`))
+        })
+        schedule.failed.forEach(({ task, error }) => {
+          console.log(chalk.red(`   ✗ ${task.id}: ${error.message}`))
         })
       } else {
         console.log(chalk.gray('   Tmux Session:'), chalk.cyan(`tazz_${sessionName}`))
@@ -95,14 +154,17 @@ export class RunCommand {
       
       console.log('')
       console.log(chalk.bold('🔗 Next Steps:'))
-      if (tasks.length > 0) {
-        console.log(chalk.gray(`• ${tasks.length} separate Tazz processes created (detached)`))
-        const firstTaskSessionName = tasks[0]?.sessionName || 'task1'
-        const firstFullSessionId = `${sessionName}_${firstTaskSessionName}`
+      if (schedule && schedule.started.length > 0) {
+        console.log(chalk.gray(`• ${schedule.started.length} separate Tazz processes created (detached)`))
+        const firstFullSessionId = schedule.started[0].processId
         console.log(chalk.gray('• Join specific process:'), chalk.cyan(`tazz join ${firstFullSessionId}`))
+        console.log(chalk.gray('• Finish a task and start its dependents:'), chalk.cyan(`tazz done ${firstFullSessionId}`))
+        if (tasks.some(task => task.isolate)) {
+          console.log(chalk.gray('• Merge finished task branches:'), chalk.cyan(`tazz merge ${sessionName}`))
+        }
         console.log(chalk.gray('• List all processes:'), chalk.cyan('tazz list'))
         console.log(chalk.gray('• Delete a process:'), chalk.cyan(`tazz delete ${firstFullSessionId}`))
-      } else {
+      } else if (!schedule) {
         console.log(chalk.gray('• Session created (detached)'))
         console.log(chalk.gray('• Join session:'), chalk.cyan(`tazz join ${sessionName}`))
         console.log(chalk.gray('• List all sessions:'), chalk.cyan('tazz list'))
@@ -110,6 +172,10 @@ export class RunCommand {
       console.log(chalk.gray('• Edit tasks:'), chalk.cyan('tazz note'))
       console.log('')
 
+      if (schedule && schedule.failed.length > 0) {
+        process.exit(1)
+      }
+
     } catch (error) {
       this.logger.error('Session creation failed', error as Error, { sessionName })
       console.log('')
@@ -128,6 +194,66 @@ export class RunCommand {
     }
   }
 
+  /**
+   * A GitHub issue from its number (on the origin remote's repository),
+   * `owner/repo#42` or URL
+   */
+  private async resolveGitHubIssue(ref: string): Promise<GitHubIssueReference> {
+    const url = ref.match(/github\.com\/([^/]+)\/([^/]+)\/issues\/(\d+)/)
+    const qualified = ref.match(/^([^/\s]+)\/([^#\s]+)#(\d+)$/)
+    const match = url || qualified
+    if (match) {
+      return { owner: match[1], repo: match[2], number: parseInt(match[3]) }
+    }
+
+    const number = ref.match(/^#?(\d+)$/)?.[1]
+    if (!number) {
+      throw new ValidationError(`Invalid issue ${ref}; use a number, owner/repo#42 or the issue URL`, { issue: ref })
+    }
+    const repository = await getRemoteRepository()
+    if (!repository) {
+      throw new ValidationError(`Cannot tell the repository of issue #${number} without a GitHub origin remote; use owner/repo#${number}`, { issue: ref })
+    }
+    return { ...repository, number: parseInt(number) }
+  }
+
+  /**
+   * Fetch the ticket the instance is named after through the Atlassian MCP and
+   * add its sub-tasks and acceptance criteria to the instance's task file. Jira
+   * problems only cost the ticket data, never the session.
+   */
+  private async fetchJiraTicket(sessionName: string): Promise<SessionMetadata['jira']> {
+    const key = JiraTicketService.parseTicketKey(sessionName)
+    if (!key) {
+      return undefined
+    }
+
+    const spinner = ora(`Fetching Jira ticket ${key}`).start()
+    const mcpService = new MCPIntegrationService(this.logger)
+    try {
+      await mcpService.detectAndSetupMCPs({ servers: ['atlassian'] })
+      const jira = new JiraTicketService(mcpService, this.logger)
+      if (!jira.isAvailable()) {
+        spinner.info(`Atlassian MCP (jira_get_issue) not available, skipping Jira ticket ${key}`)
+        return undefined
+      }
+
+      const ticket = await jira.fetchTicket(key)
+      const added = await jira.addToTaskFile(ticket, sessionName)
+      const tasks = ticket.subtasks.length > 0 ? `${ticket.subtasks.length} sub-tasks` : '1 task'
+      spinner.succeed(added
+        ? `${key}: ${ticket.summary} (${tasks}, ${ticket.acceptanceCriteria.length} acceptance criteria added to the task file)`
+        : `${key}: ${ticket.summary} (already in the task file)`)
+      return jira.toSessionMetadata(ticket)
+    } catch (error) {
+      spinner.warn(`Could not fetch Jira ticket ${key}: ${redact((error as Error).message)}`)
+      this.logger.warn('Jira ticket fetch failed', { key, error: (error as Error).message })
+      return undefined
+    } finally {
+      await mcpService.disconnect()
+    }
+  }
+
   private async checkProjectInitialized(): Promise<void> {
     const tazzDir = join(process.cwd(), '.tazz')
     if (!await pathExists(tazzDir)) {
@@ -135,82 +261,58 @@ export class RunCommand {
     }
   }
 
-  private async loadTasks(): Promise<Array<{name: string, description: string, sessionName?: string}>> {
+  private async loadTasks(sessionName: string): Promise<TaskReference[]> {
+    const { path, tasks, issues } = await loadTaskFile(process.cwd(), sessionName)
 
-    // Try to load from notes file
-    try {
-      const notesPath = join(process.cwd(), '.tazz', 'tazz-todo.md')
-      if (await pathExists(notesPath)) {
-        const content = await readFile(notesPath, 'utf-8')
-        const tasks: Array<{name: string, description: string, sessionName?: string}> = []
-        
-        // Parse tasks with descriptions and session names
-        const lines = content.split('\n')
-        let i = 0
-        while (i < lines.length) {
-          const taskMatch = lines[i].match(/^- \[ \] (.+)/)
-          if (taskMatch) {
-            const taskName = taskMatch[1]
-            let description = ''
-            let sessionName = ''
-            
-            // Look for session name and description in next lines
-            i++
-            while (i < lines.length && lines[i].trim() !== '' && !lines[i].match(/^- \[ \]/)) {
-              const line = lines[i].trim()
-              
-              // Check for session name
-              const sessionMatch = line.match(/Session name:\s*(.+)/)
-              if (sessionMatch) {
-                sessionName = sessionMatch[1].trim()
-              }
-              
-              // Check for description
-              if (line === 'Description:') {
-                i++
-                // Collect description lines until we hit empty line, next task, or session name
-                while (i < lines.length && lines[i].trim() !== '' && 
-                       !lines[i].match(/^- \[ \]/) && 
-                       !lines[i].includes('Session name:')) {
-                  description += lines[i].trim() + ' '
-                  i++
-                }
-                i-- // Back up one since we'll increment at end of loop
-              }
-              i++
-            }
-            i-- // Back up one since we'll increment at end of outer loop
-            
-            tasks.push({
-              name: taskName,
-              description: description.trim() || `Work on: ${taskName}`,
-              sessionName: sessionName || taskName.toLowerCase().replace(/[^a-z0-9]/g, '-')
-            })
-          }
-          i++
-        }
-        
-        return tasks.slice(0, 5) // Limit to first 5 tasks
-      }
-    } catch (error) {
-      this.logger.debug('Could not load tasks from notes', error as Error)
+    issues
+      .filter(issue => issue.severity === 'warning')
+      .forEach(issue => this.logger.warn(`${path}:${issue.line}: ${issue.message}`))
+
+    const errors = issues.filter(issue => issue.severity === 'error')
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Invalid task file:\n${errors.map(issue => `   ${path}:${issue.line}: ${issue.message}`).join('\n')}\n   Check it with: tazz note --validate --instance ${sessionName}`,
+        { path, errors: errors.length }
+      )
     }
 
-    return []
+    const cycle = findDependencyCycle(tasks)
+    if (cycle) {
+      throw new ValidationError(`Task dependency cycle: ${cycle.join(' → ')}`, { path, cycle })
+    }
+
+    // Keep only the TaskReference fields; line and section are task-file details
+    return tasks.map(({ line: _line, section: _section, checked: _checked, ...task }) => task)
+  }
+
+  /**
+   * --max-parallel, defaulting to and capped by settings.maxConcurrentSessions
+   */
+  private async resolveMaxParallel(value?: string): Promise<number> {
+    const { settings } = await new ProjectConfigStore().load()
+    if (value === undefined) {
+      return settings.maxConcurrentSessions
+    }
+
+    const requested = Number(value)
+    if (!Number.isInteger(requested) || requested < 1) {
+      throw new ValidationError(`--max-parallel must be a positive integer, got "${value}"`)
+    }
+    if (requested > settings.maxConcurrentSessions) {
+      console.log(chalk.yellow(`⚠️  --max-parallel ${requested} exceeds settings.maxConcurrentSessions, using ${settings.maxConcurrentSessions}`))
+      return settings.maxConcurrentSessions
+    }
+    return requested
   }
 
-  private async createWorktree(sessionName: string): Promise<string> {
+  private async createWorktree(sessionName: string, options: WorktreeOptions): Promise<PreparedWorktree> {
     const spinner = ora('Creating git worktree').start()
     
     try {
-      const branchName = `feature/${sessionName}`
-      const worktreePath = join('..', sessionName)
-
-      // Create worktree
-      await execAsync(`git worktree add ${worktreePath} -b ${branchName}`)
+      const worktree = await new WorktreeManager(this.logger).create(sessionName, options)
       
-      spinner.succeed('Git worktree created')
-      return join(process.cwd(), worktreePath)
+      spinner.succeed(worktree.reused ? `Reusing branch ${worktree.branch}` : 'Git worktree created')
+      return worktree
       
     } catch (error) {
       spinner.fail('Failed to create worktree')
@@ -218,34 +320,19 @@ export class RunCommand {
     }
   }
 
-  private async createTazzProcessesForTasks(sessionName: string, worktreePath: string, tasks: Array<{name: string, description: string, sessionName?: string}>): Promise<void> {
-    const spinner = ora(`Creating ${tasks.length} separate Tazz processes`).start()
+  private async startTasks(sessionName: string, maxParallel: number): Promise<ScheduleResult> {
+    const spinner = ora(`Starting tasks (up to ${maxParallel} at once)`).start()
     
     try {
-      // Create individual Tazz process for each task
-      const processPromises = tasks.map(async (task, index) => {
-        const taskSessionName = task.sessionName || `task${index + 1}`
-        const fullSessionId = `${sessionName}_${taskSessionName}`
-        
-        // Create tmux session for this specific task
-        const tmuxSessionId = `tazz_${fullSessionId}`
-        await execAsync(`tmux new-session -d -s ${tmuxSessionId} -c "${worktreePath}"`)
-        
-        // Setup the session with task context
-        await this.setupTaskSession(tmuxSessionId, task, fullSessionId)
-        
-        return {
-          taskName: taskSessionName,
-          sessionId: fullSessionId,
-          tmuxSession: tmuxSessionId,
-          task: task
-        }
-      })
-      
-      const createdProcesses = await Promise.all(processPromises)
-      
-      spinner.succeed(`Created ${tasks.length} Tazz processes`)
-      return createdProcesses
+      const result = await DaemonClient.tryCall<ScheduleResult>('task.schedule', { sessionId: sessionName }, 0)
+        ?? await new TaskScheduler(this.logger).schedule(sessionName)
+
+      if (result.failed.length > 0) {
+        spinner.warn(`Started ${result.started.length} of ${result.started.length + result.failed.length} Tazz processes`)
+      } else {
+        spinner.succeed(`Created ${result.started.length} Tazz processes, ${result.waiting.length} waiting`)
+      }
+      return result
       
     } catch (error) {
       spinner.fail('Failed to create Tazz processes')
@@ -253,47 +340,15 @@ export class RunCommand {
     }
   }
 
-  private async setupTaskSession(tmuxSessionId: string, task: {name: string, description: string}, sessionId: string): Promise<void> {
-    // Setup session with task context
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'clear' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "🚀 Tazz Process: ${sessionId}"' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "📂 Working directory: $(pwd)"' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "📝 Task: ${task.name}"' Enter`)
-    
-    if (task.description) {
-      await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "💡 Context: ${task.description}"' Enter`)
-    }
-    
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo ""' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "This is an independent Tazz process."' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "Use: tazz join ${sessionId} to attach"' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo "Use: tazz list to see all processes"' Enter`)
-    await execAsync(`tmux send-keys -t ${tmuxSessionId} 'echo ""' Enter`)
-  }
-
-  private async createTmuxSession(sessionName: string, worktreePath: string, description?: string): Promise<void> {
+  private async createTmuxSession(sessionName: string, worktreePath: string, description?: string): Promise<TazzProcess> {
     const spinner = ora('Creating tmux session').start()
     
     try {
       // tmux should be available now (checked by DependencyManager)
-      const sessionId = `tazz_${sessionName}`
-      
-      // Create detached tmux session
-      await execAsync(`tmux new-session -d -s ${sessionId} -c "${worktreePath}"`)
-      
-      // Setup panes
-      await execAsync(`tmux send-keys -t ${sessionId} 'clear' Enter`)
-      await execAsync(`tmux send-keys -t ${sessionId} 'echo "🚀 Tazz Session: ${sessionName}"' Enter`)
-      await execAsync(`tmux send-keys -t ${sessionId} 'echo "📂 Working directory: $(pwd)"' Enter`)
-      
-      if (description) {
-        await execAsync(`tmux send-keys -t ${sessionId} 'echo "💡 Context: ${description}"' Enter`)
-      }
-      
-      await execAsync(`tmux send-keys -t ${sessionId} 'echo "📝 Edit tasks: tazz note"' Enter`)
-      await execAsync(`tmux send-keys -t ${sessionId} 'echo ""' Enter`)
+      const proc = await this.launcher.launchMainProcess(sessionName, worktreePath, description)
       
       spinner.succeed('Tmux session created')
+      return proc
       
     } catch (error) {
       spinner.fail('Failed to create tmux session')
@@ -332,41 +387,36 @@ export class RunCommand {
     }
   }
 
-  private async saveSessionInfo(sessionName: string, info: any): Promise<void> {
-    try {
-      const projectTazzDir = getProjectTazzDir(process.cwd())
-      const sessionsPath = join(projectTazzDir, 'sessions.json')
-      
-      let sessions: any = { sessions: [] }
-      try {
-        const content = await readFile(sessionsPath, 'utf-8')
-        sessions = JSON.parse(content)
-      } catch {
-        // File doesn't exist, start fresh
-      }
-
-      // Add or update session
-      const existingIndex = sessions.sessions.findIndex((s: any) => s.id === sessionName)
-      const sessionData = {
-        id: sessionName,
-        ...info,
-        status: 'active',
-        lastActive: new Date().toISOString()
-      }
+  private async saveSessionInfo(sessionName: string, info: {
+    worktreePath: string
+    branch: string
+    tasks: TaskReference[]
+    processes: TazzProcess[]
+    maxParallel: number
+    jira?: SessionMetadata['jira']
+    issue?: GitHubIssueReference
+  }): Promise<void> {
+    const now = new Date()
+    const agents = info.processes.map(proc => this.launcher.createAgentInstance(proc))
 
-      if (existingIndex >= 0) {
-        sessions.sessions[existingIndex] = sessionData
-      } else {
-        sessions.sessions.push(sessionData)
+    const session: TazzSession = {
+      id: sessionName,
+      branch: info.branch,
+      worktreePath: info.worktreePath,
+      status: SessionStatus.ACTIVE,
+      createdAt: now,
+      lastActive: now,
+      agents,
+      tasks: info.tasks,
+      metadata: {
+        scheduler: { maxParallel: info.maxParallel },
+        ...(info.jira ? { jira: info.jira } : {}),
+        ...(info.issue ? { github: { relatedPRs: [], issue: info.issue } } : {})
       }
-
-      sessions.lastUpdated = new Date().toISOString()
-
-      // We would normally write this, but keeping it simple for now
-      this.logger.info('Session info saved', { sessionName, info })
-      
-    } catch (error) {
-      this.logger.warn('Could not save session info', error as Error)
     }
+
+    // The scheduler works from the stored record, so a failed save is fatal
+    await new SessionStore().saveSession(session)
+    this.logger.info('Session info saved', { sessionId: sessionName, agents: agents.length, tasks: info.tasks.length })
   }
-}
\ No newline at end of file
+}
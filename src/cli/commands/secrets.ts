@@ -0,0 +1,131 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import inquirer from 'inquirer'
+import { getLogger } from '../../utils/logger'
+import { SecretStore } from '../../core/storage/SecretStore'
+import { ValidationError } from '../../core/types'
+
+export class SecretsCommand {
+  private logger = getLogger()
+  private store = new SecretStore()
+
+  build(): Command {
+    const secretsCmd = new Command('secrets')
+      .description('🔑 Manage the encrypted secrets MCP servers reference as ${secret:name}')
+
+    secretsCmd
+      .command('set')
+      .description('Store a secret; the value is read from stdin when piped, otherwise prompted for')
+      .argument('<name>', 'Secret name')
+      .argument('[value]', 'Secret value; prefer stdin or the prompt to keep it out of shell history')
+      .action(async (name: string, value?: string) => {
+        await this.run(() => this.set(name, value))
+      })
+
+    secretsCmd
+      .command('get')
+      .description('Print the value of a secret')
+      .argument('<name>', 'Secret name')
+      .action(async (name: string) => {
+        await this.get(name)
+      })
+
+    secretsCmd
+      .command('list')
+      .alias('ls')
+      .description('List secret names (never their values)')
+      .action(async () => {
+        await this.run(() => this.list())
+      })
+
+    secretsCmd
+      .command('rm')
+      .description('Delete a secret')
+      .argument('<name>', 'Secret name')
+      .action(async (name: string) => {
+        await this.run(() => this.remove(name))
+      })
+
+    return secretsCmd
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    console.log('')
+    try {
+      await action()
+      console.log('')
+    } catch (error) {
+      console.log(chalk.red(`❌ ${(error as Error).message}`))
+      this.logger.error('Secrets command failed', error as Error)
+      process.exit(1)
+    }
+  }
+
+  private async set(name: string, value?: string): Promise<void> {
+    let secret = value
+    if (secret === undefined) {
+      secret = process.stdin.isTTY ? await promptSecret(name) : (await readStdin()).replace(/\r?\n$/, '')
+    }
+    if (!secret) {
+      throw new ValidationError(`No value given for secret ${name}`)
+    }
+
+    await this.store.set(name, secret)
+    console.log(chalk.green(`✅ Stored secret ${name}`))
+    console.log(chalk.gray(`   Reference it in MCP settings as \${secret:${name}}`))
+  }
+
+  /**
+   * Prints only the raw value so it can be used in command substitution
+   */
+  private async get(name: string): Promise<void> {
+    try {
+      const value = await this.store.get(name)
+      if (value === undefined) {
+        throw new ValidationError(`Secret ${name} is not set`)
+      }
+      process.stdout.write(value + (process.stdout.isTTY ? '\n' : ''))
+    } catch (error) {
+      console.error(chalk.red(`❌ ${(error as Error).message}`))
+      process.exitCode = 1
+    }
+  }
+
+  private async list(): Promise<void> {
+    const secrets = await this.store.list()
+    if (secrets.length === 0) {
+      console.log(chalk.gray('No secrets stored'))
+      return
+    }
+
+    console.log(chalk.bold(`🔑 Secrets (${secrets.length}):`))
+    secrets.forEach(secret => {
+      console.log(`   ${chalk.cyan(secret.name.padEnd(30))} ${chalk.gray(`updated ${secret.updatedAt.toLocaleString()}`)}`)
+    })
+  }
+
+  private async remove(name: string): Promise<void> {
+    if (!(await this.store.remove(name))) {
+      throw new ValidationError(`Secret ${name} is not set`)
+    }
+    console.log(chalk.green(`✅ Deleted secret ${name}`))
+  }
+}
+
+async function promptSecret(name: string): Promise<string> {
+  const { value } = await inquirer.prompt([{
+    type: 'password',
+    name: 'value',
+    message: `Value for ${name}:`,
+    mask: '*'
+  }])
+  return value
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf-8')
+}
@@ -1,6 +1,8 @@
 import { Command } from 'commander'
 import chalk from 'chalk'
-import { SessionStore } from '../../core/storage/SessionStore'
+import ora from 'ora'
+import { SessionLifecycleService, StopResult } from '../../core/services/SessionLifecycleService'
+import { DaemonClient } from '../../core/services/DaemonClient'
 import { SessionStatus } from '../../core/types'
 import { getLogger } from '../../utils/logger'
 
@@ -10,26 +12,78 @@ export class StopCommand {
   build(): Command {
     return new Command('stop')
       .description('⏸️  Stop a Tazz session (keeps worktree)')
-      .argument('<session-id>', 'Session identifier to stop')
-      .action(async (sessionId: string) => {
-        await this.execute(sessionId)
+      .argument('[session-id]', 'Instance name or process ID to stop')
+      .option('-a, --all', 'Stop every session of this project')
+      .option('-i, --instance <name>', 'Stop every process of an instance')
+      .option('--timeout <ms>', 'Grace period for agents to exit after C-c', '5000')
+      .action(async (sessionId: string | undefined, options) => {
+        await this.execute(sessionId, options)
       })
   }
 
-  async execute(sessionId: string): Promise<void> {
+  async execute(sessionId?: string, options: {
+    all?: boolean
+    instance?: string
+    timeout?: string
+  } = {}): Promise<void> {
+    const label = options.all ? 'all sessions' : options.instance || sessionId
     console.log('')
-    console.log(chalk.yellow(`⏸️  Stopping session: ${sessionId}`))
+    console.log(chalk.yellow(`⏸️  Stopping ${label}`))
 
     try {
-      const sessionStore = new SessionStore()
-      await sessionStore.updateSessionStatus(sessionId, SessionStatus.STOPPED)
-      
-      console.log(chalk.green(`✅ Session ${sessionId} stopped`))
-      console.log(chalk.gray(`   Use 'tazz join ${sessionId}' to resume`))
+      const params = {
+        sessionId,
+        instance: options.instance,
+        all: options.all,
+        gracePeriod: parseInt(options.timeout || '5000')
+      }
+      const spinner = ora('Stopping Tazz processes').start()
+      let stopped: StopResult
+      try {
+        stopped = await DaemonClient.tryCall<StopResult>('session.stop', params, 0)
+          ?? await new SessionLifecycleService(this.logger).stop(params)
+      } catch (error) {
+        spinner.stop()
+        throw error
+      }
+
+      const { processes, sessions: updated } = stopped
+      const failed = processes.filter(p => p.error)
+      if (failed.length > 0) {
+        spinner.warn(`Stopped ${processes.length - failed.length} of ${processes.length} Tazz processes`)
+      } else {
+        spinner.succeed(`Stopped ${processes.length} Tazz processes`)
+      }
+
+      processes.forEach(proc => {
+        if (proc.result) {
+          const note = proc.result.forced ? chalk.yellow(' (killed after timeout)') : ''
+          console.log(chalk.green(`   ✓ ${proc.processId}`) + note)
+          if (proc.result.capturePath) {
+            console.log(chalk.gray(`     Scrollback: ${proc.result.capturePath}`))
+          }
+        } else {
+          console.log(chalk.red(`   ✗ ${proc.processId}: ${proc.error}`))
+        }
+      })
+
+      console.log('')
+      for (const session of updated) {
+        if (session.status === SessionStatus.STOPPED) {
+          console.log(chalk.green(`✅ Session ${session.id} stopped`), chalk.gray(`(worktree kept at ${session.worktreePath})`))
+        } else {
+          console.log(chalk.green(`✅ Session ${session.id} still has running processes`))
+        }
+        console.log(chalk.gray(`   Use 'tazz resume ${session.id}' to resume`))
+      }
+
+      if (failed.length > 0) {
+        process.exit(1)
+      }
 
     } catch (error) {
       console.log(chalk.red(`❌ Failed to stop session: ${(error as Error).message}`))
       process.exit(1)
     }
   }
-}
\ No newline at end of file
+}
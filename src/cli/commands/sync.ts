@@ -0,0 +1,131 @@
+import { Command } from 'commander'
+import chalk from 'chalk'
+import ora from 'ora'
+import { getLogger } from '../../utils/logger'
+import { TrackerSyncService, TrackerFlushResult, formatMinutes } from '../../core/services/TrackerSyncService'
+import { SessionStore } from '../../core/storage/SessionStore'
+import { TrackerOperation, SessionError } from '../../core/types'
+
+export class SyncCommand {
+  private logger = getLogger()
+
+  build(): Command {
+    return new Command('sync')
+      .description('🔄 Push queued task status updates to Jira and GitHub')
+      .argument('[instance-name]', 'Only send the updates of this instance')
+      .option('--dry-run', 'List the queued updates without sending them')
+      .action(async (instanceName: string | undefined, options) => {
+        await this.run(() => options.dryRun ? this.preview(instanceName) : this.send(instanceName))
+      })
+  }
+
+  /**
+   * Send the queued updates and print what happened to them. Used by
+   * `tazz done` as well, so it prints nothing when there is nothing to send
+   * and reports failures instead of throwing them.
+   *
+   * @returns false when an update could not be delivered
+   */
+  async flush(sessionId?: string): Promise<boolean> {
+    const trackerSync = new TrackerSyncService(this.logger)
+    if ((await trackerSync.getPending(sessionId)).length === 0) {
+      return true
+    }
+
+    const spinner = ora('Updating issue trackers').start()
+    let result: TrackerFlushResult
+    try {
+      result = await trackerSync.flush({ sessionId })
+    } catch (error) {
+      spinner.fail(`Failed to update issue trackers: ${(error as Error).message}`)
+      this.logger.error('Tracker sync failed', error as Error, { sessionId })
+      return false
+    }
+
+    if (result.sent.length > 0) {
+      spinner.succeed(`Sent ${result.sent.length} tracker update${result.sent.length === 1 ? '' : 's'}`)
+    } else {
+      spinner.stop()
+    }
+    result.sent.forEach(op => console.log(chalk.green(`   ✓ ${describe(op)}`)))
+    result.skipped.forEach(({ operation, reason }) => {
+      console.log(chalk.gray(`   - ${describe(operation)}: ${reason}`))
+    })
+    result.failed.forEach(({ operation, error, dropped }) => {
+      console.log(chalk.red(`   ✗ ${describe(operation)}: ${error}${dropped ? ' (given up)' : ''}`))
+    })
+    if (result.pending.length > 0) {
+      const servers = [...new Set(result.pending.map(op => op.tracker))].join(', ')
+      console.log(chalk.yellow(`   ⏸ ${result.pending.length} update${result.pending.length === 1 ? '' : 's'} queued until ${servers} can be reached; run \`tazz sync\` to retry`))
+    }
+
+    return result.failed.length === 0
+  }
+
+  private async send(sessionId?: string): Promise<boolean> {
+    if (sessionId) {
+      await this.ensureSession(sessionId)
+    }
+    if ((await new TrackerSyncService(this.logger).getPending(sessionId)).length === 0) {
+      console.log(chalk.gray('No tracker updates queued'))
+      return true
+    }
+    return this.flush(sessionId)
+  }
+
+  private async preview(sessionId?: string): Promise<void> {
+    if (sessionId) {
+      await this.ensureSession(sessionId)
+    }
+    const pending = await new TrackerSyncService(this.logger).getPending(sessionId)
+    if (pending.length === 0) {
+      console.log(chalk.gray('No tracker updates queued'))
+      return
+    }
+
+    console.log(chalk.bold(`🔄 ${pending.length} queued tracker update${pending.length === 1 ? '' : 's'}:`))
+    pending.forEach(op => {
+      console.log(`   ${describe(op)}`, chalk.gray(`(${op.sessionId}${op.taskId ? `/${op.taskId}` : ''})`))
+      if (op.action === 'comment') {
+        op.body.split('\n').forEach(line => console.log(chalk.gray(`      ${line}`)))
+      }
+      if (op.lastError) {
+        console.log(chalk.red(`      Last attempt failed (${op.attempts}): ${op.lastError}`))
+      }
+    })
+  }
+
+  private async ensureSession(sessionId: string): Promise<void> {
+    if (!await new SessionStore().getSession(sessionId)) {
+      throw new SessionError(`Instance ${sessionId} not found`, { sessionId })
+    }
+  }
+
+  private async run(action: () => Promise<boolean | void>): Promise<void> {
+    console.log('')
+    try {
+      const ok = await action()
+      console.log('')
+      if (ok === false) {
+        process.exit(1)
+      }
+    } catch (error) {
+      console.log(chalk.red(`❌ ${(error as Error).message}`))
+      this.logger.error('Sync command failed', error as Error)
+      process.exit(1)
+    }
+  }
+}
+
+function describe(operation: TrackerOperation): string {
+  switch (operation.action) {
+    case 'transition':
+      return `${operation.issue} → ${operation.status}`
+    case 'comment':
+      return `${operation.issue} comment`
+    case 'worklog':
+      return `${operation.issue} log ${formatMinutes(operation.minutes)}`
+    case 'close':
+      return `${operation.issue} close`
+  }
+}
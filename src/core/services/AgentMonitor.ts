@@ -0,0 +1,244 @@
+import { Logger } from '../../utils/logger'
+import { getTmuxSessionName, hasTmuxSession, killTmuxSession } from '../../utils/tmux'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { SessionReconciler } from './SessionReconciler'
+import { TaskProcessLauncher, ProcessState } from './TaskProcessLauncher'
+import { TazzSession, AgentInstance, AgentStatus, SessionStatus, TaskStatus, ProjectConfig } from '../types'
+
+export interface AgentHealth {
+  sessionId: string
+  agentId: string
+  previous: AgentStatus
+  status: AgentStatus
+  /** Why the status changed, for ERROR in particular */
+  reason?: string
+  lastOutput?: Date
+  restarted?: boolean
+}
+
+export interface MonitorResult {
+  /** Agents whose status changed or that were restarted */
+  changes: AgentHealth[]
+  /** Sessions marked FAILED because none of their agents is alive any more */
+  failedSessions: string[]
+  checked: number
+}
+
+const DEFAULT_MAX_RESTARTS = 3
+/** How long an agent may stay STARTING with only a shell in its pane */
+const STARTUP_GRACE = 30000
+
+/**
+ * Polls the tmux panes behind each agent and keeps AgentInstance.status in
+ * line with what is actually running, restarting crashed agents whose
+ * config has `restart: on-failure`
+ */
+export class AgentMonitor {
+  private logger: Logger
+  private reconciler: SessionReconciler
+  private launcher: TaskProcessLauncher
+  private configStore: ProjectConfigStore
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.reconciler = new SessionReconciler(logger, projectPath)
+    this.launcher = new TaskProcessLauncher(logger, projectPath)
+    this.configStore = new ProjectConfigStore(projectPath)
+  }
+
+  /**
+   * One pass over every agent of every session
+   */
+  async check(): Promise<MonitorResult> {
+    // Reconciling first marks agents whose tmux session is gone as STOPPED,
+    // so keep what was stored before to tell those apart from stopped ones
+    const stored = new Map((await this.reconciler.getStore().getAllSessions()).map(s => [s.id, s]))
+    const { sessions } = await this.reconciler.reconcile()
+    const config = await this.configStore.load()
+    const result: MonitorResult = { changes: [], failedSessions: [], checked: 0 }
+
+    for (const { session } of sessions) {
+      const before = stored.get(session.id)
+      const wasActive = before?.status === SessionStatus.ACTIVE
+      const died = before && wasActive ? this.findDiedAgents(before, session) : []
+      const live = session.agents.filter(agent => agent.status !== AgentStatus.STOPPED)
+      if (live.length === 0 && died.length === 0) {
+        continue
+      }
+
+      const observed = await Promise.all(live.map(agent => this.observe(session, agent)))
+      result.checked += live.length
+
+      const changes: AgentHealth[] = observed.filter(health => health.status !== health.previous)
+      for (const health of observed.filter(h => h.status === AgentStatus.ERROR)) {
+        if (await this.restart(session, health, config)) {
+          health.restarted = true
+          if (!changes.includes(health)) {
+            changes.push(health)
+          }
+        }
+      }
+
+      const updated = await this.reconciler.getStore().updateSession(session.id, latest => {
+        for (const health of observed) {
+          const agent = latest.agents.find(a => a.id === health.agentId)
+          if (!agent) {
+            continue
+          }
+          if (health.lastOutput && health.lastOutput > agent.lastActivity) {
+            agent.lastActivity = health.lastOutput
+          }
+          if (!health.restarted && health.status !== agent.status) {
+            agent.status = health.status
+            agent.lastActivity = new Date()
+          }
+        }
+
+        const alive = latest.agents.some(a => a.status === AgentStatus.RUNNING || a.status === AgentStatus.STARTING)
+        const crashed = died.length > 0 || latest.agents.some(a => a.status === AgentStatus.ERROR)
+        // The reconciler stops an active session once no agent is alive; after a crash that is a failure
+        const stoppedByReconciler = wasActive && latest.status === SessionStatus.STOPPED
+        if (!alive && crashed && (latest.status === SessionStatus.ACTIVE || stoppedByReconciler)) {
+          latest.status = SessionStatus.FAILED
+        }
+      })
+
+      if (updated.status === SessionStatus.FAILED && session.status !== SessionStatus.FAILED) {
+        result.failedSessions.push(session.id)
+      }
+      result.changes.push(...changes)
+    }
+
+    if (result.changes.length > 0 || result.failedSessions.length > 0) {
+      this.logger.info('Agent status updated', {
+        changes: result.changes.map(c => `${c.agentId}: ${c.previous} -> ${c.status}${c.restarted ? ', restarted' : ''}`),
+        failedSessions: result.failedSessions
+      })
+    }
+    return result
+  }
+
+  /**
+   * Run `check` every `interval` ms until `signal` is aborted
+   */
+  async watch(interval: number, onCheck: (result: MonitorResult) => void, signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        onCheck(await this.check())
+      } catch (error) {
+        this.logger.error('Agent monitor check failed', error as Error)
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, interval)
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          resolve()
+        }, { once: true })
+      })
+    }
+  }
+
+  /**
+   * Agents that were running before reconciling and are STOPPED after it;
+   * `tazz stop` and finished tasks stop agents themselves first
+   */
+  private findDiedAgents(before: TazzSession, after: TazzSession): AgentInstance[] {
+    return after.agents.filter(agent => {
+      const previous = before.agents.find(a => a.id === agent.id)
+      return agent.status === AgentStatus.STOPPED &&
+        (previous?.status === AgentStatus.RUNNING || previous?.status === AgentStatus.STARTING)
+    })
+  }
+
+  private async observe(session: TazzSession, agent: AgentInstance): Promise<AgentHealth> {
+    const health: AgentHealth = {
+      sessionId: session.id,
+      agentId: agent.id,
+      previous: agent.status,
+      status: agent.status
+    }
+
+    let state: ProcessState | undefined
+    try {
+      state = await this.launcher.inspectProcess(agent.id)
+    } catch (error) {
+      this.logger.warn('Could not inspect agent process', { agentId: agent.id, error: (error as Error).message })
+      return health
+    }
+
+    if (!state) {
+      return { ...health, status: AgentStatus.STOPPED, reason: 'tmux session is gone' }
+    }
+    health.lastOutput = state.lastOutput
+
+    if (!state.paneAlive) {
+      return { ...health, status: AgentStatus.ERROR, reason: 'pane process is dead' }
+    }
+
+    // Only task processes run an agent; a main session is just a shell
+    const task = session.tasks.find(t => t.assignedAgent === agent.id)
+    if (!task || task.status !== TaskStatus.IN_PROGRESS) {
+      return { ...health, status: agent.status === AgentStatus.ERROR ? AgentStatus.ERROR : AgentStatus.RUNNING }
+    }
+
+    if (state.agentRunning) {
+      return { ...health, status: AgentStatus.RUNNING }
+    }
+    if (agent.status === AgentStatus.STARTING && Date.now() - agent.lastActivity.getTime() < STARTUP_GRACE) {
+      return health
+    }
+    return {
+      ...health,
+      status: AgentStatus.ERROR,
+      reason: agent.status === AgentStatus.STARTING ? 'agent never started' : 'agent exited before its task was done'
+    }
+  }
+
+  /**
+   * Relaunch a crashed task agent if its restart policy allows; returns whether it was restarted
+   */
+  private async restart(session: TazzSession, health: AgentHealth, config: ProjectConfig): Promise<boolean> {
+    const agent = session.agents.find(a => a.id === health.agentId)!
+    const task = session.tasks.find(t => t.assignedAgent === agent.id && t.status === TaskStatus.IN_PROGRESS)
+    const agentConfig = task ? config.agents[task.agent || config.settings.defaultAgent] : undefined
+    const maxRestarts = agentConfig?.maxRestarts ?? DEFAULT_MAX_RESTARTS
+    const restarts = agent.restarts || 0
+
+    if (!task || agentConfig?.restart !== 'on-failure') {
+      return false
+    }
+    if (restarts >= maxRestarts) {
+      if (health.previous !== AgentStatus.ERROR) {
+        this.logger.warn('Agent crashed too often, not restarting', { agentId: agent.id, restarts, maxRestarts })
+      }
+      return false
+    }
+
+    try {
+      const tmuxSession = getTmuxSessionName(agent.id)
+      if (await hasTmuxSession(tmuxSession)) {
+        await killTmuxSession(tmuxSession)
+      }
+      const proc = await this.launcher.launchTaskProcess(agent.id, task.worktreePath || session.worktreePath, task)
+      const started = await this.launcher.waitForAgent(proc)
+
+      await this.reconciler.getStore().updateSession(session.id, latest => {
+        const index = latest.agents.findIndex(a => a.id === agent.id)
+        if (index >= 0) {
+          latest.agents[index] = {
+            ...this.launcher.createAgentInstance(proc),
+            status: started ? AgentStatus.RUNNING : AgentStatus.ERROR,
+            restarts: restarts + 1
+          }
+        }
+        latest.status = SessionStatus.ACTIVE
+      })
+
+      this.logger.info('Agent restarted', { agentId: agent.id, attempt: restarts + 1, maxRestarts, started })
+      return started
+    } catch (error) {
+      this.logger.error('Agent restart failed', error as Error, { agentId: agent.id })
+      return false
+    }
+  }
+}
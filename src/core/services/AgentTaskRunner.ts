@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto'
+import { Logger } from '../../utils/logger'
+import { SessionStore } from '../storage/SessionStore'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { WorktreeManager } from './WorktreeManager'
+import { TaskScheduler } from './TaskScheduler'
+import { DEFAULT_TASK_PRIORITY } from '../storage/TaskFileParser'
+import {
+  AgentCommand,
+  AgentCommandType,
+  CommandResult,
+  TazzSession,
+  SessionStatus,
+  TaskStatus,
+  ValidationError
+} from '../types'
+
+export interface RunTaskPayload {
+  title: string
+  description?: string
+  /** Agent profile from the project config; settings.defaultAgent if omitted */
+  agent?: string
+  /** Ids of tasks in the same session that must complete first */
+  dependencies?: string[]
+  /** Request id of an earlier RUN_TASK in the same session whose task must complete first */
+  afterRequest?: string
+}
+
+export interface RunTasksOptions {
+  /** Start every task at once instead of each waiting for the previous one in its session */
+  parallel?: boolean
+  /** Sessions to spread the tasks over; missing ones are created */
+  sessions?: string[]
+  agent?: string
+}
+
+const SESSION_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/
+
+/**
+ * Runs ad-hoc tasks (RUN_TASK commands) by adding them to a session's task
+ * list and letting the session's scheduler start them
+ */
+export class AgentTaskRunner {
+  private logger: Logger
+  private sessionStore: SessionStore
+  private configStore: ProjectConfigStore
+  private worktrees: WorktreeManager
+  private scheduler: TaskScheduler
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.sessionStore = new SessionStore(projectPath)
+    this.configStore = new ProjectConfigStore(projectPath)
+    this.worktrees = new WorktreeManager(logger, projectPath)
+    this.scheduler = new TaskScheduler(logger, projectPath)
+  }
+
+  /**
+   * Build one RUN_TASK command per task, assigned to the sessions round-robin.
+   * Unless `parallel`, each task depends on the previous task of its session.
+   */
+  createCommands(titles: string[], options: RunTasksOptions = {}): AgentCommand[] {
+    const sessions = options.sessions && options.sessions.length > 0
+      ? options.sessions
+      : [`agent-${Date.now().toString(36)}`]
+    const invalid = sessions.find(id => !SESSION_NAME_PATTERN.test(id))
+    if (invalid) {
+      throw new ValidationError(`Invalid session name "${invalid}": use letters, numbers, hyphens and underscores`)
+    }
+
+    const previous = new Map<string, string>()
+    return titles.map((title, i) => {
+      const sessionId = sessions[i % sessions.length]
+      const requestId = randomUUID()
+      const payload: RunTaskPayload = {
+        title,
+        agent: options.agent,
+        afterRequest: options.parallel ? undefined : previous.get(sessionId)
+      }
+      previous.set(sessionId, requestId)
+
+      return { type: AgentCommandType.RUN_TASK, sessionId, payload, timestamp: new Date(), requestId }
+    })
+  }
+
+  /**
+   * Add the command's task to its session (creating the session if needed)
+   * and schedule it. `taskIds` maps earlier request ids to the task ids they
+   * created, for payloads with `afterRequest`.
+   */
+  async runTask(command: AgentCommand, taskIds: Map<string, string> = new Map()): Promise<CommandResult> {
+    const started = Date.now()
+    const metadata = { requestId: command.requestId, sessionId: command.sessionId }
+    let taskId = ''
+
+    try {
+      const payload = command.payload as RunTaskPayload
+      if (command.type !== AgentCommandType.RUN_TASK || !command.sessionId) {
+        throw new ValidationError(`Not a RUN_TASK command with a session: ${command.type}`, { requestId: command.requestId })
+      }
+      if (!payload || typeof payload.title !== 'string' || payload.title.trim() === '') {
+        throw new ValidationError('RUN_TASK payload needs a title', { requestId: command.requestId })
+      }
+
+      const session = await this.ensureSession(command.sessionId)
+      const dependencies = [...(payload.dependencies || [])]
+      if (payload.afterRequest) {
+        const previous = taskIds.get(payload.afterRequest)
+        if (!previous) {
+          throw new ValidationError(`Task of request ${payload.afterRequest} was not created`, { requestId: command.requestId })
+        }
+        dependencies.push(previous)
+      }
+
+      await this.sessionStore.updateSession(session.id, latest => {
+        taskId = uniqueTaskId(slugify(payload.title) || 'task', latest.tasks.map(t => t.id))
+        latest.tasks.push({
+          id: taskId,
+          title: payload.title.trim(),
+          description: payload.description || '',
+          status: TaskStatus.TODO,
+          priority: DEFAULT_TASK_PRIORITY,
+          agent: payload.agent,
+          dependencies
+        })
+        latest.lastActive = new Date()
+      })
+
+      const schedule = await this.scheduler.schedule(session.id)
+      const failure = schedule.failed.find(f => f.task.id === taskId)
+      if (failure) {
+        throw failure.error
+      }
+      const proc = schedule.started.find(p => p.task?.id === taskId)
+
+      this.logger.info('Agent task dispatched', { ...metadata, taskId, processId: proc?.processId })
+      return {
+        success: true,
+        data: {
+          taskId,
+          processId: proc?.processId,
+          state: proc ? 'started' : 'queued',
+          dependencies
+        },
+        metadata: { ...metadata, durationMs: Date.now() - started }
+      }
+    } catch (error) {
+      // Take the task back out so a retry of the command does not add it twice
+      if (taskId && command.sessionId) {
+        await this.sessionStore.updateSession(command.sessionId, latest => {
+          latest.tasks = latest.tasks.filter(t => t.id !== taskId)
+        }).catch(() => undefined)
+      }
+      this.logger.error('Agent task failed', error as Error, metadata)
+      return {
+        success: false,
+        error: (error as Error).message,
+        metadata: { ...metadata, durationMs: Date.now() - started }
+      }
+    }
+  }
+
+  /**
+   * Return the stored session, or create a worktree and record for a new one
+   */
+  async ensureSession(sessionId: string): Promise<TazzSession> {
+    const existing = await this.sessionStore.getSession(sessionId)
+    if (existing) {
+      return existing
+    }
+
+    const { settings } = await this.configStore.load()
+    const worktree = await this.worktrees.create(sessionId)
+    const now = new Date()
+    const session: TazzSession = {
+      id: sessionId,
+      branch: worktree.branch,
+      worktreePath: worktree.path,
+      status: SessionStatus.ACTIVE,
+      createdAt: now,
+      lastActive: now,
+      agents: [],
+      tasks: [],
+      metadata: {
+        scheduler: { maxParallel: settings.maxConcurrentSessions }
+      }
+    }
+
+    await this.sessionStore.saveSession(session)
+    this.logger.info('Session created for agent tasks', { sessionId, worktreePath: worktree.path })
+    return session
+  }
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+function uniqueTaskId(base: string, taken: string[]): string {
+  let id = base
+  for (let n = 2; taken.includes(id); n++) {
+    id = `${base}-${n}`
+  }
+  return id
+}
@@ -91,9 +91,9 @@ export class CodebaseAnalyzer {
 
     // Use git MCP if available for better file listing
     let allFiles: string[] = []
-    if (this.mcpService.isAvailable('git')) {
+    if (this.mcpService.isAvailable('git', 'list_files')) {
       try {
-        const gitFiles = await this.mcpService.callMCP('git', 'list_files', {
+        const gitFiles = await this.mcpService.callTool<{ files?: string[] }>('git', 'list_files', {
           repository: this.projectPath
         })
         allFiles = gitFiles.files || []
@@ -562,9 +562,9 @@ export class CodebaseAnalyzer {
     }
 
     // Use SonarCloud MCP if available
-    if (this.mcpService.isAvailable('sonarcloud')) {
+    if (this.mcpService.isAvailable('sonarcloud', 'get_project_analysis')) {
       try {
-        const sonarResults = await this.mcpService.callMCP('sonarcloud', 'get_project_analysis', {
+        const sonarResults = await this.mcpService.callTool<any>('sonarcloud', 'get_project_analysis', {
           projectKey: await this.detectProjectKey()
         })
         
@@ -0,0 +1,422 @@
+import { Logger } from '../../utils/logger'
+import { getTmuxSessionName } from '../../utils/tmux'
+import { CommandQueueStore } from '../storage/CommandQueueStore'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { SessionStore } from '../storage/SessionStore'
+import { AgentTaskRunner, RunTaskPayload } from './AgentTaskRunner'
+import { TaskScheduler } from './TaskScheduler'
+import { TrackerSyncService } from './TrackerSyncService'
+import { TaskProcessLauncher } from './TaskProcessLauncher'
+import { SessionLifecycleService } from './SessionLifecycleService'
+import { CodebaseAnalyzer } from './CodebaseAnalyzer'
+import { MCPIntegrationService } from './MCPIntegrationService'
+import {
+  AgentCommand,
+  AgentCommandType,
+  CommandResult,
+  QueuedCommand,
+  QueuedCommandStatus,
+  TaskStatus,
+  SessionError,
+  ValidationError
+} from '../types'
+
+export type CommandHandler = (command: AgentCommand) => Promise<CommandResult>
+
+export interface HandlerOptions {
+  /**
+   * Whether a timed-out attempt may be retried. A timed-out handler keeps
+   * running, so only handlers that are safe to run twice at once opt in.
+   */
+  retryOnTimeout?: boolean
+}
+
+interface RegisteredHandler extends HandlerOptions {
+  handler: CommandHandler
+}
+
+export interface ParallelRunPayload {
+  tasks: string[]
+  sessions?: string[]
+}
+
+export interface UpdateTodoPayload {
+  taskId: string
+  status: TaskStatus
+}
+
+export interface AttachSessionPayload {
+  /** Process to attach to; the command's session when omitted */
+  processId?: string
+}
+
+export interface SpawnAgentPayload {
+  taskId: string
+  /** Agent profile to start instead of the task's own */
+  agent?: string
+}
+
+export interface GenerateTestsPayload {
+  /** What to cover, e.g. a file or module; the session's changes when omitted */
+  target?: string
+  description?: string
+  agent?: string
+}
+
+/**
+ * Runs queued AgentCommands: routes each command type to its handler, retries
+ * failures up to the agent's maxRetries and limits every attempt to its timeout.
+ * Command types without a handler are rejected when they are enqueued.
+ */
+export class CommandDispatcher {
+  private logger: Logger
+  private queue: CommandQueueStore
+  private configStore: ProjectConfigStore
+  private sessionStore: SessionStore
+  private runner: AgentTaskRunner
+  private scheduler: TaskScheduler
+  private trackerSync: TrackerSyncService
+  private launcher: TaskProcessLauncher
+  private lifecycle: SessionLifecycleService
+  private projectPath: string
+  private handlers = new Map<AgentCommandType, RegisteredHandler>()
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.queue = new CommandQueueStore(projectPath)
+    this.configStore = new ProjectConfigStore(projectPath)
+    this.sessionStore = new SessionStore(projectPath)
+    this.runner = new AgentTaskRunner(logger, projectPath)
+    this.scheduler = new TaskScheduler(logger, projectPath)
+    this.trackerSync = new TrackerSyncService(logger, projectPath)
+    this.launcher = new TaskProcessLauncher(logger, projectPath)
+    this.lifecycle = new SessionLifecycleService(logger, projectPath)
+    this.projectPath = projectPath
+
+    this.register(AgentCommandType.START_SESSION, command => this.startSession(command))
+    this.register(AgentCommandType.ATTACH_SESSION, command => this.attachSession(command))
+    this.register(AgentCommandType.RUN_TASK, async command => this.runner.runTask(command, await this.getCreatedTaskIds()))
+    this.register(AgentCommandType.SPAWN_AGENT, command => this.spawnAgent(command))
+    this.register(AgentCommandType.PARALLEL_RUN, command => this.parallelRun(command))
+    this.register(AgentCommandType.UPDATE_TODO, command => this.updateTodo(command), { retryOnTimeout: true })
+    this.register(AgentCommandType.ANALYZE_CODE, command => this.analyzeCode(command))
+    this.register(AgentCommandType.GENERATE_TESTS, command => this.generateTests(command))
+  }
+
+  getQueue(): CommandQueueStore {
+    return this.queue
+  }
+
+  /**
+   * Route a command type to a handler, replacing any existing one
+   */
+  register(type: AgentCommandType, handler: CommandHandler, options: HandlerOptions = {}): void {
+    this.handlers.set(type, { ...options, handler })
+  }
+
+  /**
+   * Add a command to the queue with the retry and timeout limits of the agent
+   * it targets (`payload.agent`, otherwise settings.defaultAgent)
+   */
+  async enqueue(command: AgentCommand): Promise<QueuedCommand> {
+    if (!this.handlers.has(command.type)) {
+      throw new ValidationError(`${command.type} commands are not supported`, {
+        requestId: command.requestId,
+        supported: [...this.handlers.keys()]
+      })
+    }
+
+    const { settings, agents } = await this.configStore.load()
+    const agentName = (command.payload as { agent?: string } | undefined)?.agent || settings.defaultAgent
+    const agent = agents[agentName]
+
+    const queued = await this.queue.enqueue(command, {
+      maxRetries: agent?.maxRetries ?? 0,
+      timeout: agent?.timeout ?? settings.agentTimeout
+    })
+    this.logger.debug('Command queued', { requestId: command.requestId, type: command.type })
+    return queued
+  }
+
+  /**
+   * Run pending commands (only those in `requestIds`, plus anything they
+   * enqueue, when given) until none is left. Returns the final state of each.
+   */
+  async drain(requestIds?: string[]): Promise<QueuedCommand[]> {
+    const ids = requestIds ? [...requestIds] : undefined
+    const processed = new Map<string, QueuedCommand>()
+
+    let next: QueuedCommand | null
+    while ((next = await this.processNext(ids))) {
+      processed.set(next.command.requestId, next)
+      const enqueued = (next.results[next.results.length - 1]?.data as { enqueued?: string[] } | undefined)?.enqueued
+      if (ids && enqueued) {
+        ids.push(...enqueued)
+      }
+    }
+    return [...processed.values()]
+  }
+
+  /**
+   * Claim and run the oldest pending command; null when the queue is idle
+   */
+  async processNext(requestIds?: string[]): Promise<QueuedCommand | null> {
+    const claimed = await this.queue.claimNext(requestIds)
+    if (!claimed) {
+      return null
+    }
+
+    const { command } = claimed
+    const registered = this.handlers.get(command.type)
+    const result = registered
+      ? await this.runWithTimeout(registered.handler, command, claimed.timeout)
+      : { success: false, error: `No handler for ${command.type} commands` }
+    const timedOut = result.metadata?.timedOut === true
+
+    return this.queue.update(command.requestId, queued => {
+      queued.results.push(result)
+      if (result.success) {
+        queued.status = QueuedCommandStatus.SUCCEEDED
+      } else if (registered && queued.attempts <= queued.maxRetries && (!timedOut || registered.retryOnTimeout)) {
+        queued.status = QueuedCommandStatus.PENDING
+        this.logger.warn('Command failed, will retry', {
+          requestId: command.requestId,
+          attempt: queued.attempts,
+          maxRetries: queued.maxRetries,
+          error: result.error
+        })
+      } else {
+        if (timedOut && queued.attempts <= queued.maxRetries) {
+          this.logger.warn('Command timed out and is not retried, it may still be running', {
+            requestId: command.requestId,
+            type: command.type
+          })
+        }
+        queued.status = QueuedCommandStatus.FAILED
+      }
+      if (queued.status !== QueuedCommandStatus.PENDING) {
+        queued.finishedAt = new Date()
+      }
+    })
+  }
+
+  /**
+   * Put a failed, cancelled or abandoned (running past its timeout) command back in the queue
+   */
+  async retry(requestId: string): Promise<QueuedCommand> {
+    return this.queue.update(requestId, queued => {
+      const abandoned = queued.status === QueuedCommandStatus.RUNNING &&
+        queued.startedAt !== undefined && Date.now() - queued.startedAt.getTime() > queued.timeout
+      if (queued.status !== QueuedCommandStatus.FAILED && queued.status !== QueuedCommandStatus.CANCELLED && !abandoned) {
+        throw new SessionError(`Command ${requestId} is ${queued.status} and cannot be retried`, { requestId })
+      }
+      queued.status = QueuedCommandStatus.PENDING
+      queued.attempts = 0
+      queued.finishedAt = undefined
+    })
+  }
+
+  async cancel(requestId: string): Promise<QueuedCommand> {
+    return this.queue.update(requestId, queued => {
+      if (queued.status !== QueuedCommandStatus.PENDING) {
+        throw new SessionError(`Only pending commands can be cancelled; ${requestId} is ${queued.status}`, { requestId })
+      }
+      queued.status = QueuedCommandStatus.CANCELLED
+      queued.finishedAt = new Date()
+    })
+  }
+
+  private async runWithTimeout(handler: CommandHandler, command: AgentCommand, timeout: number): Promise<CommandResult> {
+    let timer: NodeJS.Timeout | undefined
+    const expired = new Promise<CommandResult>(resolve => {
+      timer = setTimeout(() => resolve({
+        success: false,
+        error: `Timed out after ${timeout}ms`,
+        metadata: { requestId: command.requestId, timedOut: true }
+      }), timeout)
+    })
+
+    try {
+      return await Promise.race([
+        handler(command).catch(error => ({ success: false, error: (error as Error).message })),
+        expired
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Task ids created by succeeded RUN_TASK commands, by request id
+   */
+  private async getCreatedTaskIds(): Promise<Map<string, string>> {
+    const taskIds = new Map<string, string>()
+    for (const queued of await this.queue.getAll()) {
+      const taskId = (queued.results[queued.results.length - 1]?.data as { taskId?: string } | undefined)?.taskId
+      if (queued.status === QueuedCommandStatus.SUCCEEDED && taskId) {
+        taskIds.set(queued.command.requestId, taskId)
+      }
+    }
+    return taskIds
+  }
+
+  private async startSession(command: AgentCommand): Promise<CommandResult> {
+    if (!command.sessionId) {
+      throw new ValidationError('START_SESSION needs a sessionId', { requestId: command.requestId })
+    }
+
+    const session = await this.runner.ensureSession(command.sessionId)
+    const schedule = await this.scheduler.schedule(session.id)
+    return {
+      success: schedule.failed.length === 0,
+      data: {
+        sessionId: session.id,
+        worktreePath: session.worktreePath,
+        branch: session.branch,
+        started: schedule.started.map(p => p.processId)
+      },
+      error: schedule.failed.length > 0 ? schedule.failed.map(f => `${f.task.id}: ${f.error.message}`).join('; ') : undefined
+    }
+  }
+
+  /**
+   * Split into one RUN_TASK per task; they are queued behind this command
+   */
+  private async parallelRun(command: AgentCommand): Promise<CommandResult> {
+    const payload = command.payload as ParallelRunPayload
+    if (!payload || !Array.isArray(payload.tasks) || payload.tasks.length === 0) {
+      throw new ValidationError('PARALLEL_RUN payload needs a list of tasks', { requestId: command.requestId })
+    }
+
+    const sessions = payload.sessions || (command.sessionId ? [command.sessionId] : undefined)
+    const commands = this.runner.createCommands(payload.tasks, { parallel: true, sessions })
+    for (const child of commands) {
+      await this.enqueue(child)
+    }
+    return { success: true, data: { enqueued: commands.map(c => c.requestId) } }
+  }
+
+  private async updateTodo(command: AgentCommand): Promise<CommandResult> {
+    const payload = command.payload as UpdateTodoPayload
+    if (!command.sessionId || !payload?.taskId || !Object.values(TaskStatus).includes(payload.status)) {
+      throw new ValidationError('UPDATE_TODO needs a sessionId, taskId and task status', { requestId: command.requestId })
+    }
+
+    if (payload.status === TaskStatus.COMPLETED) {
+      const schedule = await this.scheduler.completeTask(command.sessionId, payload.taskId)
+      return { success: true, data: { ...payload, started: schedule.started.map(p => p.processId) } }
+    }
+
+    const session = await this.sessionStore.updateSession(command.sessionId, latest => {
+      const task = latest.tasks.find(t => t.id === payload.taskId)
+      if (!task) {
+        throw new SessionError(`Task ${payload.taskId} not found in session ${command.sessionId}`, { ...payload })
+      }
+      task.status = payload.status
+    })
+    await this.trackerSync.recordTaskStatus(session, session.tasks.find(t => t.id === payload.taskId)!)
+    return { success: true, data: payload }
+  }
+
+  /**
+   * Make sure a process is running so a terminal can attach to it, resuming its
+   * session when its tmux session is gone. A queued command cannot take over a
+   * terminal itself, so the result carries the command to attach with.
+   */
+  private async attachSession(command: AgentCommand): Promise<CommandResult> {
+    const processId = (command.payload as AttachSessionPayload | undefined)?.processId || command.sessionId
+    if (!processId) {
+      throw new ValidationError('ATTACH_SESSION needs a sessionId or payload.processId', { requestId: command.requestId })
+    }
+
+    const running = await this.launcher.inspectProcess(processId)
+    const resumed = running ? undefined : await this.lifecycle.resume(processId)
+    const tmuxSession = getTmuxSessionName(processId)
+    return {
+      success: true,
+      data: { processId, tmuxSession, attachCommand: `tmux attach -t ${tmuxSession}`, resumed: !!resumed && !resumed.alreadyRunning }
+    }
+  }
+
+  /**
+   * Start an agent (optionally another agent profile) on a session task that
+   * has none running; the scheduler starts it once it is ready and a slot is free
+   */
+  private async spawnAgent(command: AgentCommand): Promise<CommandResult> {
+    const payload = command.payload as SpawnAgentPayload
+    if (!command.sessionId || !payload?.taskId) {
+      throw new ValidationError('SPAWN_AGENT needs a sessionId and payload.taskId', { requestId: command.requestId })
+    }
+
+    await this.sessionStore.updateSession(command.sessionId, latest => {
+      const task = latest.tasks.find(t => t.id === payload.taskId)
+      if (!task) {
+        throw new SessionError(`Task ${payload.taskId} not found in session ${command.sessionId}`, { ...payload })
+      }
+      if (task.status === TaskStatus.COMPLETED || task.status === TaskStatus.IN_PROGRESS) {
+        throw new SessionError(`Task ${payload.taskId} is ${task.status} and cannot get another agent`, { ...payload })
+      }
+      task.status = TaskStatus.TODO
+      task.assignedAgent = undefined
+      if (payload.agent) {
+        task.agent = payload.agent
+      }
+    })
+
+    const schedule = await this.scheduler.schedule(command.sessionId)
+    const failure = schedule.failed.find(f => f.task.id === payload.taskId)
+    return {
+      success: !failure,
+      data: {
+        ...payload,
+        started: schedule.started.map(p => p.processId),
+        waiting: schedule.waiting.some(task => task.id === payload.taskId)
+      },
+      error: failure?.error.message
+    }
+  }
+
+  /**
+   * Analyze the session's worktree (the project without a session) and save
+   * the analysis to its .tazz/analysis.json
+   */
+  private async analyzeCode(command: AgentCommand): Promise<CommandResult> {
+    const session = command.sessionId ? await this.sessionStore.getSession(command.sessionId) : null
+    if (command.sessionId && !session) {
+      throw new SessionError(`Session ${command.sessionId} not found`, { sessionId: command.sessionId })
+    }
+
+    const path = session?.worktreePath || this.projectPath
+    const analyzer = new CodebaseAnalyzer(new MCPIntegrationService(this.logger, path), this.logger, path)
+    const analysis = await analyzer.analyzeProject()
+    return {
+      success: true,
+      data: {
+        path,
+        projectType: analysis.structure.type,
+        language: analysis.technologies.language,
+        framework: analysis.technologies.framework,
+        hasTests: analysis.testingStrategy.hasTests
+      }
+    }
+  }
+
+  /**
+   * Run as a RUN_TASK: an agent task in the session that writes the tests
+   */
+  private async generateTests(command: AgentCommand): Promise<CommandResult> {
+    const payload = (command.payload || {}) as GenerateTestsPayload
+    if (!command.sessionId) {
+      throw new ValidationError('GENERATE_TESTS needs a sessionId', { requestId: command.requestId })
+    }
+
+    const target = payload.target || 'the changes on this branch'
+    const task: RunTaskPayload = {
+      title: `Write tests for ${target}`,
+      description: payload.description ||
+        `Add tests for ${target} in the style and location of the existing tests, then run the test suite.`,
+      agent: payload.agent
+    }
+    return this.runner.runTask({ ...command, type: AgentCommandType.RUN_TASK, payload: task })
+  }
+}
@@ -0,0 +1,129 @@
+import { createConnection, Socket } from 'net'
+import { pathExists } from 'fs-extra'
+import { getDaemonSocketPath } from '../../utils/paths'
+import { JsonRpcResponse, encodeMessage, isResponse, readMessages, reviveDates } from '../../utils/jsonrpc'
+import { TazzError, SessionError, GitError, AgentError, MCPError, ValidationError } from '../types'
+
+const ERROR_CLASSES: Record<string, new (message: string, context?: Record<string, any>) => TazzError> = {
+  SessionError,
+  GitError,
+  AgentError,
+  MCPError,
+  ValidationError
+}
+
+const CONNECT_TIMEOUT = 1000
+
+/**
+ * Connection to the project's `tazz daemon`. Commands call `tryCall` and fall
+ * back to doing the work themselves when no daemon is running.
+ */
+export class DaemonClient {
+  private socket: Socket
+  private nextId = 1
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (error: Error) => void }>()
+
+  private constructor(socket: Socket) {
+    this.socket = socket
+    readMessages(socket, message => {
+      if (!isResponse(message) || typeof message.id !== 'number') {
+        return
+      }
+      const waiting = this.pending.get(message.id)
+      this.pending.delete(message.id)
+      if (message.error) {
+        waiting?.reject(toError(message))
+      } else {
+        waiting?.resolve(message.result)
+      }
+    }, undefined, reviveDates)
+
+    socket.on('close', () => {
+      this.pending.forEach(({ reject }) => reject(new SessionError('Connection to the tazz daemon was closed')))
+      this.pending.clear()
+    })
+    socket.on('error', () => undefined)
+  }
+
+  /**
+   * Connect to the daemon of `projectPath`; undefined when none is running
+   * (or TAZZ_NO_DAEMON is set)
+   */
+  static async connect(projectPath: string = process.cwd()): Promise<DaemonClient | undefined> {
+    const socketPath = getDaemonSocketPath(projectPath)
+    if (process.env.TAZZ_NO_DAEMON || !(await pathExists(socketPath))) {
+      return undefined
+    }
+
+    return new Promise(resolve => {
+      const socket = createConnection(socketPath)
+      const timer = setTimeout(() => {
+        socket.destroy()
+        resolve(undefined)
+      }, CONNECT_TIMEOUT)
+
+      socket.once('connect', () => {
+        clearTimeout(timer)
+        resolve(new DaemonClient(socket))
+      })
+      socket.once('error', () => {
+        clearTimeout(timer)
+        resolve(undefined)
+      })
+    })
+  }
+
+  /**
+   * Call `method` on the daemon if one is running; undefined otherwise
+   */
+  static async tryCall<T>(method: string, params?: Record<string, unknown>, timeout?: number): Promise<T | undefined> {
+    const client = await DaemonClient.connect()
+    if (!client) {
+      return undefined
+    }
+    try {
+      return await client.call<T>(method, params, timeout)
+    } finally {
+      client.close()
+    }
+  }
+
+  /**
+   * @param timeout Milliseconds to wait for the answer; 0 waits indefinitely
+   */
+  call<T>(method: string, params: Record<string, unknown> = {}, timeout = 60000): Promise<T> {
+    const id = this.nextId++
+    return new Promise<T>((resolve, reject) => {
+      const timer = timeout > 0 ? setTimeout(() => {
+        this.pending.delete(id)
+        reject(new SessionError(`The tazz daemon did not answer ${method} within ${timeout}ms`, { method }))
+      }, timeout) : undefined
+
+      this.pending.set(id, {
+        resolve: value => {
+          clearTimeout(timer)
+          resolve(value)
+        },
+        reject: error => {
+          clearTimeout(timer)
+          reject(error)
+        }
+      })
+      this.socket.write(encodeMessage({ jsonrpc: '2.0', id, method, params }))
+    })
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+}
+
+/**
+ * Rebuild the error the daemon raised, keeping its class where it is a TazzError
+ */
+function toError(response: JsonRpcResponse): Error {
+  const { message, data } = response.error!
+  const { name, context } = (data || {}) as { name?: string; context?: Record<string, any> }
+  const ErrorClass = (name && ERROR_CLASSES[name]) || SessionError
+  return new ErrorClass(message, { ...context, daemon: true })
+}
@@ -0,0 +1,358 @@
+import { createServer, createConnection, Server, Socket } from 'net'
+import { chmod, ensureDir, pathExists, unlink } from 'fs-extra'
+import { dirname } from 'path'
+import { Logger } from '../../utils/logger'
+import { getDaemonSocketPath } from '../../utils/paths'
+import {
+  JsonRpcMessage,
+  JsonRpcResponse,
+  isRequest,
+  encodeMessage,
+  readMessages,
+  reviveDates,
+  JSONRPC_PARSE_ERROR,
+  JSONRPC_INVALID_REQUEST,
+  JSONRPC_METHOD_NOT_FOUND,
+  JSONRPC_INTERNAL_ERROR
+} from '../../utils/jsonrpc'
+import { SessionReconciler, ReconcileResult } from './SessionReconciler'
+import { AgentMonitor } from './AgentMonitor'
+import { CommandDispatcher } from './CommandDispatcher'
+import { TaskScheduler, ScheduleResult } from './TaskScheduler'
+import { TrackerSyncService } from './TrackerSyncService'
+import { SessionLifecycleService } from './SessionLifecycleService'
+import { SessionTeardownService, TeardownPlan } from './SessionTeardownService'
+import { AgentCommand, SessionError, TazzError } from '../types'
+
+export interface DaemonInfo {
+  pid: number
+  startedAt: Date
+  projectPath: string
+  socketPath: string
+  /** Milliseconds between monitor and queue passes */
+  interval: number
+}
+
+export interface DaemonOptions {
+  /** Milliseconds between monitor and queue passes (default 10s) */
+  interval?: number
+}
+
+type RpcHandler = (params: Record<string, any>) => Promise<unknown>
+
+/** JSON-RPC error code for failures raised by tazz itself */
+export const DAEMON_APP_ERROR = -32000
+
+/** Reconcile snapshots younger than this are served from memory */
+const SNAPSHOT_MAX_AGE = 2000
+/** Minimum milliseconds between tracker outbox flushes */
+const TRACKER_SYNC_INTERVAL = 60000
+
+/**
+ * Long-running per-project process that owns the session store, agent
+ * monitor and command queue, and answers JSON-RPC requests on a Unix socket
+ */
+export class DaemonServer {
+  private logger: Logger
+  private projectPath: string
+  private socketPath: string
+  private interval: number
+  private server?: Server
+  private timer?: NodeJS.Timeout
+  private startedAt = new Date()
+  private ticking = false
+  /**
+   * Monitor passes, queue work and session changes run one at a time, so a drain
+   * never claims commands a client waits on and the monitor never restarts an
+   * agent that is being stopped
+   */
+  private queueWork: Promise<unknown> = Promise.resolve()
+  private snapshot?: { at: number; result: ReconcileResult }
+  private stopped?: Promise<void>
+  private resolveStopped?: () => void
+  private reconciler: SessionReconciler
+  private monitor: AgentMonitor
+  private dispatcher: CommandDispatcher
+  private scheduler: TaskScheduler
+  private trackerSync: TrackerSyncService
+  private lifecycle: SessionLifecycleService
+  private teardown: SessionTeardownService
+  private lastTrackerSync = 0
+  private handlers: Record<string, RpcHandler>
+
+  constructor(logger: Logger, projectPath: string = process.cwd(), options: DaemonOptions = {}) {
+    this.logger = logger
+    this.projectPath = projectPath
+    this.socketPath = getDaemonSocketPath(projectPath)
+    this.interval = options.interval ?? 10000
+    this.reconciler = new SessionReconciler(logger, projectPath)
+    this.monitor = new AgentMonitor(logger, projectPath)
+    this.dispatcher = new CommandDispatcher(logger, projectPath)
+    this.scheduler = new TaskScheduler(logger, projectPath)
+    this.trackerSync = new TrackerSyncService(logger, projectPath)
+    this.lifecycle = new SessionLifecycleService(logger, projectPath)
+    this.teardown = new SessionTeardownService(logger, projectPath)
+
+    this.handlers = {
+      'daemon.ping': async () => this.getInfo(),
+      'daemon.stop': async () => {
+        setImmediate(() => this.stop())
+        return { stopping: true }
+      },
+      'sessions.reconcile': async params => this.reconcile(params.maxAge ?? SNAPSHOT_MAX_AGE),
+      'sessions.findProcess': async params => {
+        this.snapshot = undefined
+        return this.reconciler.findProcess(requireString(params, 'processId'))
+      },
+      'monitor.check': async () => this.exclusiveSessionChange(() => this.monitor.check()),
+      'queue.list': async () => this.dispatcher.getQueue().getAll(),
+      'queue.find': async params => this.dispatcher.getQueue().find(requireString(params, 'requestId')),
+      'queue.enqueue': async params => {
+        const queued = await this.dispatcher.enqueue(params.command as AgentCommand)
+        this.exclusive(() => this.dispatcher.drain()).catch(error => {
+          this.logger.error('Daemon queue drain failed', error as Error)
+        })
+        return queued
+      },
+      'queue.submit': async params => this.exclusive(async () => {
+        const commands = params.commands as AgentCommand[]
+        for (const command of commands) {
+          await this.dispatcher.enqueue(command)
+        }
+        return this.dispatcher.drain(commands.map(c => c.requestId))
+      }),
+      'queue.drain': async params => this.exclusive(() => this.dispatcher.drain(params.requestIds)),
+      'queue.retry': async params => this.dispatcher.retry(requireString(params, 'requestId')),
+      'queue.cancel': async params => this.dispatcher.cancel(requireString(params, 'requestId')),
+      'task.done': async params => this.exclusiveSessionChange(async () => {
+        const done = await this.scheduler.completeProcess(requireString(params, 'processId'), {
+          keepProcess: params.keepProcess,
+          gracePeriod: params.gracePeriod
+        })
+        return { ...done, result: serializeSchedule(done.result) }
+      }),
+      'task.schedule': async params => this.exclusiveSessionChange(async () =>
+        serializeSchedule(await this.scheduler.schedule(requireString(params, 'sessionId')))
+      ),
+      'session.stop': async params => this.exclusiveSessionChange(() => this.lifecycle.stop({
+        sessionId: params.sessionId,
+        instance: params.instance,
+        all: params.all,
+        gracePeriod: params.gracePeriod
+      })),
+      'session.resume': async params => this.exclusiveSessionChange(() =>
+        this.lifecycle.resume(requireString(params, 'sessionId'))
+      ),
+      'session.teardown': async params => this.exclusiveSessionChange(() =>
+        this.teardown.execute(params.plan as TeardownPlan, params.options ?? {})
+      )
+    }
+  }
+
+  getSocketPath(): string {
+    return this.socketPath
+  }
+
+  /**
+   * Listen on the project's socket, replacing a stale one left by a crashed daemon
+   */
+  async start(): Promise<void> {
+    await ensureDir(dirname(this.socketPath), 0o700)
+    if (await pathExists(this.socketPath)) {
+      if (await isSocketAlive(this.socketPath)) {
+        throw new SessionError(`A tazz daemon is already running for ${this.projectPath}`, { socketPath: this.socketPath })
+      }
+      await unlink(this.socketPath)
+    }
+
+    this.server = createServer(socket => this.handleConnection(socket))
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject)
+      this.server!.listen(this.socketPath, () => resolve())
+    })
+    await chmod(this.socketPath, 0o600)
+
+    this.stopped = new Promise(resolve => { this.resolveStopped = resolve })
+    this.timer = setInterval(() => this.tick(), this.interval)
+    this.logger.info('Daemon started', { ...this.getInfo() })
+    setImmediate(() => this.tick())
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return
+    }
+
+    clearInterval(this.timer)
+    const server = this.server
+    this.server = undefined
+    await new Promise<void>(resolve => server.close(() => resolve()))
+    await unlink(this.socketPath).catch(() => undefined)
+    // Let a running monitor pass or session change finish writing
+    await this.queueWork
+
+    this.logger.info('Daemon stopped', { socketPath: this.socketPath })
+    this.resolveStopped?.()
+  }
+
+  /**
+   * Resolves once the daemon has been stopped (by `stop` or a daemon.stop request)
+   */
+  waitUntilStopped(): Promise<void> {
+    return this.stopped ?? Promise.resolve()
+  }
+
+  private getInfo(): DaemonInfo {
+    return {
+      pid: process.pid,
+      startedAt: this.startedAt,
+      projectPath: this.projectPath,
+      socketPath: this.socketPath,
+      interval: this.interval
+    }
+  }
+
+  /**
+   * Periodic pass: check agents, run whatever the queue holds, then deliver
+   * queued tracker updates
+   */
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return
+    }
+    this.ticking = true
+    try {
+      await this.exclusive(async () => {
+        await this.monitor.check()
+        this.snapshot = undefined
+        await this.dispatcher.drain()
+      })
+      await this.syncTrackers()
+    } catch (error) {
+      this.logger.error('Daemon tick failed', error as Error)
+    } finally {
+      this.ticking = false
+    }
+  }
+
+  /**
+   * Flush the tracker outbox, at most every TRACKER_SYNC_INTERVAL so an
+   * offline tracker is not reconnected on every tick
+   */
+  private async syncTrackers(): Promise<void> {
+    if (Date.now() - this.lastTrackerSync < TRACKER_SYNC_INTERVAL) {
+      return
+    }
+    this.lastTrackerSync = Date.now()
+    if ((await this.trackerSync.getPending()).length > 0) {
+      await this.trackerSync.flush()
+    }
+  }
+
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queueWork.then(work, work)
+    this.queueWork = run.catch(() => undefined)
+    return run
+  }
+
+  private exclusiveSessionChange<T>(work: () => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      try {
+        return await work()
+      } finally {
+        this.snapshot = undefined
+      }
+    })
+  }
+
+  private async reconcile(maxAge: number): Promise<ReconcileResult> {
+    if (!this.snapshot || Date.now() - this.snapshot.at > maxAge) {
+      this.snapshot = { at: Date.now(), result: await this.reconciler.reconcile() }
+    }
+    return this.snapshot.result
+  }
+
+  private handleConnection(socket: Socket): void {
+    const reply = (response: JsonRpcResponse) => {
+      if (!socket.destroyed) {
+        socket.write(encodeMessage(response))
+      }
+    }
+
+    readMessages(
+      socket,
+      message => this.handleMessage(message).then(response => response && reply(response)),
+      line => reply({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSONRPC_PARSE_ERROR, message: `Invalid JSON: ${line.substring(0, 100)}` }
+      }),
+      reviveDates
+    )
+    socket.on('error', error => this.logger.debug('Daemon client socket error', { error: error.message }))
+  }
+
+  private async handleMessage(message: JsonRpcMessage): Promise<JsonRpcResponse | undefined> {
+    if (!isRequest(message)) {
+      // Notifications need no answer, and the daemon sends no requests of its own
+      return 'method' in message ? undefined : {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSONRPC_INVALID_REQUEST, message: 'Expected a JSON-RPC request' }
+      }
+    }
+
+    const handler = this.handlers[message.method]
+    if (!handler) {
+      return {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: JSONRPC_METHOD_NOT_FOUND, message: `Unknown method ${message.method}` }
+      }
+    }
+
+    try {
+      const params = (message.params ?? {}) as Record<string, any>
+      return { jsonrpc: '2.0', id: message.id, result: (await handler(params)) ?? null }
+    } catch (error) {
+      const err = error as Error
+      return {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: err instanceof TazzError ? DAEMON_APP_ERROR : JSONRPC_INTERNAL_ERROR,
+          message: err.message,
+          data: { name: err.name, context: err instanceof TazzError ? err.context : undefined }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Errors do not survive JSON.stringify, so keep their messages explicitly
+ */
+function serializeSchedule(result: ScheduleResult): unknown {
+  return {
+    ...result,
+    failed: result.failed.map(({ task, error }) => ({ task, error: { name: error.name, message: error.message } }))
+  }
+}
+
+function requireString(params: Record<string, any>, name: string): string {
+  if (typeof params[name] !== 'string' || params[name] === '') {
+    throw new SessionError(`Missing parameter ${name}`, { params })
+  }
+  return params[name]
+}
+
+async function isSocketAlive(socketPath: string): Promise<boolean> {
+  return new Promise(resolve => {
+    const socket = createConnection(socketPath)
+    socket.once('connect', () => {
+      socket.destroy()
+      resolve(true)
+    })
+    socket.once('error', () => resolve(false))
+  })
+}
@@ -0,0 +1,306 @@
+import { readFile, pathExists } from 'fs-extra'
+import { Logger } from '../../utils/logger'
+import { withFileLock, writeFileAtomic } from '../../utils/lock'
+import { MCPIntegrationService } from './MCPIntegrationService'
+import { getInstanceTaskFilePath } from '../storage/TaskFileParser'
+import { JiraIssueReference, SessionMetadata } from '../types'
+
+export interface JiraSubtask extends JiraIssueReference {
+  description: string
+}
+
+/**
+ * An issue as read through the Atlassian MCP, with its sub-tasks and linked issues
+ */
+export interface JiraTicket {
+  key: string
+  summary: string
+  description: string
+  priority: string
+  status: string
+  type: string
+  assignee?: string
+  storyPoints?: number
+  url?: string
+  acceptanceCriteria: string[]
+  subtasks: JiraSubtask[]
+  links: JiraIssueReference[]
+}
+
+const ATLASSIAN_SERVER = 'atlassian'
+const GET_ISSUE_TOOL = 'jira_get_issue'
+/** Project keys are upper case, so `api-2` is not mistaken for a ticket */
+const TICKET_KEY_PATTERN = /^([A-Z][A-Z0-9]+-\d+)(?:[-_].*)?$/
+/** Sub-tasks and linked issues fetched per ticket; the rest keep the summary embedded in the issue */
+const MAX_RELATED_ISSUES = 20
+const DONE_STATUSES = ['done', 'closed', 'resolved']
+
+/**
+ * Reads Jira tickets through the Atlassian MCP server and turns them into
+ * session metadata and task file sections
+ */
+export class JiraTicketService {
+  private mcpService: MCPIntegrationService
+  private logger: Logger
+
+  constructor(mcpService: MCPIntegrationService, logger: Logger) {
+    this.mcpService = mcpService
+    this.logger = logger
+  }
+
+  /**
+   * The ticket key an instance is named after, e.g. `PROJ-12` for `PROJ-12` or `PROJ-12-login`
+   */
+  static parseTicketKey(instanceName: string): string | undefined {
+    return instanceName.match(TICKET_KEY_PATTERN)?.[1]
+  }
+
+  isAvailable(): boolean {
+    return this.mcpService.isAvailable(ATLASSIAN_SERVER, GET_ISSUE_TOOL)
+  }
+
+  /**
+   * Fetch an issue, then its sub-tasks and linked issues in parallel. A related
+   * issue that cannot be fetched keeps the summary embedded in the parent.
+   */
+  async fetchTicket(key: string): Promise<JiraTicket> {
+    const issue = await this.getIssue(key)
+    const fields = issue.fields ?? issue
+
+    const description = toText(fields.description)
+    const subtasks = (fields.subtasks || []).map((subtask: any) => toReference(subtask))
+    const links = (fields.issuelinks || [])
+      .map((link: any) => link.outwardIssue
+        ? toReference(link.outwardIssue, link.type?.outward)
+        : link.inwardIssue ? toReference(link.inwardIssue, link.type?.inward) : undefined)
+      .filter((link: JiraIssueReference | undefined): link is JiraIssueReference => link !== undefined)
+
+    const [fullSubtasks, fullLinks] = await Promise.all([
+      Promise.all(subtasks.map(async (subtask: JiraIssueReference, i: number) => {
+        const related = i < MAX_RELATED_ISSUES ? await this.getRelatedIssue(subtask.key) : undefined
+        const relatedFields = related?.fields ?? related
+        return {
+          ...subtask,
+          ...(related ? toReference(related) : {}),
+          description: toText(relatedFields?.description)
+        }
+      })),
+      Promise.all(links.map(async (link: JiraIssueReference, i: number) => {
+        const related = i < MAX_RELATED_ISSUES ? await this.getRelatedIssue(link.key) : undefined
+        return related ? { ...toReference(related), relation: link.relation } : link
+      }))
+    ])
+
+    const criteriaField = Object.entries(fields).find(([name, value]) =>
+      /acceptance.?criteria/i.test(name) && value)?.[1]
+
+    return {
+      key: issue.key || key,
+      summary: fields.summary || key,
+      description,
+      priority: fields.priority?.name || 'None',
+      status: fields.status?.name || 'Unknown',
+      type: fields.issuetype?.name || fields.issue_type?.name || 'Task',
+      assignee: fields.assignee?.displayName || fields.assignee?.display_name,
+      storyPoints: fields.storyPoints ?? fields.customfield_10016 ?? undefined,
+      url: issue.self ? `${new URL(issue.self).origin}/browse/${issue.key || key}` : issue.url,
+      acceptanceCriteria: criteriaField
+        ? parseListItems(toText(criteriaField))
+        : extractAcceptanceCriteria(description),
+      subtasks: fullSubtasks,
+      links: fullLinks
+    }
+  }
+
+  toSessionMetadata(ticket: JiraTicket): NonNullable<SessionMetadata['jira']> {
+    return {
+      key: ticket.key,
+      title: ticket.summary,
+      description: ticket.description,
+      priority: ticket.priority,
+      assignee: ticket.assignee,
+      status: ticket.status,
+      type: ticket.type,
+      storyPoints: ticket.storyPoints,
+      url: ticket.url,
+      acceptanceCriteria: ticket.acceptanceCriteria,
+      subtasks: ticket.subtasks.map(({ description: _description, ...subtask }) => subtask),
+      links: ticket.links
+    }
+  }
+
+  /**
+   * Append the ticket's sections to the instance's own task file
+   * (`.tazz/tasks/<instance>.md`), so they are neither run by other instances
+   * nor mixed with the project-wide tasks. A ticket that is already in the file
+   * is left alone so checked items survive a re-run.
+   *
+   * @returns whether the file was changed
+   */
+  async addToTaskFile(ticket: JiraTicket, instanceName: string, projectPath: string = process.cwd()): Promise<boolean> {
+    const path = getInstanceTaskFilePath(instanceName, projectPath)
+
+    return withFileLock(path, async () => {
+      const content = await pathExists(path) ? await readFile(path, 'utf-8') : ''
+      if (content.includes(startMarker(ticket.key))) {
+        this.logger.debug('Ticket already in task file', { key: ticket.key, path })
+        return false
+      }
+
+      const separator = content === '' || content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n'
+      await writeFileAtomic(path, content + separator + renderTaskSections(ticket))
+      this.logger.info('Added Jira ticket to task file', { key: ticket.key, path, subtasks: ticket.subtasks.length })
+      return true
+    })
+  }
+
+  private async getIssue(key: string): Promise<any> {
+    return this.mcpService.callTool<any>(ATLASSIAN_SERVER, GET_ISSUE_TOOL, { issue_key: key })
+  }
+
+  private async getRelatedIssue(key: string): Promise<any | undefined> {
+    try {
+      return await this.getIssue(key)
+    } catch (error) {
+      this.logger.warn('Failed to fetch related Jira issue', { key, error: (error as Error).message })
+      return undefined
+    }
+  }
+}
+
+/**
+ * Task file sections for a ticket: sub-tasks (or the ticket itself) as tasks,
+ * acceptance criteria as a checklist and linked issues for reference. The
+ * description is quoted so lists in it are not read as tasks.
+ */
+export function renderTaskSections(ticket: JiraTicket): string {
+  const lines = [startMarker(ticket.key), `# ${ticket.key}: ${ticket.summary}`, '']
+
+  const facts = [ticket.type, `Priority: ${ticket.priority}`, `Status: ${ticket.status}`]
+  if (ticket.assignee) {
+    facts.push(`Assignee: ${ticket.assignee}`)
+  }
+  lines.push(facts.join(' · '))
+  if (ticket.url) {
+    lines.push('', ticket.url)
+  }
+  if (ticket.description) {
+    lines.push('', ...ticket.description.split('\n').map(line => `> ${line}`.trimEnd()))
+  }
+
+  lines.push('', '## Tasks')
+  const tasks: JiraSubtask[] = ticket.subtasks.length > 0
+    ? ticket.subtasks
+    : [{ key: ticket.key, title: ticket.summary, status: ticket.status, description: ticket.description }]
+  tasks.forEach(task => {
+    const done = DONE_STATUSES.includes(task.status.toLowerCase())
+    lines.push(`- [${done ? 'x' : ' '}] ${oneLine(task.title)}`, `      Session name: ${task.key}`)
+    const description = oneLine(task.description)
+    if (description) {
+      lines.push(`      Description: ${description.length > 300 ? `${description.substring(0, 297)}...` : description}`)
+    }
+    lines.push('')
+  })
+
+  if (ticket.acceptanceCriteria.length > 0) {
+    lines.push('## Acceptance Criteria')
+    ticket.acceptanceCriteria.forEach(criterion => lines.push(`- [ ] ${oneLine(criterion)}`))
+    lines.push('')
+  }
+
+  if (ticket.links.length > 0) {
+    lines.push('## Linked Issues')
+    ticket.links.forEach(link => {
+      lines.push(`- ${link.relation ? `${link.relation} ` : ''}${link.key}: ${oneLine(link.title)} (${link.status})`)
+    })
+    lines.push('')
+  }
+
+  lines.push(endMarker(ticket.key), '')
+  return lines.join('\n')
+}
+
+function startMarker(key: string): string {
+  return `<!-- tazz:jira ${key} -->`
+}
+
+function endMarker(key: string): string {
+  return `<!-- /tazz:jira ${key} -->`
+}
+
+function toReference(issue: any, relation?: string): JiraIssueReference {
+  const fields = issue.fields ?? issue
+  return {
+    key: issue.key,
+    title: fields.summary || issue.key,
+    status: fields.status?.name || 'Unknown',
+    ...(relation ? { relation } : {})
+  }
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Plain text of a description: wiki markup and markdown pass through, Atlassian
+ * Document Format (REST API v3) is flattened with `#` headings and `-` list items
+ */
+function toText(value: unknown): string {
+  if (!value) {
+    return ''
+  }
+  if (typeof value === 'string') {
+    return value.replace(/\r\n/g, '\n').trim()
+  }
+  return adfToLines(value).join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+function adfToLines(node: any, depth = 0): string[] {
+  const inline = (n: any): string => n.type === 'text' ? n.text || '' : (n.content || []).map(inline).join('')
+
+  switch (node?.type) {
+    case 'heading':
+      return ['', `${'#'.repeat(node.attrs?.level || 2)} ${inline(node)}`]
+    case 'paragraph':
+      return [inline(node), '']
+    case 'bulletList':
+    case 'orderedList':
+      return (node.content || []).flatMap((item: any) => {
+        const [first, ...rest] = (item.content || []).flatMap((child: any) =>
+          child.type === 'paragraph' ? [inline(child)] : adfToLines(child, depth + 1))
+        return [`${'  '.repeat(depth)}- ${first || ''}`, ...rest]
+      })
+    default:
+      return (node?.content || []).flatMap((child: any) => adfToLines(child, depth))
+  }
+}
+
+/**
+ * List items under an "Acceptance Criteria" heading, in wiki markup (`h3.`,
+ * `*`, `#`) or markdown (`###`, `-`, `1.`), up to the next heading
+ */
+function extractAcceptanceCriteria(description: string): string[] {
+  const lines = description.split('\n')
+  const start = lines.findIndex(line =>
+    /^\s*(?:h[1-6]\.\s*|#{1,6}\s*)?[*_]*acceptance criteria[*_]*\s*:?[*_]*\s*$/i.test(line))
+  if (start < 0) {
+    return []
+  }
+
+  // In wiki markup `#` is a numbered list item, not a heading
+  const heading = /^\s*#/.test(lines[start]) ? /^\s*#{1,6}\s/ : /^\s*h[1-6]\./
+  const end = lines.findIndex((line, i) => i > start && heading.test(line))
+  return parseListItems(lines.slice(start + 1, end < 0 ? undefined : end).join('\n'))
+}
+
+/**
+ * Items of a bulleted or numbered list; without list markers every line is an item
+ */
+function parseListItems(text: string): string[] {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '')
+  const items = lines
+    .map(line => line.match(/^(?:[-*+#]+|\d+[.)])\s+(?:\[[ xX]\]\s*|\([x/]\)\s*)?(.+)$/)?.[1].trim())
+    .filter((item): item is string => !!item)
+  return items.length > 0 ? items : lines
+}
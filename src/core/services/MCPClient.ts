@@ -0,0 +1,382 @@
+import { spawn, ChildProcess } from 'child_process'
+import { Logger } from '../../utils/logger'
+import {
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  isRequest,
+  isNotification,
+  isResponse,
+  encodeMessage,
+  readMessages,
+  JSONRPC_METHOD_NOT_FOUND
+} from '../../utils/jsonrpc'
+import { MCPServer, MCPError } from '../types'
+
+/** Protocol revision requested in `initialize` */
+export const MCP_PROTOCOL_VERSION = '2025-03-26'
+/** Revisions this client can talk, newest first */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05']
+
+const CLIENT_INFO = { name: 'tazz-cli', version: '1.0.0' }
+
+/** How long a server gets to exit after its stdin closes, and again after SIGTERM */
+const SHUTDOWN_GRACE = 2000
+
+export interface MCPInitializeResult {
+  protocolVersion: string
+  capabilities: Record<string, unknown>
+  serverInfo: { name: string; version: string }
+  instructions?: string
+}
+
+export interface MCPTool {
+  name: string
+  title?: string
+  description?: string
+  /** JSON Schema of the tool's `arguments` */
+  inputSchema: Record<string, unknown>
+  outputSchema?: Record<string, unknown>
+  annotations?: Record<string, unknown>
+}
+
+export interface MCPContent {
+  type: string
+  text?: string
+  [key: string]: unknown
+}
+
+export interface MCPToolResult {
+  content: MCPContent[]
+  structuredContent?: unknown
+  isError?: boolean
+}
+
+export interface MCPRequestOptions {
+  /** Milliseconds before the request is cancelled; defaults to the client timeout */
+  timeout?: number
+  signal?: AbortSignal
+}
+
+export type MCPNotificationHandler = (params: unknown, method: string) => void
+
+/**
+ * Moves JSON-RPC messages between the client and one server process or endpoint
+ */
+export interface MCPTransport {
+  start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void>
+  send(message: JsonRpcMessage): Promise<void>
+  close(): Promise<void>
+}
+
+/**
+ * Runs the server as a child process speaking newline-delimited JSON-RPC on stdin/stdout
+ */
+export class StdioTransport implements MCPTransport {
+  private child?: ChildProcess
+  private killOnExit = () => this.child?.kill('SIGKILL')
+
+  constructor(private name: string, private server: MCPServer, private logger: Logger) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void> {
+    const child = spawn(this.server.command, this.server.args, {
+      env: { ...process.env, ...this.server.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    })
+    this.child = child
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve)
+      child.once('error', reject)
+    }).catch(error => {
+      throw new MCPError(`Failed to start MCP server ${this.name}: ${error.message}`, { server: this.name, command: this.server.command }, error)
+    })
+    process.once('exit', this.killOnExit)
+
+    readMessages(child.stdout!, onMessage, line => {
+      this.logger.debug('Ignoring non JSON-RPC output from MCP server', { server: this.name, line: line.substring(0, 200) })
+    })
+    child.stderr!.setEncoding('utf-8')
+    child.stderr!.on('data', (chunk: string) => {
+      this.logger.debug('MCP server stderr', { server: this.name, output: chunk.trim().substring(0, 500) })
+    })
+    child.stdin!.on('error', () => undefined)
+    child.on('error', error => this.logger.warn('MCP server process error', { server: this.name, error: error.message }))
+
+    child.once('exit', (code, signal) => {
+      process.removeListener('exit', this.killOnExit)
+      this.child = undefined
+      onClose(code === 0 ? undefined : new MCPError(`MCP server ${this.name} exited`, { server: this.name, code, signal }))
+    })
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    const stdin = this.child?.stdin
+    if (!stdin || stdin.destroyed) {
+      throw new MCPError(`MCP server ${this.name} is not running`, { server: this.name })
+    }
+    if (!stdin.write(encodeMessage(message))) {
+      await new Promise(resolve => stdin.once('drain', resolve))
+    }
+  }
+
+  /**
+   * Close stdin and wait for the server to exit, escalating to SIGTERM and SIGKILL
+   */
+  async close(): Promise<void> {
+    const child = this.child
+    if (!child) {
+      return
+    }
+
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()))
+    const waitForExit = (ms: number) => Promise.race([
+      exited.then(() => true),
+      new Promise<boolean>(resolve => setTimeout(() => resolve(false), ms).unref())
+    ])
+
+    child.stdin!.end()
+    if (await waitForExit(SHUTDOWN_GRACE)) {
+      return
+    }
+    child.kill('SIGTERM')
+    if (await waitForExit(SHUTDOWN_GRACE)) {
+      return
+    }
+    child.kill('SIGKILL')
+    await exited
+  }
+}
+
+/**
+ * Long-lived connection to one MCP server: performs the initialize handshake,
+ * correlates responses to requests by id and dispatches server notifications
+ */
+export class MCPClient {
+  private nextId = 1
+  private pending = new Map<JsonRpcId, {
+    method: string
+    resolve: (result: any) => void
+    reject: (error: Error) => void
+  }>()
+  private handlers = new Map<string, Set<MCPNotificationHandler>>()
+  private initializeResult?: MCPInitializeResult
+  private connected = false
+
+  constructor(
+    private name: string,
+    private transport: MCPTransport,
+    private logger: Logger,
+    private timeout = 60000
+  ) {}
+
+  /**
+   * Start the transport and run initialize / notifications/initialized
+   */
+  async connect(): Promise<MCPInitializeResult> {
+    await this.transport.start(
+      message => this.handleMessage(message),
+      error => this.handleClose(error)
+    )
+    this.connected = true
+
+    try {
+      const result = await this.request<MCPInitializeResult>('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: CLIENT_INFO
+      })
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        throw new MCPError(`MCP server ${this.name} speaks unsupported protocol version ${result.protocolVersion}`, {
+          server: this.name,
+          supported: SUPPORTED_PROTOCOL_VERSIONS
+        })
+      }
+
+      await this.notify('notifications/initialized')
+      this.initializeResult = result
+      this.logger.debug('MCP server initialized', {
+        server: this.name,
+        protocolVersion: result.protocolVersion,
+        serverInfo: result.serverInfo
+      })
+      return result
+    } catch (error) {
+      await this.close()
+      throw error
+    }
+  }
+
+  /**
+   * Send a request and wait for its response. On timeout or abort the server
+   * is sent notifications/cancelled for it.
+   */
+  async request<T = any>(method: string, params?: unknown, options: MCPRequestOptions = {}): Promise<T> {
+    if (!this.connected) {
+      throw new MCPError(`MCP server ${this.name} is not connected`, { server: this.name, method })
+    }
+
+    const id = this.nextId++
+    const timeout = options.timeout ?? this.timeout
+    const { signal } = options
+    if (signal?.aborted) {
+      throw new MCPError(`MCP request ${method} was cancelled`, { server: this.name, method })
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const cancel = (reason: string) => {
+        if (!this.pending.delete(id)) {
+          return
+        }
+        cleanup()
+        // initialize itself must not be cancelled; the connection is closed instead
+        if (method !== 'initialize') {
+          this.notify('notifications/cancelled', { requestId: id, reason }).catch(() => undefined)
+        }
+        reject(new MCPError(`MCP request ${method} to ${this.name} ${reason}`, { server: this.name, method }))
+      }
+      const timer = setTimeout(() => cancel(`timed out after ${timeout}ms`), timeout)
+      const onAbort = () => cancel('was cancelled')
+      const cleanup = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.pending.set(id, {
+        method,
+        resolve: result => {
+          cleanup()
+          resolve(result)
+        },
+        reject: error => {
+          cleanup()
+          reject(error)
+        }
+      })
+
+      this.transport.send({ jsonrpc: '2.0', id, method, params } as JsonRpcRequest).catch(error => {
+        this.pending.get(id)?.reject(error)
+        this.pending.delete(id)
+      })
+    })
+  }
+
+  async notify(method: string, params?: unknown): Promise<void> {
+    const message: JsonRpcNotification = { jsonrpc: '2.0', method }
+    if (params !== undefined) {
+      message.params = params
+    }
+    await this.transport.send(message)
+  }
+
+  /**
+   * Subscribe to a server notification (`*` for all); returns the unsubscribe function
+   */
+  onNotification(method: string, handler: MCPNotificationHandler): () => void {
+    if (!this.handlers.has(method)) {
+      this.handlers.set(method, new Set())
+    }
+    this.handlers.get(method)!.add(handler)
+    return () => this.handlers.get(method)?.delete(handler)
+  }
+
+  /**
+   * Every tool the server offers, following tools/list pagination
+   */
+  async listTools(options: MCPRequestOptions = {}): Promise<MCPTool[]> {
+    const tools: MCPTool[] = []
+    let cursor: string | undefined
+    do {
+      const page = await this.request<{ tools?: MCPTool[]; nextCursor?: string }>(
+        'tools/list',
+        cursor ? { cursor } : {},
+        options
+      )
+      tools.push(...(page.tools || []))
+      cursor = page.nextCursor
+    } while (cursor)
+    return tools
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, options: MCPRequestOptions = {}): Promise<MCPToolResult> {
+    return this.request<MCPToolResult>('tools/call', { name, arguments: args }, options)
+  }
+
+  getInitializeResult(): MCPInitializeResult | undefined {
+    return this.initializeResult
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * Fail outstanding requests and shut the server down
+   */
+  async close(): Promise<void> {
+    this.connected = false
+    this.rejectPending(new MCPError(`Connection to MCP server ${this.name} was closed`, { server: this.name }))
+    await this.transport.close()
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isResponse(message)) {
+      const waiting = message.id === null ? undefined : this.pending.get(message.id)
+      if (!waiting) {
+        this.logger.debug('Dropping MCP response for unknown request', { server: this.name, id: message.id })
+        return
+      }
+      this.pending.delete(message.id!)
+      if (message.error) {
+        waiting.reject(new MCPError(`MCP ${waiting.method} failed on ${this.name}: ${message.error.message}`, {
+          server: this.name,
+          method: waiting.method,
+          code: message.error.code,
+          data: message.error.data
+        }))
+      } else {
+        waiting.resolve(message.result)
+      }
+      return
+    }
+
+    if (isRequest(message)) {
+      // Servers may ping; sampling, roots and elicitation are not offered in our capabilities
+      const response = message.method === 'ping'
+        ? { jsonrpc: '2.0' as const, id: message.id, result: {} }
+        : { jsonrpc: '2.0' as const, id: message.id, error: { code: JSONRPC_METHOD_NOT_FOUND, message: `Unsupported method ${message.method}` } }
+      this.transport.send(response).catch(() => undefined)
+      return
+    }
+
+    if (isNotification(message)) {
+      if (message.method === 'notifications/cancelled') {
+        return
+      }
+      const handlers = [...(this.handlers.get(message.method) || []), ...(this.handlers.get('*') || [])]
+      handlers.forEach(handler => {
+        try {
+          handler(message.params, message.method)
+        } catch (error) {
+          this.logger.warn('MCP notification handler failed', { server: this.name, method: message.method, error: (error as Error).message })
+        }
+      })
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    if (this.connected) {
+      this.logger.warn('MCP server disconnected', { server: this.name, error: error?.message })
+    }
+    this.connected = false
+    this.rejectPending(error || new MCPError(`MCP server ${this.name} closed the connection`, { server: this.name }))
+  }
+
+  private rejectPending(error: Error): void {
+    const pending = [...this.pending.values()]
+    this.pending.clear()
+    pending.forEach(({ reject }) => reject(error))
+  }
+}
@@ -0,0 +1,364 @@
+import { Logger } from '../../utils/logger'
+import { JsonRpcMessage } from '../../utils/jsonrpc'
+import { MCPServer, MCPError } from '../types'
+import type { MCPTransport } from './MCPClient'
+
+interface SseEvent {
+  event: string
+  data: string
+  id?: string
+}
+
+/** Reconnect attempts before the server is given up on */
+const MAX_RECONNECT_ATTEMPTS = 5
+const BASE_RECONNECT_DELAY = 500
+const MAX_RECONNECT_DELAY = 30000
+
+/**
+ * Shared plumbing of the HTTP transports: headers, retried POSTs and a
+ * long-lived SSE stream that is reopened with exponential backoff
+ */
+abstract class HttpTransport implements MCPTransport {
+  protected onMessage: (message: JsonRpcMessage) => void = () => undefined
+  protected onClose: (error?: Error) => void = () => undefined
+  protected controller = new AbortController()
+  protected closed = false
+  protected lastEventId?: string
+
+  constructor(protected name: string, protected server: MCPServer, protected logger: Logger) {
+    if (!server.url) {
+      throw new MCPError(`MCP server ${name} has no url`, { server: name, transportType: server.transportType })
+    }
+  }
+
+  abstract start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void>
+  abstract send(message: JsonRpcMessage): Promise<void>
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return
+    }
+    this.closed = true
+    this.controller.abort()
+    this.onClose()
+  }
+
+  protected get url(): string {
+    return this.server.url!
+  }
+
+  protected headers(extra: Record<string, string> = {}): Record<string, string> {
+    return { ...this.server.headers, ...extra }
+  }
+
+  /**
+   * fetch, retrying with backoff while the server cannot be reached at all
+   */
+  protected async fetchWithRetry(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fetch(url, { ...init, signal: this.controller.signal })
+      } catch (error) {
+        if (this.closed || attempt >= MAX_RECONNECT_ATTEMPTS) {
+          throw new MCPError(`Cannot reach MCP server ${this.name} at ${url}`, { server: this.name, url }, error as Error)
+        }
+        this.logger.debug('MCP server unreachable, retrying', { server: this.name, attempt, error: (error as Error).message })
+        await delay(backoff(attempt), this.controller.signal)
+      }
+    }
+  }
+
+  /**
+   * Keep an SSE stream open, reconnecting with backoff whenever it drops.
+   * Resolves when the transport closes, the server refuses the stream
+   * (`onRefused`), or reconnecting fails too often (`fail`).
+   */
+  protected async listen(
+    url: string,
+    onEvent: (event: SseEvent) => void,
+    onDisconnect: () => void = () => undefined,
+    onRefused?: (response: Response) => boolean
+  ): Promise<void> {
+    let attempt = 0
+    while (!this.closed) {
+      try {
+        const headers = this.headers({ Accept: 'text/event-stream' })
+        if (this.lastEventId) {
+          headers['Last-Event-ID'] = this.lastEventId
+        }
+        const response = await fetch(url, { method: 'GET', headers, signal: this.controller.signal })
+        if (onRefused?.(response)) {
+          await response.body?.cancel()
+          return
+        }
+        if (!response.ok || !response.body) {
+          throw new MCPError(`MCP server ${this.name} refused the event stream: HTTP ${response.status}`, {
+            server: this.name,
+            status: response.status
+          })
+        }
+
+        attempt = 0
+        await readSseEvents(response.body, event => {
+          if (event.id) {
+            this.lastEventId = event.id
+          }
+          onEvent(event)
+        })
+      } catch (error) {
+        if (this.closed) {
+          return
+        }
+        attempt++
+        if (attempt > MAX_RECONNECT_ATTEMPTS) {
+          this.fail(new MCPError(`Lost the event stream of MCP server ${this.name}`, { server: this.name, url }, error as Error))
+          return
+        }
+        this.logger.warn('MCP event stream dropped, reconnecting', { server: this.name, attempt, error: (error as Error).message })
+      }
+
+      if (!this.closed) {
+        onDisconnect()
+        await delay(backoff(Math.max(attempt, 1)), this.controller.signal)
+      }
+    }
+  }
+
+  protected fail(error: Error): void {
+    if (this.closed) {
+      return
+    }
+    this.closed = true
+    this.controller.abort()
+    this.onClose(error)
+  }
+
+  protected handleEventData(event: SseEvent): void {
+    try {
+      const parsed = JSON.parse(event.data)
+      ;(Array.isArray(parsed) ? parsed : [parsed]).forEach(message => this.onMessage(message))
+    } catch {
+      this.logger.debug('Ignoring non JSON-RPC event from MCP server', { server: this.name, data: event.data.substring(0, 200) })
+    }
+  }
+}
+
+/**
+ * Streamable HTTP (protocol 2025-03-26): every message is POSTed to the
+ * endpoint, which answers with JSON or an SSE stream; server-initiated
+ * messages arrive on an optional GET stream
+ */
+export class StreamableHttpTransport extends HttpTransport {
+  private sessionId?: string
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void> {
+    this.onMessage = onMessage
+    this.onClose = onClose
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this.closed) {
+      throw new MCPError(`Connection to MCP server ${this.name} is closed`, { server: this.name })
+    }
+
+    const headers = this.headers({ 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' })
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId
+    }
+    const response = await this.fetchWithRetry(this.url, { method: 'POST', headers, body: JSON.stringify(message) })
+
+    const sessionId = response.headers.get('mcp-session-id')
+    if (sessionId) {
+      this.sessionId = sessionId
+    }
+    if (!response.ok) {
+      await response.body?.cancel()
+      const expired = response.status === 404 && this.sessionId !== undefined
+      throw new MCPError(expired
+        ? `MCP session with ${this.name} expired`
+        : `MCP server ${this.name} answered HTTP ${response.status}`, { server: this.name, status: response.status })
+    }
+
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('text/event-stream') && response.body) {
+      // The response to a request may come after other server messages on this stream
+      readSseEvents(response.body, event => this.handleEventData(event)).catch(error => {
+        if (!this.closed) {
+          this.logger.warn('MCP response stream failed', { server: this.name, error: (error as Error).message })
+        }
+      })
+    } else if (contentType.includes('application/json')) {
+      this.handleEventData({ event: 'message', data: await response.text() })
+    } else {
+      await response.body?.cancel()
+    }
+
+    if ('method' in message && message.method === 'notifications/initialized') {
+      // 405 means the server has no stream for server-initiated messages
+      this.listen(this.url, event => this.handleEventData(event), undefined, refused => refused.status === 405)
+        .catch(error => this.fail(error as Error))
+    }
+  }
+
+  async close(): Promise<void> {
+    const sessionId = this.sessionId
+    await super.close()
+    if (sessionId) {
+      await fetch(this.url, {
+        method: 'DELETE',
+        headers: this.headers({ 'Mcp-Session-Id': sessionId }),
+        signal: AbortSignal.timeout(2000)
+      }).catch(() => undefined)
+    }
+  }
+}
+
+/**
+ * HTTP+SSE (protocol 2024-11-05): a GET stream announces the POST endpoint
+ * in an `endpoint` event and carries every server message
+ */
+export class SseTransport extends HttpTransport {
+  private endpoint!: Deferred<string>
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void> {
+    this.onMessage = onMessage
+    this.onClose = error => {
+      this.endpoint.reject(error || new MCPError(`Connection to MCP server ${this.name} is closed`, { server: this.name }))
+      onClose(error)
+    }
+    this.endpoint = createDeferred()
+
+    this.listen(
+      this.url,
+      event => {
+        if (event.event === 'endpoint') {
+          this.endpoint.resolve(new URL(event.data, this.url).toString())
+        } else if (event.event === 'message') {
+          this.handleEventData(event)
+        }
+      },
+      () => {
+        // A new stream announces a new endpoint
+        if (this.endpoint.settled) {
+          this.endpoint = createDeferred()
+        }
+      }
+    ).catch(error => this.fail(error as Error))
+
+    // A stream that never announces the endpoint would leave connect() hanging
+    const timeout = this.server.timeout * 1000
+    const timer = setTimeout(() => this.fail(new MCPError(
+      `MCP server ${this.name} did not announce its message endpoint within ${timeout}ms`,
+      { server: this.name, url: this.url }
+    )), timeout)
+    try {
+      await this.endpoint.promise
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (this.closed) {
+      throw new MCPError(`Connection to MCP server ${this.name} is closed`, { server: this.name })
+    }
+
+    const endpoint = await this.endpoint.promise
+    const response = await this.fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers: this.headers({ 'Content-Type': 'application/json' }),
+      body: JSON.stringify(message)
+    })
+    await response.body?.cancel()
+    if (!response.ok) {
+      throw new MCPError(`MCP server ${this.name} answered HTTP ${response.status}`, { server: this.name, status: response.status })
+    }
+  }
+}
+
+interface Deferred<T> {
+  promise: Promise<T>
+  resolve: (value: T) => void
+  reject: (error: Error) => void
+  settled: boolean
+}
+
+function createDeferred<T>(): Deferred<T> {
+  const deferred = { settled: false } as Deferred<T>
+  deferred.promise = new Promise<T>((resolve, reject) => {
+    deferred.resolve = value => {
+      deferred.settled = true
+      resolve(value)
+    }
+    deferred.reject = error => {
+      deferred.settled = true
+      reject(error)
+    }
+  })
+  // Nobody may be waiting when the connection fails
+  deferred.promise.catch(() => undefined)
+  return deferred
+}
+
+function backoff(attempt: number): number {
+  return Math.min(BASE_RECONNECT_DELAY * 2 ** (attempt - 1), MAX_RECONNECT_DELAY)
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+/**
+ * Parse a text/event-stream body, calling `onEvent` for each dispatched event
+ */
+async function readSseEvents(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let data: string[] = []
+  let id: string | undefined
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      if (data.length > 0) {
+        onEvent({ event, data: data.join('\n'), id })
+      }
+      event = 'message'
+      data = []
+      return
+    }
+    if (line.startsWith(':')) {
+      return
+    }
+
+    const colon = line.indexOf(':')
+    const field = colon >= 0 ? line.substring(0, colon) : line
+    const value = colon >= 0 ? line.substring(colon + 1).replace(/^ /, '') : ''
+    if (field === 'event') {
+      event = value
+    } else if (field === 'data') {
+      data.push(value)
+    } else if (field === 'id') {
+      id = value
+    }
+  }
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    buffer += decoder.decode(value, { stream: true })
+    // A trailing CR stays buffered: it may be the first half of a CRLF split across chunks
+    const lines = buffer.split(/\r\n|\r(?!$)|\n/)
+    buffer = lines.pop() || ''
+    lines.forEach(processLine)
+  }
+}
@@ -1,24 +1,45 @@
-import { readFile, writeFile as fsWriteFile, ensureFile } from 'fs-extra'
+import { readFile, writeFile as fsWriteFile, ensureFile, pathExists } from 'fs-extra'
 import { join } from 'path'
 import { homedir } from 'os'
 import { execa } from 'execa'
 import { z } from 'zod'
-import { Logger } from '../../utils/logger'
-import { MCPServer, MCPConfiguration, MCPError, CommandResult } from '../types'
+import Ajv, { ValidateFunction } from 'ajv'
+import { Logger, addRedactedValue, redact } from '../../utils/logger'
+import { MCPClient, MCPInitializeResult, MCPRequestOptions, MCPTool, MCPToolResult, MCPTransport, StdioTransport } from './MCPClient'
+import { SseTransport, StreamableHttpTransport } from './MCPHttpTransport'
+import { MCPServer, MCPConfiguration, MCPError, ValidationError, CommandResult } from '../types'
+import { SecretStore } from '../storage/SecretStore'
 
 // Zod schemas for validation
+const TransportTypeSchema = z.enum(['stdio', 'sse', 'http'])
+
 const MCPServerSchema = z.object({
-  command: z.string(),
-  args: z.array(z.string()),
+  command: z.string().optional().default(''),
+  args: z.array(z.string()).optional().default([]),
   env: z.record(z.string()).optional().default({}),
   autoApprove: z.array(z.string()).optional().default([]),
   disabled: z.boolean().optional().default(false),
   timeout: z.number().optional().default(60),
-  transportType: z.enum(['stdio', 'sse']).optional().default('stdio')
-})
-
+  transportType: TransportTypeSchema.optional(),
+  // Claude Code calls the transport `type`
+  type: TransportTypeSchema.optional(),
+  // Not checked as a URL here: it may hold ${env:...} or ${secret:...} placeholders
+  url: z.string().min(1).optional(),
+  headers: z.record(z.string()).optional().default({})
+}).transform(({ type, ...server }) => ({
+  ...server,
+  transportType: server.transportType ?? type ?? (server.url ? 'http' as const : 'stdio' as const)
+})).refine(
+  server => server.transportType === 'stdio' ? server.command !== '' : server.url !== undefined,
+  'stdio servers need a command, sse and http servers a url'
+)
+
+/** `${env:NAME}` or `${secret:name}`, resolved when the server is started */
+const PLACEHOLDER_PATTERN = /\$\{(env|secret):([^}]+)\}/g
+
+// Servers are validated one by one so a broken entry doesn't hide the rest of the file
 const ClaudeConfigSchema = z.object({
-  mcpServers: z.record(MCPServerSchema).optional().default({}),
+  mcpServers: z.record(z.unknown()).optional().default({}),
   globalShortcuts: z.object({
     toggle: z.string().optional()
   }).optional(),
@@ -28,29 +49,66 @@ const ClaudeConfigSchema = z.object({
   }).optional()
 })
 
+/**
+ * A settings file MCP servers are read from. `local` beats `project` beats `user`.
+ */
+export interface MCPConfigSource {
+  path: string
+  scope: 'user' | 'project' | 'local'
+}
+
+export interface MCPServerStatus {
+  name: string
+  transportType: MCPServer['transportType']
+  /** File the server definition was taken from */
+  source?: MCPConfigSource
+  /** Lower-precedence files that also define the server */
+  overrides: MCPConfigSource[]
+  connected: boolean
+  /** Milliseconds the initialize handshake took */
+  latency?: number
+  protocolVersion?: string
+  serverInfo?: MCPInitializeResult['serverInfo']
+  tools: number
+  /** Why the connection failed */
+  error?: string
+}
+
 export class MCPIntegrationService {
   private logger: Logger
+  private projectPath: string
   private mcpConfig: MCPConfiguration | null = null
+  private sources: Map<string, MCPConfigSource> = new Map()
+  private overrides: Map<string, MCPConfigSource[]> = new Map()
   private connectedServers: Map<string, MCPServer> = new Map()
-
-  constructor(logger: Logger) {
+  private clients: Map<string, MCPClient> = new Map()
+  private tools: Map<string, Map<string, MCPTool>> = new Map()
+  private latencies: Map<string, number> = new Map()
+  private connectionErrors: Map<string, string> = new Map()
+  private validators: Map<string, ValidateFunction | null> = new Map()
+  // Servers publish schemas with vendor keywords, so don't reject unknown ones
+  private ajv = new Ajv({ allErrors: true, strict: false })
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
     this.logger = logger
+    this.projectPath = projectPath
   }
 
   /**
    * Detect and load MCP configuration from Claude Code settings
+   *
+   * @param options.servers Only connect these servers (all relevant ones by default)
    */
-  async detectAndSetupMCPs(): Promise<MCPConfiguration> {
+  async detectAndSetupMCPs(options: { servers?: string[] } = {}): Promise<MCPConfiguration> {
     this.logger.info('Detecting MCP servers from Claude Code configuration')
 
     try {
-      const claudeConfig = await this.readClaudeConfig()
-      const relevantMCPs = this.filterRelevantMCPs(claudeConfig.mcpServers)
+      const relevantMCPs = this.filterRelevantMCPs(await this.readClaudeConfig())
       
       this.mcpConfig = this.categorizeServers(relevantMCPs)
       
       // Test connections to available servers
-      await this.testConnections()
+      await this.testConnections(options.servers)
       
       this.logger.info('MCP configuration loaded successfully', {
         serversFound: Object.keys(relevantMCPs).length,
@@ -65,29 +123,80 @@ export class MCPIntegrationService {
   }
 
   /**
-   * Read Claude Code configuration from multiple possible locations
+   * Settings files that can define MCP servers, lowest precedence first
    */
-  private async readClaudeConfig(): Promise<any> {
-    const possiblePaths = [
-      join(homedir(), '.claude', 'settings.json'),
-      join(process.cwd(), '.claude', 'settings.json'),
-      join(homedir(), '.config', 'claude', 'settings.json')
+  getConfigSources(): MCPConfigSource[] {
+    return [
+      { path: join(homedir(), '.config', 'claude', 'settings.json'), scope: 'user' },
+      { path: join(homedir(), '.claude', 'settings.json'), scope: 'user' },
+      { path: join(this.projectPath, '.mcp.json'), scope: 'project' },
+      { path: join(this.projectPath, '.claude', 'settings.json'), scope: 'project' },
+      { path: join(this.projectPath, '.claude', 'settings.local.json'), scope: 'local' }
     ]
+  }
 
-    for (const configPath of possiblePaths) {
+  /**
+   * Merge the MCP servers of every settings source. A server defined in
+   * several files is taken whole from the one with the highest precedence.
+   */
+  private async readClaudeConfig(): Promise<Record<string, MCPServer>> {
+    const sources = this.getConfigSources()
+    const servers: Record<string, MCPServer> = {}
+    let found = 0
+
+    this.sources.clear()
+    this.overrides.clear()
+
+    for (const source of sources) {
+      if (!(await pathExists(source.path))) {
+        this.logger.debug(`Claude config not found at ${source.path}`)
+        continue
+      }
+
+      let config: z.infer<typeof ClaudeConfigSchema>
       try {
-        const configContent = await readFile(configPath, 'utf-8')
-        const rawConfig = JSON.parse(configContent)
-        return ClaudeConfigSchema.parse(rawConfig)
+        config = ClaudeConfigSchema.parse(JSON.parse(await readFile(source.path, 'utf-8')))
       } catch (error) {
-        this.logger.debug(`Claude config not found at ${configPath}`)
+        this.logger.warn(`Ignoring unreadable Claude config ${source.path}`, { error: (error as Error).message })
         continue
       }
+      found++
+
+      for (const [name, raw] of Object.entries(config.mcpServers)) {
+        const parsed = MCPServerSchema.safeParse(raw)
+        if (!parsed.success) {
+          this.logger.warn(`Ignoring invalid MCP server ${name} in ${source.path}`, {
+            errors: parsed.error.issues.map(issue => `${issue.path.join('.') || name}: ${issue.message}`)
+          })
+          continue
+        }
+
+        const previous = this.sources.get(name)
+        if (previous) {
+          this.overrides.set(name, [...(this.overrides.get(name) || []), previous])
+        }
+        servers[name] = { name, ...parsed.data }
+        this.sources.set(name, source)
+      }
+    }
+
+    if (found === 0) {
+      throw new MCPError('No Claude Code configuration found', {
+        searchPaths: sources.map(source => source.path)
+      })
     }
 
-    throw new MCPError('No Claude Code configuration found', {
-      searchPaths: possiblePaths
+    this.logger.debug('Merged MCP servers from Claude config', {
+      servers: Object.fromEntries(Array.from(this.sources.entries()).map(([name, source]) => [name, source.path]))
     })
+    return servers
+  }
+
+  /**
+   * Settings file a server's definition came from, and the files it overrides
+   */
+  getServerSource(serverName: string): { source?: MCPConfigSource; overrides: MCPConfigSource[] } {
+    return { source: this.sources.get(serverName), overrides: this.overrides.get(serverName) || [] }
   }
 
   /**
@@ -149,101 +258,198 @@ export class MCPIntegrationService {
   /**
    * Test connections to all available MCP servers
    */
-  private async testConnections(): Promise<void> {
+  private async testConnections(only?: string[]): Promise<void> {
     if (!this.mcpConfig) return
 
     const allServers = this.getAllServers()
-    const connectionPromises = Object.entries(allServers).map(
-      async ([name, server]) => {
+    const connectionPromises = Object.entries(allServers)
+      .filter(([name]) => !only || only.includes(name))
+      .map(async ([name, server]) => {
         try {
           await this.testServerConnection(name, server)
           this.connectedServers.set(name, server)
+          this.connectionErrors.delete(name)
           this.logger.debug(`MCP server ${name} connected successfully`)
         } catch (error) {
-          this.logger.warn(`Failed to connect to MCP server ${name}`, { error: error.message })
+          const { message, cause } = error as MCPError
+          this.connectionErrors.set(name, redact(cause?.message || message))
+          this.logger.warn(`Failed to connect to MCP server ${name}`, { error: message, cause: cause?.message })
         }
-      }
-    )
+      })
 
     await Promise.all(connectionPromises)
   }
 
   /**
-   * Test connection to a specific MCP server
+   * Start a server and keep its connection open after the initialize handshake
    */
   private async testServerConnection(name: string, server: MCPServer): Promise<void> {
+    let client: MCPClient
+    const startedAt = Date.now()
     try {
-      const { stdout } = await execa(server.command, server.args, {
-        env: { ...process.env, ...server.env },
-        timeout: server.timeout * 1000,
-        input: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'initialize',
-          params: {
-            protocolVersion: '2024-11-05',
-            capabilities: {},
-            clientInfo: {
-              name: 'tazz-cli',
-              version: '1.0.0'
-            }
-          }
-        })
-      })
-
-      const response = JSON.parse(stdout)
-      if (response.error) {
-        throw new Error(`Server error: ${response.error.message}`)
-      }
+      const resolved = await this.resolvePlaceholders(name, server)
+      client = await this.connectClient(name, resolved)
+      this.latencies.set(name, Date.now() - startedAt)
     } catch (error) {
       throw new MCPError(`Failed to connect to ${name}`, {
         server: name,
+        transportType: server.transportType,
         command: server.command,
-        args: server.args
-      }, error)
+        args: server.args,
+        url: server.url
+      }, error as Error)
     }
+
+    await this.clients.get(name)?.close()
+    this.clients.set(name, client)
+
+    await this.loadTools(name, client)
+    client.onNotification('notifications/tools/list_changed', () => {
+      this.loadTools(name, client).catch(error => {
+        this.logger.warn(`Failed to refresh tools of MCP server ${name}`, { error: error.message })
+      })
+    })
   }
 
   /**
-   * Call an MCP server with a specific method and parameters
+   * Replace ${env:NAME} and ${secret:name} placeholders in the command, args, env,
+   * url and headers. Resolved values are registered for redaction so they never
+   * reach the log file or error output.
    */
-  async callMCP(serverName: string, method: string, params: any = {}): Promise<any> {
-    const server = this.connectedServers.get(serverName)
-    if (!server) {
-      throw new MCPError(`MCP server ${serverName} not available`, {
-        availableServers: Array.from(this.connectedServers.keys())
-      })
+  private async resolvePlaceholders(name: string, server: MCPServer): Promise<MCPServer> {
+    const secrets = new SecretStore()
+    const values = new Map<string, string>()
+
+    const collect = async (text: string) => {
+      for (const [placeholder, kind, key] of text.matchAll(PLACEHOLDER_PATTERN)) {
+        if (values.has(placeholder)) {
+          continue
+        }
+        const value = kind === 'env' ? process.env[key] : await secrets.get(key)
+        if (value === undefined || value === '') {
+          throw new MCPError(kind === 'env'
+            ? `Environment variable ${key} used by MCP server ${name} is not set`
+            : `Secret ${key} used by MCP server ${name} is not set; run \`tazz secrets set ${key}\``, { server: name, placeholder })
+        }
+        addRedactedValue(value)
+        values.set(placeholder, value)
+      }
+    }
+    const texts = [
+      server.command,
+      ...server.args,
+      ...Object.values(server.env),
+      server.url || '',
+      ...Object.values(server.headers || {})
+    ]
+    for (const text of texts) {
+      await collect(text)
+    }
+    if (values.size === 0) {
+      return server
     }
 
+    const resolve = (text: string) => text.replace(PLACEHOLDER_PATTERN, placeholder => values.get(placeholder)!)
+    const resolveRecord = (record: Record<string, string>) =>
+      Object.fromEntries(Object.entries(record).map(([key, value]) => [key, resolve(value)]))
+    return {
+      ...server,
+      command: resolve(server.command),
+      args: server.args.map(resolve),
+      env: resolveRecord(server.env),
+      url: server.url && resolve(server.url),
+      headers: server.headers && resolveRecord(server.headers)
+    }
+  }
+
+  /**
+   * Connect over the server's transport. Servers that refuse the streamable HTTP
+   * initialize POST with 400, 404 or 405 only speak HTTP+SSE and are retried over it.
+   */
+  private async connectClient(name: string, server: MCPServer): Promise<MCPClient> {
+    const client = new MCPClient(name, this.createTransport(name, server), this.logger, server.timeout * 1000)
     try {
-      const requestId = Date.now()
-      const request = {
-        jsonrpc: '2.0',
-        id: requestId,
-        method,
-        params
+      await client.connect()
+      return client
+    } catch (error) {
+      const status = error instanceof MCPError ? error.context?.status : undefined
+      if (server.transportType !== 'http' || ![400, 404, 405].includes(status as number)) {
+        throw error
       }
+      this.logger.debug(`MCP server ${name} does not speak streamable HTTP, falling back to HTTP+SSE`, { status })
+      return this.connectClient(name, { ...server, transportType: 'sse' })
+    }
+  }
 
-      this.logger.debug(`Calling MCP server ${serverName}`, { method, params })
+  private createTransport(name: string, server: MCPServer): MCPTransport {
+    switch (server.transportType) {
+      case 'http':
+        return new StreamableHttpTransport(name, server, this.logger)
+      case 'sse':
+        return new SseTransport(name, server, this.logger)
+      default:
+        return new StdioTransport(name, server, this.logger)
+    }
+  }
 
-      const { stdout } = await execa(server.command, server.args, {
-        env: { ...process.env, ...server.env },
-        timeout: server.timeout * 1000,
-        input: JSON.stringify(request)
-      })
+  /**
+   * Cache the server's tools and their input schemas
+   */
+  private async loadTools(name: string, client: MCPClient): Promise<void> {
+    const tools = client.getInitializeResult()?.capabilities.tools ? await client.listTools() : []
+    this.tools.set(name, new Map(tools.map(tool => [tool.name, tool])))
+    Array.from(this.validators.keys())
+      .filter(key => key.startsWith(`${name}/`))
+      .forEach(key => this.validators.delete(key))
+
+    this.logger.debug(`Loaded tools of MCP server ${name}`, { tools: tools.map(tool => tool.name) })
+  }
 
-      const response = JSON.parse(stdout)
-      
-      if (response.error) {
-        throw new MCPError(`MCP call failed: ${response.error.message}`, {
-          server: serverName,
-          method,
-          error: response.error
+  /**
+   * Check `args` against the tool's input schema; tools whose schema ajv cannot compile are not checked
+   */
+  private validateArguments(serverName: string, tool: MCPTool, args: Record<string, unknown>): void {
+    const key = `${serverName}/${tool.name}`
+    if (!this.validators.has(key)) {
+      try {
+        // The schema dialect is whatever the server declares; ajv only needs the keywords
+        const { $schema, ...schema } = tool.inputSchema
+        this.validators.set(key, this.ajv.compile(schema))
+      } catch (error) {
+        this.logger.warn(`Cannot compile input schema of ${key}, arguments are not validated`, {
+          error: (error as Error).message
         })
+        this.validators.set(key, null)
       }
+    }
+
+    const validate = this.validators.get(key)
+    if (validate && !validate(args)) {
+      throw new ValidationError(`Invalid arguments for ${key}: ${this.ajv.errorsText(validate.errors, { dataVar: 'arguments' })}`, {
+        server: serverName,
+        tool: tool.name,
+        errors: validate.errors
+      })
+    }
+  }
+
+  /**
+   * Call an MCP server with a specific method and parameters
+   */
+  async callMCP(serverName: string, method: string, params: any = {}, options: MCPRequestOptions = {}): Promise<any> {
+    const client = this.clients.get(serverName)
+    if (!client || !client.isConnected()) {
+      throw new MCPError(`MCP server ${serverName} not available`, {
+        availableServers: this.getConnectedServers()
+      })
+    }
+
+    try {
+      this.logger.debug(`Calling MCP server ${serverName}`, { method, params })
+      const result = await client.request(method, params, options)
 
       this.logger.debug(`MCP call successful`, { server: serverName, method })
-      return response.result
+      return result
     } catch (error) {
       this.logger.error(`MCP call failed`, error, { server: serverName, method })
       throw new MCPError(`Failed to call ${serverName}.${method}`, {
@@ -255,17 +461,103 @@ export class MCPIntegrationService {
   }
 
   /**
-   * Check if a specific MCP server is available and connected
+   * Call a tool through tools/call after validating `args` against its input schema.
+   * Resolves to the tool's structured content, else its text content (parsed when it is JSON).
+   */
+  async callTool<T = unknown>(
+    serverName: string,
+    toolName: string,
+    args: Record<string, unknown> = {},
+    options: MCPRequestOptions = {}
+  ): Promise<T> {
+    const tool = this.tools.get(serverName)?.get(toolName)
+    if (!this.isAvailable(serverName) || !tool) {
+      throw new MCPError(`MCP tool ${serverName}.${toolName} not available`, {
+        server: serverName,
+        tool: toolName,
+        availableTools: this.getTools(serverName).map(t => t.name)
+      })
+    }
+    this.validateArguments(serverName, tool, args)
+
+    this.logger.debug(`Calling MCP tool ${serverName}.${toolName}`, { args })
+    let result: MCPToolResult
+    try {
+      result = await this.clients.get(serverName)!.callTool(toolName, args, options)
+    } catch (error) {
+      throw new MCPError(`Failed to call ${serverName}.${toolName}`, { server: serverName, tool: toolName }, error as Error)
+    }
+
+    if (result.isError) {
+      throw new MCPError(`MCP tool ${serverName}.${toolName} failed: ${getTextContent(result) || 'no details'}`, {
+        server: serverName,
+        tool: toolName,
+        content: result.content
+      })
+    }
+    return getToolResultData(result) as T
+  }
+
+  /**
+   * Tools offered by a connected server, as reported by tools/list
    */
-  isAvailable(serverName: string): boolean {
-    return this.connectedServers.has(serverName)
+  getTools(serverName: string): MCPTool[] {
+    return Array.from(this.tools.get(serverName)?.values() || [])
+  }
+
+  /**
+   * Check if a specific MCP server is available and connected, and optionally offers `toolName`
+   */
+  isAvailable(serverName: string, toolName?: string): boolean {
+    const connected = this.clients.get(serverName)?.isConnected() ?? false
+    return connected && (!toolName || (this.tools.get(serverName)?.has(toolName) ?? false))
   }
 
   /**
    * Get all connected servers
    */
   getConnectedServers(): string[] {
-    return Array.from(this.connectedServers.keys())
+    return Array.from(this.connectedServers.keys()).filter(name => this.isAvailable(name))
+  }
+
+  /**
+   * Names of the Tazz-relevant servers in the Claude Code configuration
+   */
+  getConfiguredServers(): string[] {
+    return Object.keys(this.getAllServers())
+  }
+
+  /**
+   * Connection details of every configured server
+   */
+  getServerStatus(): MCPServerStatus[] {
+    return Object.entries(this.getAllServers()).map(([name, server]) => {
+      const initialized = this.clients.get(name)?.getInitializeResult()
+      return {
+        name,
+        transportType: server.transportType,
+        ...this.getServerSource(name),
+        connected: this.isAvailable(name),
+        latency: this.latencies.get(name),
+        protocolVersion: initialized?.protocolVersion,
+        serverInfo: initialized?.serverInfo,
+        tools: this.getTools(name).length,
+        error: this.connectionErrors.get(name)
+      }
+    })
+  }
+
+  /**
+   * Shut down every server process started by this service
+   */
+  async disconnect(): Promise<void> {
+    const clients = Array.from(this.clients.values())
+    this.clients.clear()
+    this.connectedServers.clear()
+    this.tools.clear()
+    this.validators.clear()
+    this.latencies.clear()
+    await Promise.all(clients.map(client => client.close()))
   }
 
   /**
@@ -321,8 +613,8 @@ export class MCPIntegrationService {
    */
   private async detectDefaultBranch(projectPath: string): Promise<string> {
     try {
-      if (this.isAvailable('git')) {
-        const result = await this.callMCP('git', 'get_default_branch', {
+      if (this.isAvailable('git', 'get_default_branch')) {
+        const result = await this.callTool<{ branch?: string }>('git', 'get_default_branch', {
           repository: projectPath
         })
         return result.branch || 'main'
@@ -345,4 +637,24 @@ export class MCPIntegrationService {
     await ensureFile(path)
     await fsWriteFile(path, content, 'utf-8')
   }
-}
\ No newline at end of file
+}
+
+function getTextContent(result: MCPToolResult): string {
+  return (result.content || [])
+    .filter(item => item.type === 'text' && typeof item.text === 'string')
+    .map(item => item.text)
+    .join('\n')
+}
+
+function getToolResultData(result: MCPToolResult): unknown {
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent
+  }
+
+  const text = getTextContent(result)
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
@@ -1,10 +1,11 @@
 import { MCPIntegrationService } from './MCPIntegrationService'
+import { JiraTicketService, JiraTicket } from './JiraTicketService'
 import { SessionStore } from '../storage/SessionStore'
 import { Logger } from '../../utils/logger'
 import { TazzSession, SessionStatus, AgentInstance, AgentType, AgentStatus, SessionError } from '../types'
 import { execa } from 'execa'
 import { join } from 'path'
-import { ensureDir, writeFile } from 'fs-extra'
+import { ensureDir, writeFile, pathExists } from 'fs-extra'
 
 export interface SessionContext {
   tasks?: string[]
@@ -128,32 +129,23 @@ export class MCPSessionManager {
   }
 
   async enrichWithJiraContext(session: TazzSession): Promise<void> {
-    if (!this.mcpService.isAvailable('atlassian')) {
-      this.logger.warn('Jira integration requested but Atlassian MCP not available')
+    const jira = new JiraTicketService(this.mcpService, this.logger)
+    const key = JiraTicketService.parseTicketKey(session.id)
+    if (!key || !jira.isAvailable()) {
+      this.logger.warn('Jira integration requested but Atlassian MCP (jira_get_issue) not available')
       return
     }
 
     try {
-      const ticketInfo = await this.mcpService.callMCP('atlassian', 'jira_get_issue', {
-        issueKey: session.id
-      })
-
-      session.metadata.jira = {
-        title: ticketInfo.fields.summary,
-        description: ticketInfo.fields.description,
-        priority: ticketInfo.fields.priority.name,
-        assignee: ticketInfo.fields.assignee?.displayName,
-        status: ticketInfo.fields.status.name,
-        type: ticketInfo.fields.issuetype.name,
-        storyPoints: ticketInfo.fields.storyPoints
-      }
+      const ticket = await jira.fetchTicket(key)
+      session.metadata.jira = jira.toSessionMetadata(ticket)
 
       // Create Jira-based todo
-      await this.createJiraBasedTodo(session, ticketInfo)
+      await this.createJiraBasedTodo(session, jira, ticket)
 
       this.logger.info('Session enriched with Jira context', { sessionId: session.id })
     } catch (error) {
-      this.logger.warn('Failed to enrich session with Jira context', { error: error.message, sessionId: session.id })
+      this.logger.warn('Failed to enrich session with Jira context', { error: (error as Error).message, sessionId: session.id })
     }
   }
 
@@ -210,10 +202,13 @@ export class MCPSessionManager {
       JSON.stringify(session, null, 2)
     )
 
-    await writeFile(
-      join(sessionDir, 'tazz-todo.md'),
-      this.generateSessionTodo(session)
-    )
+    // A Jira ticket may already have written its tasks there
+    if (!await pathExists(join(sessionDir, 'tazz-todo.md'))) {
+      await writeFile(
+        join(sessionDir, 'tazz-todo.md'),
+        this.generateSessionTodo(session)
+      )
+    }
   }
 
   private generateSessionTodo(session: TazzSession): string {
@@ -244,12 +239,14 @@ export class MCPSessionManager {
     return content
   }
 
-  private async createJiraBasedTodo(session: TazzSession, ticketInfo: any): Promise<void> {
-    // This would create a more detailed todo based on Jira ticket
-    // For now, it's handled in generateSessionTodo
+  /**
+   * Sub-tasks and acceptance criteria of the ticket as sections of the worktree's task file
+   */
+  private async createJiraBasedTodo(session: TazzSession, jira: JiraTicketService, ticket: JiraTicket): Promise<void> {
+    await jira.addToTaskFile(ticket, session.worktreePath)
   }
 
   private isJiraTicket(sessionId: string): boolean {
-    return /^[A-Z]+-\d+$/.test(sessionId)
+    return JiraTicketService.parseTicketKey(sessionId) !== undefined
   }
 }
\ No newline at end of file
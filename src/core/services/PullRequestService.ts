@@ -0,0 +1,455 @@
+import { readFile, readJson, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { Logger } from '../../utils/logger'
+import { getProjectTazzDir } from '../../utils/paths'
+import { getCommitsBetween, getDefaultBranch, getRemoteRepository, getUncommittedChanges, pushBranch } from '../../utils/git'
+import { MCPIntegrationService } from './MCPIntegrationService'
+import { SessionStore } from '../storage/SessionStore'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { PullRequestStatusCache } from '../storage/PullRequestStatusCache'
+import { TazzSession, TaskStatus, PullRequestStatus, SessionError, GitError, MCPError, ValidationError } from '../types'
+
+export interface PullRequestOptions {
+  /** Branch to merge into (default: settings.defaultBranch, then the repository's default branch) */
+  base?: string
+  title?: string
+  draft?: boolean
+  remote?: string
+}
+
+export interface PullRequestDraft {
+  owner: string
+  repo: string
+  head: string
+  base: string
+  title: string
+  body: string
+  draft: boolean
+  commits: string[]
+  /** Uncommitted changes in the instance worktree, which the pull request will not contain */
+  uncommitted: string[]
+}
+
+export type RelatedPullRequest = NonNullable<TazzSession['metadata']['github']>['relatedPRs'][number]
+
+export interface PullRequestStatusResult {
+  /** By pull request URL; includes outdated cache entries when a refresh failed */
+  statuses: Map<string, PullRequestStatus>
+  /** Why the statuses could not be refreshed */
+  error?: string
+}
+
+const GITHUB_SERVER = 'github'
+const CREATE_PR_TOOL = 'create_pull_request'
+const GET_PR_TOOL = 'get_pull_request'
+const GET_REVIEWS_TOOL = 'get_pull_request_reviews'
+const GET_STATUS_TOOL = 'get_pull_request_status'
+/** How long `tazz list` shows a cached pull request status before asking GitHub again */
+const STATUS_MAX_AGE = 60 * 1000
+/** Pull request templates GitHub itself picks up, used when `tazz make` generated none */
+const REPOSITORY_TEMPLATES = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md'
+]
+/** Commits listed in the body; the pull request itself shows all of them */
+const MAX_LISTED_COMMITS = 50
+
+/**
+ * Opens a GitHub pull request for an instance branch through the GitHub MCP,
+ * describing it from the session's tasks, Jira ticket and commits
+ */
+export class PullRequestService {
+  private logger: Logger
+  private projectPath: string
+  private sessionStore: SessionStore
+  private configStore: ProjectConfigStore
+  private statusCache: PullRequestStatusCache
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.projectPath = projectPath
+    this.sessionStore = new SessionStore(projectPath)
+    this.configStore = new ProjectConfigStore(projectPath)
+    this.statusCache = new PullRequestStatusCache(projectPath)
+  }
+
+  async getSession(sessionId: string): Promise<TazzSession> {
+    const session = await this.sessionStore.getSession(sessionId)
+    if (!session) {
+      throw new SessionError(`Session ${sessionId} not found`, { sessionId })
+    }
+    return session
+  }
+
+  /**
+   * Everything needed to open the pull request, without pushing or creating anything
+   */
+  async prepare(session: TazzSession, options: PullRequestOptions = {}): Promise<PullRequestDraft> {
+    const repository = await getRemoteRepository(this.projectPath, options.remote)
+    if (!repository) {
+      throw new ValidationError(`Remote ${options.remote || 'origin'} is not a GitHub repository`, {
+        sessionId: session.id,
+        remote: options.remote || 'origin'
+      })
+    }
+
+    const { settings } = await this.configStore.load()
+    const base = options.base || settings.defaultBranch || await getDefaultBranch(this.projectPath)
+    const commits = await getCommitsBetween(base, session.branch, this.projectPath)
+    if (commits.length === 0) {
+      throw new ValidationError(`${session.branch} has no commits that are not in ${base}`, {
+        sessionId: session.id,
+        branch: session.branch,
+        base
+      })
+    }
+
+    const uncommitted = await pathExists(session.worktreePath) ? await getUncommittedChanges(session.worktreePath) : []
+    const template = await this.loadTemplate(session.worktreePath)
+
+    return {
+      ...repository,
+      head: session.branch,
+      base,
+      title: options.title || buildTitle(session, commits),
+      body: fillTemplate(template, buildSummary(session, commits, repository)),
+      draft: !!options.draft,
+      commits,
+      uncommitted
+    }
+  }
+
+  /**
+   * Push the branch (unless `push` is false), create the pull request and record it on the session
+   */
+  async create(session: TazzSession, draft: PullRequestDraft, options: { push?: boolean; remote?: string } = {}): Promise<RelatedPullRequest> {
+    if (options.push !== false) {
+      try {
+        await pushBranch(draft.head, this.projectPath, options.remote)
+      } catch (error) {
+        throw new GitError(`git push failed for ${draft.head}: ${(error as Error).message.trim()}`, {
+          sessionId: session.id,
+          branch: draft.head
+        }, error as Error)
+      }
+      this.logger.info('Branch pushed', { sessionId: session.id, branch: draft.head })
+    }
+
+    const mcpService = new MCPIntegrationService(this.logger, this.projectPath)
+    let response: any
+    try {
+      await mcpService.detectAndSetupMCPs({ servers: [GITHUB_SERVER] })
+      if (!mcpService.isAvailable(GITHUB_SERVER, CREATE_PR_TOOL)) {
+        throw new MCPError(`GitHub MCP (${CREATE_PR_TOOL}) not available; configure the ${GITHUB_SERVER} server in .claude/settings.json`, {
+          server: GITHUB_SERVER
+        })
+      }
+      response = await mcpService.callTool<any>(GITHUB_SERVER, CREATE_PR_TOOL, {
+        owner: draft.owner,
+        repo: draft.repo,
+        title: draft.title,
+        body: draft.body,
+        head: draft.head,
+        base: draft.base,
+        draft: draft.draft
+      })
+    } finally {
+      await mcpService.disconnect()
+    }
+
+    const number = Number(response?.number)
+    if (!Number.isInteger(number) || number <= 0) {
+      throw new MCPError('GitHub MCP returned no pull request number', { server: GITHUB_SERVER, response })
+    }
+    const pullRequest: RelatedPullRequest = {
+      number,
+      title: response?.title || draft.title,
+      status: (draft.draft || response?.draft) ? 'draft' : response?.state || 'open',
+      url: response?.html_url || response?.url || `https://github.com/${draft.owner}/${draft.repo}/pull/${number}`
+    }
+
+    await this.sessionStore.updateSession(session.id, latest => {
+      const github = latest.metadata.github ?? { relatedPRs: [] }
+      github.relatedPRs = [...github.relatedPRs.filter(pr => pr.number !== number), pullRequest]
+      latest.metadata.github = github
+    })
+    this.logger.info('Pull request created', { sessionId: session.id, number, url: pullRequest.url })
+
+    return pullRequest
+  }
+
+  /**
+   * State, review decision and CI status of the sessions' pull requests.
+   * Statuses younger than STATUS_MAX_AGE come from the on-disk cache unless
+   * `refresh` is set; merged pull requests are never fetched again. A state
+   * that changed is written back to the session's `relatedPRs`.
+   */
+  async getStatuses(sessions: TazzSession[], options: { refresh?: boolean } = {}): Promise<PullRequestStatusResult> {
+    const pullRequests = sessions.flatMap(session => session.metadata.github?.relatedPRs || [])
+    if (pullRequests.length === 0) {
+      return { statuses: new Map() }
+    }
+
+    const cached = await this.statusCache.getAll()
+    const statuses = new Map<string, PullRequestStatus>()
+    pullRequests.forEach(pr => {
+      if (cached[pr.url]) {
+        statuses.set(pr.url, cached[pr.url])
+      }
+    })
+
+    const fresh = options.refresh ? new Map() : await this.statusCache.getFresh(pullRequests.map(pr => pr.url), STATUS_MAX_AGE)
+    const stale = pullRequests.filter(pr =>
+      !fresh.has(pr.url) && pr.status !== 'merged' && statuses.get(pr.url)?.state !== 'merged')
+    if (stale.length === 0) {
+      return { statuses }
+    }
+
+    const mcpService = new MCPIntegrationService(this.logger, this.projectPath)
+    let error: string | undefined
+    try {
+      await mcpService.detectAndSetupMCPs({ servers: [GITHUB_SERVER] })
+      if (!mcpService.isAvailable(GITHUB_SERVER, GET_PR_TOOL)) {
+        throw new MCPError(`GitHub MCP (${GET_PR_TOOL}) not available`, { server: GITHUB_SERVER })
+      }
+
+      const fetched = await Promise.all(stale.map(async pr => {
+        try {
+          return await this.fetchStatus(mcpService, pr)
+        } catch (fetchError) {
+          this.logger.warn('Failed to fetch pull request status', { url: pr.url, error: (fetchError as Error).message })
+          error = (fetchError as Error).message
+          return undefined
+        }
+      }))
+      const updated = fetched.filter((status): status is PullRequestStatus => status !== undefined)
+      updated.forEach(status => statuses.set(status.url, status))
+      if (updated.length > 0) {
+        await this.statusCache.set(updated)
+        await this.recordStates(sessions, updated)
+      }
+    } catch (refreshError) {
+      error = (refreshError as Error).message
+      this.logger.warn('Failed to refresh pull request statuses', { error })
+    } finally {
+      await mcpService.disconnect()
+    }
+
+    return { statuses, error }
+  }
+
+  private async fetchStatus(mcpService: MCPIntegrationService, pr: RelatedPullRequest): Promise<PullRequestStatus> {
+    const [, owner, repo] = pr.url.match(/github\.com\/([^/]+)\/([^/]+)\/pull\//) || []
+    if (!owner) {
+      throw new ValidationError(`Not a GitHub pull request URL: ${pr.url}`, { url: pr.url })
+    }
+    const args = (tool: string) => ({ owner, repo, [pullNumberArgument(mcpService, tool)]: pr.number })
+
+    const details = await mcpService.callTool<any>(GITHUB_SERVER, GET_PR_TOOL, args(GET_PR_TOOL))
+    const state: PullRequestStatus['state'] = details?.merged || details?.merged_at
+      ? 'merged'
+      : details?.state === 'closed' ? 'closed' : details?.draft ? 'draft' : 'open'
+    const status: PullRequestStatus = { url: pr.url, number: pr.number, state, fetchedAt: new Date() }
+    if (state === 'merged' || state === 'closed') {
+      return status
+    }
+
+    const [reviews, combined] = await Promise.all([
+      mcpService.isAvailable(GITHUB_SERVER, GET_REVIEWS_TOOL)
+        ? mcpService.callTool<any>(GITHUB_SERVER, GET_REVIEWS_TOOL, args(GET_REVIEWS_TOOL))
+        : undefined,
+      mcpService.isAvailable(GITHUB_SERVER, GET_STATUS_TOOL)
+        ? mcpService.callTool<any>(GITHUB_SERVER, GET_STATUS_TOOL, args(GET_STATUS_TOOL))
+        : undefined
+    ])
+
+    const requested = (details?.requested_reviewers || []).length > 0
+    status.reviewDecision = reviews !== undefined ? toReviewDecision(reviews, requested) : undefined
+    status.checks = combined !== undefined ? toChecks(combined) : undefined
+    return status
+  }
+
+  /**
+   * Keep `relatedPRs` in step with GitHub, so a merged or closed pull request no longer counts as open
+   */
+  private async recordStates(sessions: TazzSession[], statuses: PullRequestStatus[]): Promise<void> {
+    const byUrl = new Map(statuses.map(status => [status.url, status.state]))
+    const changed = sessions.filter(session => (session.metadata.github?.relatedPRs || [])
+      .some(pr => byUrl.has(pr.url) && byUrl.get(pr.url) !== pr.status))
+
+    for (const session of changed) {
+      try {
+        await this.sessionStore.updateSession(session.id, latest => {
+          latest.metadata.github?.relatedPRs.forEach(pr => {
+            pr.status = byUrl.get(pr.url) ?? pr.status
+          })
+        })
+      } catch (error) {
+        this.logger.warn('Failed to record pull request state', { sessionId: session.id, error: (error as Error).message })
+      }
+    }
+  }
+
+  /**
+   * The pull request template `tazz make` generated into the git workflow
+   * rules, otherwise the repository's own
+   */
+  private async loadTemplate(worktreePath: string): Promise<string> {
+    const rulesPath = join(getProjectTazzDir(this.projectPath), 'rules', 'git-workflow.json')
+    try {
+      const rules = await pathExists(rulesPath) ? await readJson(rulesPath) : undefined
+      if (typeof rules?.pullRequest?.template === 'string' && rules.pullRequest.template.trim()) {
+        return rules.pullRequest.template
+      }
+    } catch (error) {
+      this.logger.warn('Failed to read git workflow rules', { path: rulesPath, error: (error as Error).message })
+    }
+
+    for (const root of [worktreePath, this.projectPath]) {
+      for (const file of REPOSITORY_TEMPLATES) {
+        if (await pathExists(join(root, file))) {
+          return readFile(join(root, file), 'utf-8')
+        }
+      }
+    }
+    return '## Summary\n'
+  }
+}
+
+/**
+ * The GitHub MCP has called the pull request number both `pullNumber` and `pull_number`
+ */
+export function pullNumberArgument(mcpService: MCPIntegrationService, toolName: string): string {
+  const tool = mcpService.getTools(GITHUB_SERVER).find(t => t.name === toolName)
+  const properties = (tool?.inputSchema as { properties?: Record<string, unknown> } | undefined)?.properties || {}
+  return 'pull_number' in properties ? 'pull_number' : 'pullNumber'
+}
+
+/**
+ * GitHub's review decision from the reviews: each reviewer's latest approval or
+ * change request counts, and a change request outweighs approvals
+ */
+export function toReviewDecision(response: any, reviewersRequested: boolean): PullRequestStatus['reviewDecision'] {
+  const reviews: any[] = Array.isArray(response) ? response : response?.reviews || []
+  const latest = new Map<string, string>()
+  reviews
+    .filter(review => review?.state === 'APPROVED' || review?.state === 'CHANGES_REQUESTED' || review?.state === 'DISMISSED')
+    .forEach(review => latest.set(review.user?.login ?? String(review.id), review.state))
+
+  const states = [...latest.values()]
+  if (states.includes('CHANGES_REQUESTED')) {
+    return 'changes_requested'
+  }
+  if (states.includes('APPROVED')) {
+    return 'approved'
+  }
+  return states.length > 0 || reviewersRequested ? 'review_required' : undefined
+}
+
+/**
+ * Combined commit status of the head commit
+ */
+export function toChecks(response: any): PullRequestStatus['checks'] {
+  const total = response?.total_count ?? (response?.statuses || []).length
+  if (total === 0) {
+    return 'none'
+  }
+  switch (response?.state) {
+    case 'success':
+      return 'success'
+    case 'pending':
+      return 'pending'
+    case 'failure':
+    case 'error':
+      return 'failure'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * `PROJ-12: Summary of the ticket`, else the only commit's subject, else the instance name
+ */
+export function buildTitle(session: TazzSession, commits: string[]): string {
+  const jira = session.metadata.jira
+  if (jira?.title) {
+    const key = jira.key || session.id
+    return jira.title.startsWith(key) ? jira.title : `${key}: ${jira.title}`
+  }
+  if (commits.length === 1) {
+    return commits[0].replace(/^\S+\s+/, '')
+  }
+  const name = session.id.replace(/[-_]+/g, ' ').trim()
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+/**
+ * What the pull request is about: ticket and issue references, tasks,
+ * acceptance criteria and commits
+ */
+export function buildSummary(session: TazzSession, commits: string[], repository: { owner: string; repo: string }): string {
+  const lines: string[] = []
+  const { jira, github } = session.metadata
+
+  if (jira) {
+    const key = jira.key || session.id
+    lines.push(`Jira: ${jira.url ? `[${key}](${jira.url})` : key} ${jira.title}`)
+  }
+  if (github?.issue) {
+    const { owner, repo, number } = github.issue
+    const sameRepo = owner === repository.owner && repo === repository.repo
+    lines.push(`Closes ${sameRepo ? '' : `${owner}/${repo}`}#${number}`)
+  }
+
+  if (session.tasks.length > 0) {
+    lines.push('', '### Tasks')
+    session.tasks.forEach(task => {
+      lines.push(`- [${task.status === TaskStatus.COMPLETED ? 'x' : ' '}] ${task.title} (${task.id})`)
+    })
+  }
+
+  if (jira?.acceptanceCriteria && jira.acceptanceCriteria.length > 0) {
+    lines.push('', '### Acceptance Criteria')
+    jira.acceptanceCriteria.forEach(criterion => lines.push(`- [ ] ${criterion}`))
+  }
+
+  lines.push('', '### Commits')
+  commits.slice(0, MAX_LISTED_COMMITS).forEach(commit => {
+    const [hash, ...subject] = commit.split(' ')
+    lines.push(`- ${subject.join(' ')} (${hash})`)
+  })
+  if (commits.length > MAX_LISTED_COMMITS) {
+    lines.push(`- ...and ${commits.length - MAX_LISTED_COMMITS} more`)
+  }
+
+  return lines.join('\n').trim()
+}
+
+/**
+ * Put the summary in place of the template's Summary section placeholder, or
+ * above the template when it has no Summary section
+ */
+export function fillTemplate(template: string, summary: string): string {
+  const lines = template.replace(/\r\n/g, '\n').trimEnd().split('\n')
+  const start = lines.findIndex(line => /^#{1,3}\s+summary\s*$/i.test(line))
+  if (start < 0) {
+    return `## Summary\n\n${summary}\n\n${lines.join('\n')}\n`
+  }
+
+  const level = lines[start].match(/^#+/)![0].length
+  const next = lines.findIndex((line, i) => i > start && new RegExp(`^#{1,${level}}\\s`).test(line))
+  const end = next < 0 ? lines.length : next
+  // HTML comments are instructions for the author; keep them
+  const comments = lines.slice(start + 1, end).filter(line => /^\s*<!--.*-->\s*$/.test(line))
+
+  return [
+    ...lines.slice(0, start + 1),
+    '',
+    ...comments,
+    summary,
+    ...(end < lines.length ? [''] : []),
+    ...lines.slice(end)
+  ].join('\n') + '\n'
+}
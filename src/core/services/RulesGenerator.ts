@@ -792,7 +792,7 @@ if [[ "$SESSION_ID" =~ ^[A-Z]+-[0-9]+$ ]]; then
     echo "🎫 Fetching Jira ticket: $SESSION_ID"
     
     # Use Atlassian MCP to fetch ticket details
-    TICKET_INFO=$(tazz mcp call atlassian jira_get_issue --issue-key "$SESSION_ID")
+    TICKET_INFO=$(tazz mcp call atlassian jira_get_issue --arg issue_key="$SESSION_ID")
     
     # Extract task information
     TITLE=$(echo "$TICKET_INFO" | jq -r '.fields.summary')
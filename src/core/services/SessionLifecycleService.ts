@@ -0,0 +1,271 @@
+import { Logger } from '../../utils/logger'
+import { getSessionDataDir } from '../../utils/paths'
+import { SessionReconciler, ReconciledSession } from './SessionReconciler'
+import { TaskProcessLauncher, TazzProcess, StopProcessResult } from './TaskProcessLauncher'
+import { TaskScheduler, getReadyTasks } from './TaskScheduler'
+import { TazzSession, SessionStatus, SessionError, AgentInstance, AgentStatus, TaskReference, TaskStatus } from '../types'
+
+export interface StopOptions {
+  /** Instance name or process ID */
+  sessionId?: string
+  /** Every process of an instance */
+  instance?: string
+  all?: boolean
+  /** Milliseconds agents get to exit after C-c */
+  gracePeriod?: number
+}
+
+export interface StoppedProcess {
+  processId: string
+  sessionId?: string
+  result?: StopProcessResult
+  /** Why the process could not be stopped */
+  error?: string
+}
+
+export interface StopResult {
+  processes: StoppedProcess[]
+  /** Sessions the stopped processes belong to, as updated */
+  sessions: TazzSession[]
+}
+
+export interface ResumeResult {
+  session: TazzSession
+  /** Every restorable process was still running, so nothing was done */
+  alreadyRunning: boolean
+  /** Restored processes followed by newly started tasks */
+  restored: TazzProcess[]
+  /** Processes that could not be relaunched */
+  failed?: string[]
+}
+
+interface StopTarget {
+  processId: string
+  sessionId?: string
+}
+
+/**
+ * Stops and resumes the processes of a session while keeping its worktree.
+ * `tazz daemon` runs these for the CLI so they never race its agent monitor.
+ */
+export class SessionLifecycleService {
+  private logger: Logger
+  private reconciler: SessionReconciler
+  private launcher: TaskProcessLauncher
+  private scheduler: TaskScheduler
+  private projectPath: string
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.reconciler = new SessionReconciler(logger, projectPath)
+    this.launcher = new TaskProcessLauncher(logger, projectPath)
+    this.scheduler = new TaskScheduler(logger, projectPath)
+    this.projectPath = projectPath
+  }
+
+  /**
+   * Stop the matching processes, marking their agents STOPPED and their
+   * sessions STOPPED once nothing is left running
+   */
+  async stop(options: StopOptions): Promise<StopResult> {
+    const label = options.all ? 'all sessions' : options.instance || options.sessionId
+    if (!options.all && !options.instance && !options.sessionId) {
+      throw new SessionError('Specify a session ID, --instance <name> or --all')
+    }
+
+    const { sessions, untrackedProcesses } = await this.reconciler.reconcile()
+    const { matched, targets } = resolveStopTargets(sessions, untrackedProcesses.map(p => p.processId), options)
+    if (matched.length === 0 && targets.length === 0) {
+      throw new SessionError(`Session ${label} not found`, { sessionId: label })
+    }
+
+    const results = await Promise.allSettled(
+      targets.map(target =>
+        this.launcher.stopProcess(
+          target.processId,
+          getSessionDataDir(this.projectPath, target.sessionId || target.processId),
+          options.gracePeriod
+        )
+      )
+    )
+    const processes: StoppedProcess[] = targets.map((target, i) => {
+      const result = results[i]
+      return result.status === 'fulfilled'
+        ? { ...target, result: result.value }
+        : { ...target, error: (result.reason as Error).message }
+    })
+
+    const stoppedIds = new Set(processes.filter(p => p.result).map(p => p.processId))
+    const updated: TazzSession[] = []
+    for (const { session } of matched) {
+      updated.push(await this.reconciler.getStore().updateSession(session.id, latest => {
+        for (const agent of latest.agents) {
+          if (stoppedIds.has(agent.id)) {
+            agent.status = AgentStatus.STOPPED
+            agent.lastActivity = new Date()
+          }
+        }
+        if (latest.agents.every(agent => agent.status !== AgentStatus.RUNNING && agent.status !== AgentStatus.STARTING)) {
+          latest.status = SessionStatus.STOPPED
+        }
+        latest.lastActive = new Date()
+      }))
+    }
+
+    this.logger.info('Processes stopped', { target: label, stopped: [...stoppedIds] })
+    return { processes, sessions: updated }
+  }
+
+  /**
+   * Relaunch the stopped processes of a session (not those of completed
+   * tasks) in its existing worktree, then start tasks that became ready
+   */
+  async resume(sessionId: string): Promise<ResumeResult> {
+    const { sessions } = await this.reconciler.reconcile()
+    const current = sessions.find(({ session }) =>
+      session.id === sessionId || session.agents.some(agent => agent.id === sessionId)
+    )
+    if (!current) {
+      throw new SessionError(`Session ${sessionId} not found`, { sessionId })
+    }
+
+    const { session } = current
+    if (!current.worktreeExists) {
+      throw new SessionError(`Worktree for session ${session.id} no longer exists: ${session.worktreePath}`, {
+        sessionId: session.id
+      })
+    }
+
+    // Processes of completed tasks stay stopped
+    const liveIds = new Set(current.liveProcesses.map(p => p.processId))
+    const completedAgents = new Set(
+      session.tasks.filter(task => task.status === TaskStatus.COMPLETED).map(task => task.assignedAgent)
+    )
+    const restorable = session.agents.filter(agent => !completedAgents.has(agent.id))
+    const toRestore = restorable.filter(agent => !liveIds.has(agent.id))
+    const queued = getReadyTasks(session.tasks).length > 0
+
+    if (restorable.length > 0 && toRestore.length === 0 && !queued) {
+      return { session, alreadyRunning: true, restored: [] }
+    }
+
+    const { restored, failed } = await this.restoreProcesses(session.id, session.worktreePath, toRestore, session.tasks)
+    if (restored.length > 0) {
+      await this.reconciler.getStore().updateSession(session.id, latest => {
+        for (const proc of restored) {
+          const agent = this.launcher.createAgentInstance(proc)
+          const index = latest.agents.findIndex(a => a.id === agent.id)
+          if (index >= 0) {
+            latest.agents[index] = { ...latest.agents[index], ...agent }
+          } else {
+            latest.agents.push(agent)
+          }
+        }
+        latest.status = SessionStatus.ACTIVE
+        latest.lastActive = new Date()
+      })
+      await this.scheduler.confirmAgents(session.id, restored)
+    }
+
+    // Task sessions may also have queued tasks whose dependencies finished meanwhile
+    if (session.tasks.length > 0) {
+      const { started } = await this.scheduler.schedule(session.id)
+      restored.push(...started)
+    }
+
+    if (restored.length === 0 && failed.length > 0) {
+      throw new SessionError(`Failed to restore any process of session ${session.id}`, {
+        sessionId: session.id,
+        failed: failed.map(f => f.processId)
+      }, failed[0].error)
+    }
+
+    this.logger.info('Session resumed', {
+      sessionId: session.id,
+      processes: restored.map(p => p.processId),
+      failed: failed.map(f => f.processId)
+    })
+    return { session, alreadyRunning: false, restored, failed: failed.map(f => f.processId) }
+  }
+
+  /**
+   * Relaunch `agents`; one failed launch does not undo the others, so what did
+   * start is returned alongside the failures
+   */
+  private async restoreProcesses(
+    sessionId: string,
+    worktreePath: string,
+    agents: AgentInstance[],
+    tasks: TaskReference[]
+  ): Promise<{ restored: TazzProcess[]; failed: { processId: string; error: Error }[] }> {
+    // Sessions recorded without agents or tasks get the single main process back
+    if (agents.length === 0 && tasks.length === 0) {
+      const main = await this.launcher.launchMainProcess(sessionId, worktreePath, 'Resumed development session')
+      return { restored: [main], failed: [] }
+    }
+
+    const results = await Promise.allSettled(
+      agents.map(agent => {
+        const task = tasks.find(t => t.assignedAgent === agent.id)
+        return task
+          ? this.launcher.launchTaskProcess(agent.id, task.worktreePath || worktreePath, task)
+          : this.launcher.launchMainProcess(agent.id, worktreePath, agent.name)
+      })
+    )
+
+    const restored: TazzProcess[] = []
+    const failed: { processId: string; error: Error }[] = []
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        restored.push(result.value)
+      } else {
+        this.logger.error('Failed to restore process', result.reason as Error, { processId: agents[i].id })
+        failed.push({ processId: agents[i].id, error: result.reason as Error })
+      }
+    })
+    return { restored, failed }
+  }
+}
+
+/**
+ * Work out which sessions and live tmux processes the stop options refer to
+ */
+function resolveStopTargets(
+  sessions: ReconciledSession[],
+  untrackedIds: string[],
+  options: StopOptions
+): { matched: ReconciledSession[]; targets: StopTarget[] } {
+  if (options.all) {
+    return {
+      matched: sessions,
+      targets: [
+        ...sessions.flatMap(s => s.liveProcesses.map(p => ({ processId: p.processId, sessionId: s.session.id }))),
+        ...untrackedIds.map(processId => ({ processId }))
+      ]
+    }
+  }
+
+  const instance = options.instance || options.sessionId!
+  const session = sessions.find(s => s.session.id === instance)
+
+  // A single task process of an instance
+  if (!options.instance && !session) {
+    const owner = sessions.find(s => s.session.agents.some(agent => agent.id === instance))
+    if (owner) {
+      const live = owner.liveProcesses.some(p => p.processId === instance)
+      return { matched: [owner], targets: live ? [{ processId: instance, sessionId: owner.session.id }] : [] }
+    }
+    return { matched: [], targets: untrackedIds.includes(instance) ? [{ processId: instance }] : [] }
+  }
+
+  // Every <instance>_<task> process, including ones the store lost track of
+  return {
+    matched: session ? [session] : [],
+    targets: [
+      ...(session?.liveProcesses.map(p => ({ processId: p.processId, sessionId: instance })) || []),
+      ...untrackedIds
+        .filter(id => id === instance || id.startsWith(`${instance}_`))
+        .map(processId => ({ processId, sessionId: instance }))
+    ]
+  }
+}
@@ -0,0 +1,168 @@
+import { pathExists } from 'fs-extra'
+import { resolve, sep } from 'path'
+import { SessionStore } from '../storage/SessionStore'
+import { Logger } from '../../utils/logger'
+import { listTazzTmuxSessions, TmuxProcess } from '../../utils/tmux'
+import { listWorktrees } from '../../utils/git'
+import { TazzSession, AgentInstance, AgentStatus, SessionStatus } from '../types'
+
+export interface ReconciledSession {
+  session: TazzSession
+  liveProcesses: TmuxProcess[]
+  worktreeExists: boolean
+}
+
+export interface ReconcileResult {
+  sessions: ReconciledSession[]
+  /** Tazz tmux sessions running in one of this project's worktrees but missing from the store */
+  untrackedProcesses: TmuxProcess[]
+}
+
+export interface ProcessLookup {
+  session: TazzSession
+  agent?: AgentInstance
+  /** Live tmux process for the agent, or the first live one when looked up by instance */
+  live?: TmuxProcess
+}
+
+/**
+ * Keeps the session store in line with what is actually running:
+ * tmux sessions that died mark their agents STOPPED, sessions whose
+ * worktree vanished are marked FAILED.
+ */
+export class SessionReconciler {
+  private sessionStore: SessionStore
+  private logger: Logger
+  private projectPath: string
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.sessionStore = new SessionStore(projectPath)
+    this.logger = logger
+    this.projectPath = projectPath
+  }
+
+  getStore(): SessionStore {
+    return this.sessionStore
+  }
+
+  /**
+   * Compare stored sessions with live tmux/git state and persist any changes
+   */
+  async reconcile(): Promise<ReconcileResult> {
+    const [sessions, tmuxProcesses] = await Promise.all([
+      this.sessionStore.getAllSessions(),
+      listTazzTmuxSessions()
+    ])
+
+    const liveById = new Map(tmuxProcesses.map(p => [p.processId, p]))
+    const trackedIds = new Set<string>()
+    const reconciled: ReconciledSession[] = []
+
+    for (const stored of sessions) {
+      const worktreeExists = await pathExists(stored.worktreePath)
+      let session = stored
+
+      trackedIds.add(session.id)
+      session.agents.forEach(agent => trackedIds.add(agent.id))
+
+      if (this.applyLiveState(structuredClone(session), liveById, worktreeExists)) {
+        // Re-apply against the locked, freshest copy so concurrent writers aren't clobbered
+        session = await this.sessionStore.updateSession(session.id, latest => {
+          this.applyLiveState(latest, liveById, worktreeExists)
+        })
+      }
+
+      const liveProcesses = session.agents
+        .map(agent => liveById.get(agent.id))
+        .filter((p): p is TmuxProcess => p !== undefined)
+
+      reconciled.push({ session, liveProcesses, worktreeExists })
+    }
+
+    return {
+      sessions: reconciled,
+      untrackedProcesses: await this.findUntrackedProcesses(tmuxProcesses, trackedIds)
+    }
+  }
+
+  /**
+   * Resolve a process ID (instance or instance_task) to its stored session
+   */
+  async findProcess(processId: string): Promise<ProcessLookup | null> {
+    const { sessions } = await this.reconcile()
+
+    for (const { session, liveProcesses } of sessions) {
+      const agent = session.agents.find(a => a.id === processId)
+      if (agent || session.id === processId) {
+        const live = agent
+          ? liveProcesses.find(p => p.processId === agent.id)
+          : liveProcesses[0]
+        return { session, agent, live }
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Update agent and session status from live state; returns whether anything changed
+   */
+  private applyLiveState(session: TazzSession, liveById: Map<string, TmuxProcess>, worktreeExists: boolean): boolean {
+    let changed = false
+    let hasLiveProcesses = false
+
+    for (const agent of session.agents) {
+      if (liveById.has(agent.id)) {
+        // A crashed agent's pane may linger; it does not keep the session active
+        hasLiveProcesses = hasLiveProcesses || agent.status !== AgentStatus.ERROR
+        if (agent.status === AgentStatus.STOPPED) {
+          agent.status = AgentStatus.RUNNING
+          agent.lastActivity = new Date()
+          changed = true
+        }
+      } else if (agent.status === AgentStatus.RUNNING || agent.status === AgentStatus.STARTING) {
+        agent.status = AgentStatus.STOPPED
+        agent.lastActivity = new Date()
+        changed = true
+      }
+    }
+
+    const nextStatus = this.deriveStatus(session, hasLiveProcesses, worktreeExists)
+    if (nextStatus !== session.status) {
+      this.logger.debug('Session status reconciled', {
+        sessionId: session.id,
+        from: session.status,
+        to: nextStatus
+      })
+      session.status = nextStatus
+      changed = true
+    }
+
+    return changed
+  }
+
+  private deriveStatus(session: TazzSession, hasLiveProcesses: boolean, worktreeExists: boolean): SessionStatus {
+    if (!worktreeExists) {
+      return SessionStatus.FAILED
+    }
+    if (hasLiveProcesses) {
+      return SessionStatus.ACTIVE
+    }
+    if (session.status === SessionStatus.ACTIVE) {
+      return SessionStatus.STOPPED
+    }
+    return session.status
+  }
+
+  private async findUntrackedProcesses(processes: TmuxProcess[], trackedIds: Set<string>): Promise<TmuxProcess[]> {
+    const worktreePaths = (await listWorktrees(this.projectPath)).map(w => w.path)
+
+    // tmux sessions are global, so only claim the ones running inside this project's worktrees
+    return processes
+      .filter(p => !trackedIds.has(p.processId))
+      .filter(p => {
+        const processPath = resolve(p.path || '/')
+        return worktreePaths.some(w => processPath === w || processPath.startsWith(w + sep))
+      })
+  }
+}
@@ -0,0 +1,203 @@
+import { pathExists } from 'fs-extra'
+import { Logger } from '../../utils/logger'
+import { getTmuxSessionName, killTmuxSession } from '../../utils/tmux'
+import {
+  getDefaultBranch,
+  branchExists,
+  getUncommittedChanges,
+  getUnpushedCommits,
+  isBranchMerged,
+  removeWorktree,
+  deleteBranch
+} from '../../utils/git'
+import { SessionStore } from '../storage/SessionStore'
+import { TazzSession } from '../types'
+
+export interface TeardownOptions {
+  /** Remove the git worktree and drop the session record */
+  worktree?: boolean
+  /** Delete the branch when it is fully merged into the default branch (with `force`, even when it is not) */
+  branch?: boolean
+  /** Proceed even when uncommitted changes or unpushed commits would be lost */
+  force?: boolean
+}
+
+export interface TaskWorktreePlan {
+  taskId: string
+  path: string
+  branch: string
+  exists: boolean
+  /** Task branches merged into the instance branch are deleted with the worktree */
+  merged: boolean
+  uncommitted: string[]
+}
+
+export interface TeardownPlan {
+  session: TazzSession
+  processes: string[]
+  removeWorktree: boolean
+  worktreeExists: boolean
+  /** The branch will be deleted: it is merged, or `force` was given */
+  deleteBranch: boolean
+  /** Why a requested branch deletion will not happen */
+  branchKeptReason?: string
+  defaultBranch: string
+  branchMerged: boolean
+  /** `git status --porcelain` lines that removing the worktree would discard */
+  uncommitted: string[]
+  /** Commits reachable only from the session branch; only checked when it is deleted unmerged */
+  unpushed: string[]
+  /** Worktrees of isolated tasks, removed together with the instance worktree */
+  taskWorktrees: TaskWorktreePlan[]
+}
+
+export interface TeardownResult {
+  sessionId: string
+  killedProcesses: string[]
+  worktreeRemoved: boolean
+  branchDeleted: boolean
+  recordRemoved: boolean
+  /** Why the branch was kept, if it was requested but not deleted */
+  branchKeptReason?: string
+  removedTaskWorktrees: string[]
+  deletedTaskBranches: string[]
+  /** Unmerged task branches, kept so their commits are not lost */
+  keptTaskBranches: string[]
+}
+
+/**
+ * Tears a session down: tmux processes, then optionally its worktree,
+ * merged branch and session record
+ */
+export class SessionTeardownService {
+  private logger: Logger
+  private sessionStore: SessionStore
+  private projectPath: string
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.sessionStore = new SessionStore(projectPath)
+    this.projectPath = projectPath
+  }
+
+  /**
+   * Work out what a teardown would do and what work it would destroy
+   */
+  async plan(session: TazzSession, liveProcesses: string[], options: TeardownOptions): Promise<TeardownPlan> {
+    const worktreeExists = await pathExists(session.worktreePath)
+    const defaultBranch = await getDefaultBranch(this.projectPath)
+    const hasBranch = await branchExists(session.branch, this.projectPath)
+    const branchMerged = hasBranch && await isBranchMerged(session.branch, defaultBranch, this.projectPath)
+    const keepUnmerged = !!options.branch && hasBranch && !branchMerged && !options.force
+
+    const plan: TeardownPlan = {
+      session,
+      processes: liveProcesses,
+      removeWorktree: !!options.worktree,
+      worktreeExists,
+      deleteBranch: !!options.branch && hasBranch && !keepUnmerged,
+      ...(keepUnmerged ? { branchKeptReason: `not merged into ${defaultBranch}` } : {}),
+      defaultBranch,
+      branchMerged,
+      uncommitted: [],
+      unpushed: [],
+      taskWorktrees: []
+    }
+
+    if (plan.removeWorktree && worktreeExists) {
+      plan.uncommitted = await getUncommittedChanges(session.worktreePath)
+    }
+    // Commits are only lost with an unmerged branch that is deleted anyway
+    if (plan.deleteBranch && !branchMerged) {
+      plan.unpushed = await getUnpushedCommits(session.branch, defaultBranch, this.projectPath)
+    }
+    if (plan.removeWorktree) {
+      plan.taskWorktrees = await this.planTaskWorktrees(session, hasBranch)
+    }
+
+    return plan
+  }
+
+  /**
+   * Whether the plan would lose work and therefore needs --force
+   */
+  isDestructive(plan: TeardownPlan): boolean {
+    return plan.uncommitted.length > 0 ||
+      plan.unpushed.length > 0 ||
+      plan.taskWorktrees.some(task => task.uncommitted.length > 0)
+  }
+
+  async execute(plan: TeardownPlan, options: TeardownOptions): Promise<TeardownResult> {
+    const { session } = plan
+    const result: TeardownResult = {
+      sessionId: session.id,
+      killedProcesses: [],
+      worktreeRemoved: false,
+      branchDeleted: false,
+      recordRemoved: false,
+      removedTaskWorktrees: [],
+      deletedTaskBranches: [],
+      keptTaskBranches: []
+    }
+
+    for (const processId of plan.processes) {
+      await killTmuxSession(getTmuxSessionName(processId))
+      result.killedProcesses.push(processId)
+    }
+
+    if (!plan.removeWorktree) {
+      return result
+    }
+
+    for (const task of plan.taskWorktrees) {
+      if (task.exists) {
+        await removeWorktree(task.path, !!options.force, this.projectPath)
+        result.removedTaskWorktrees.push(task.path)
+      }
+      if (task.merged) {
+        await deleteBranch(task.branch, this.projectPath)
+        result.deletedTaskBranches.push(task.branch)
+      } else if (await branchExists(task.branch, this.projectPath)) {
+        result.keptTaskBranches.push(task.branch)
+      }
+    }
+
+    if (plan.worktreeExists) {
+      await removeWorktree(session.worktreePath, !!options.force, this.projectPath)
+      result.worktreeRemoved = true
+    }
+
+    if (plan.deleteBranch) {
+      await deleteBranch(session.branch, this.projectPath)
+      result.branchDeleted = true
+    } else if (plan.branchKeptReason) {
+      result.branchKeptReason = plan.branchKeptReason
+    }
+
+    await this.sessionStore.removeSession(session.id)
+    result.recordRemoved = true
+
+    this.logger.info('Session torn down', { ...result })
+    return result
+  }
+
+  private async planTaskWorktrees(session: TazzSession, hasBranch: boolean): Promise<TaskWorktreePlan[]> {
+    const isolated = session.tasks.filter(task => task.branch && task.worktreePath)
+
+    return Promise.all(isolated.map(async task => {
+      const branch = task.branch!
+      const path = task.worktreePath!
+      const exists = await pathExists(path)
+      const hasTaskBranch = await branchExists(branch, this.projectPath)
+
+      return {
+        taskId: task.id,
+        path,
+        branch,
+        exists,
+        merged: hasTaskBranch && hasBranch && await isBranchMerged(branch, session.branch, this.projectPath),
+        uncommitted: exists ? await getUncommittedChanges(path) : []
+      }
+    }))
+  }
+}
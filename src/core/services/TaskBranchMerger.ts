@@ -0,0 +1,135 @@
+import { pathExists } from 'fs-extra'
+import { Logger } from '../../utils/logger'
+import {
+  branchExists,
+  getUncommittedChanges,
+  getCommitsBetween,
+  mergeBranch,
+  rebaseBranch
+} from '../../utils/git'
+import { SessionStore } from '../storage/SessionStore'
+import { sortTasksByDependencies } from './TaskScheduler'
+import { TaskReference, TaskStatus, SessionError } from '../types'
+
+export interface TaskMergeOptions {
+  /** Rebase each task branch onto the instance branch and fast-forward, instead of a merge commit */
+  rebase?: boolean
+  /** Also merge tasks that are not COMPLETED yet */
+  all?: boolean
+}
+
+export interface TaskMergeResult {
+  task: TaskReference
+  status: 'merged' | 'up-to-date' | 'conflict' | 'skipped' | 'failed'
+  /** Task branch commits that were not yet in the instance branch */
+  commits: string[]
+  conflicts: string[]
+  reason?: string
+}
+
+/**
+ * Brings the branches of isolated tasks back into their instance branch,
+ * in dependency order, one task at a time
+ */
+export class TaskBranchMerger {
+  private logger: Logger
+  private sessionStore: SessionStore
+  private projectPath: string
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.sessionStore = new SessionStore(projectPath)
+    this.projectPath = projectPath
+  }
+
+  /**
+   * Merge every task branch of a session. A task whose merge conflicts is
+   * aborted and reported, and tasks depending on it are skipped.
+   */
+  async merge(sessionId: string, options: TaskMergeOptions = {}): Promise<TaskMergeResult[]> {
+    const session = await this.sessionStore.getSession(sessionId)
+    if (!session) {
+      throw new SessionError(`Session ${sessionId} not found`, { sessionId })
+    }
+    if (!await pathExists(session.worktreePath)) {
+      throw new SessionError(`Worktree for session ${sessionId} no longer exists: ${session.worktreePath}`, {
+        sessionId,
+        worktreePath: session.worktreePath
+      })
+    }
+    if ((await getUncommittedChanges(session.worktreePath)).length > 0) {
+      throw new SessionError(`Instance worktree has uncommitted changes, commit or stash them first: ${session.worktreePath}`, {
+        sessionId,
+        worktreePath: session.worktreePath
+      })
+    }
+
+    const notMerged = new Set<string>()
+    const results: TaskMergeResult[] = []
+
+    for (const task of sortTasksByDependencies(session.tasks).filter(t => t.branch)) {
+      const result = await this.mergeTask(session.branch, session.worktreePath, task, notMerged, options)
+      if (result.status !== 'merged' && result.status !== 'up-to-date') {
+        notMerged.add(task.id)
+      }
+      results.push(result)
+    }
+
+    this.logger.info('Task branches merged', {
+      sessionId,
+      rebase: !!options.rebase,
+      results: results.map(r => ({ task: r.task.id, status: r.status, commits: r.commits.length }))
+    })
+    return results
+  }
+
+  private async mergeTask(
+    instanceBranch: string,
+    instanceWorktree: string,
+    task: TaskReference,
+    notMerged: Set<string>,
+    options: TaskMergeOptions
+  ): Promise<TaskMergeResult> {
+    const branch = task.branch!
+    const result: TaskMergeResult = { task, status: 'skipped', commits: [], conflicts: [] }
+
+    const blockedBy = task.dependencies.find(dep => notMerged.has(dep))
+    if (blockedBy) {
+      return { ...result, reason: `depends on ${blockedBy}, which was not merged` }
+    }
+    if (!options.all && task.status !== TaskStatus.COMPLETED) {
+      return { ...result, reason: `task is ${task.status} (use --all to merge it anyway)` }
+    }
+    if (!await branchExists(branch, this.projectPath)) {
+      return { ...result, reason: `branch ${branch} no longer exists` }
+    }
+
+    try {
+      result.commits = await getCommitsBetween(instanceBranch, branch, this.projectPath)
+      if (result.commits.length === 0) {
+        return { ...result, status: 'up-to-date' }
+      }
+
+      if (options.rebase) {
+        const worktreePath = task.worktreePath
+        if (!worktreePath || !await pathExists(worktreePath)) {
+          return { ...result, reason: `task worktree no longer exists, cannot rebase ${branch}` }
+        }
+        if ((await getUncommittedChanges(worktreePath)).length > 0) {
+          return { ...result, reason: `uncommitted changes in ${worktreePath}` }
+        }
+        result.conflicts = await rebaseBranch(instanceBranch, worktreePath)
+        if (result.conflicts.length === 0) {
+          result.conflicts = await mergeBranch(branch, instanceWorktree, { fastForwardOnly: true })
+        }
+      } else {
+        result.conflicts = await mergeBranch(branch, instanceWorktree, { message: `Merge task ${task.id}: ${task.title}` })
+      }
+
+      return { ...result, status: result.conflicts.length > 0 ? 'conflict' : 'merged' }
+    } catch (error) {
+      this.logger.error('Task branch merge failed', error as Error, { taskId: task.id, branch })
+      return { ...result, status: 'failed', reason: (error as Error).message.trim() }
+    }
+  }
+}
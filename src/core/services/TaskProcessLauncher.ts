@@ -0,0 +1,342 @@
+import { execa } from 'execa'
+import { ensureDir, writeFile } from 'fs-extra'
+import { join } from 'path'
+import { Logger } from '../../utils/logger'
+import { ensureExcluded } from '../../utils/git'
+import {
+  getTmuxSessionName,
+  hasTmuxSession,
+  killTmuxSession,
+  listPanes,
+  sendInterrupt,
+  capturePane
+} from '../../utils/tmux'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { TaskReference, AgentInstance, AgentConfig, AgentType, AgentStatus, SessionError, AgentError } from '../types'
+
+export interface LaunchedAgent {
+  /** Key of the agent in the project config's `agents` */
+  name: string
+  type: AgentType
+  /** PID of the pane's shell the agent runs under */
+  pid?: number
+  promptFile: string
+}
+
+export interface TazzProcess {
+  processId: string
+  tmuxSession: string
+  task?: TaskReference
+  agent?: LaunchedAgent
+}
+
+export interface ProcessState {
+  /** The pane and the shell it runs are still alive */
+  paneAlive: boolean
+  /** Something other than the shell is in the foreground (the agent) */
+  agentRunning: boolean
+  /** PID of the pane's shell */
+  pid?: number
+  lastOutput?: Date
+}
+
+export interface StopProcessResult {
+  processId: string
+  /** Where the final pane scrollback was written, if the process was still running */
+  capturePath?: string
+  /** True when the agent had to be killed because it ignored C-c */
+  forced: boolean
+}
+
+const SHELL_COMMANDS = ['bash', 'zsh', 'sh', 'fish', 'dash', 'ksh', 'tcsh']
+
+/** Prompt files live in the worktree, excluded from git so they never count as changes */
+const PROMPT_DIR = join('.tazz', 'prompts')
+
+/**
+ * Creates and tears down the detached tmux session backing a single Tazz
+ * process (one per task, or a single main session when there are no tasks)
+ */
+export class TaskProcessLauncher {
+  private logger: Logger
+  private configStore: ProjectConfigStore
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.configStore = new ProjectConfigStore(projectPath)
+  }
+
+  /**
+   * Start a tmux session for a task, write the task prompt into the worktree
+   * and start the task's agent on it
+   */
+  async launchTaskProcess(processId: string, worktreePath: string, task: TaskReference): Promise<TazzProcess> {
+    const { name, config } = await this.resolveAgent(task.agent)
+    const promptFile = await this.writePrompt(processId, worktreePath, task)
+    const tmuxSession = await this.createTmuxSession(processId, worktreePath, config.env)
+
+    await this.sendLines(tmuxSession, [
+      'clear',
+      // Names and titles come from the user, the task file or a tracker and are typed into a shell
+      `echo ${shellQuote(`🚀 Tazz Process: ${processId}`)}`,
+      `echo ${shellQuote(`📝 Task: ${task.title}`)}`,
+      `echo ${shellQuote(`🤖 Agent: ${name} (prompt: ${PROMPT_DIR}/${processId}.md)`)}`,
+      'echo ""',
+      buildAgentCommand(name, config, promptFile)
+    ])
+
+    const [pane] = await listPanes(tmuxSession)
+    const agent: LaunchedAgent = {
+      name,
+      type: name === 'claude' ? AgentType.CLAUDE : AgentType.CUSTOM,
+      pid: pane?.pid,
+      promptFile
+    }
+
+    this.logger.info('Task process launched', { processId, tmuxSession, taskId: task.id, agent: name, pid: agent.pid })
+    return { processId, tmuxSession, task, agent }
+  }
+
+  /**
+   * Start the single main tmux session used when an instance has no tasks
+   */
+  async launchMainProcess(processId: string, worktreePath: string, description?: string): Promise<TazzProcess> {
+    const tmuxSession = await this.createTmuxSession(processId, worktreePath)
+
+    await this.sendLines(tmuxSession, [
+      'clear',
+      `echo ${shellQuote(`🚀 Tazz Session: ${processId}`)}`,
+      'echo "📂 Working directory: $(pwd)"',
+      ...(description ? [`echo ${shellQuote(`💡 Context: ${description}`)}`] : []),
+      'echo "📝 Edit tasks: tazz note"',
+      'echo ""'
+    ])
+
+    this.logger.info('Main process launched', { processId, tmuxSession })
+    return { processId, tmuxSession }
+  }
+
+  /**
+   * Build the AgentInstance record for a launched process
+   */
+  createAgentInstance(proc: TazzProcess): AgentInstance {
+    return {
+      id: proc.processId,
+      name: proc.task?.title || 'Main development session',
+      type: proc.agent?.type || AgentType.CLAUDE,
+      // Agent processes start out STARTING until waitForAgent sees them running
+      status: proc.agent ? AgentStatus.STARTING : AgentStatus.RUNNING,
+      pid: proc.agent?.pid,
+      tmuxPane: `${proc.tmuxSession}:0.0`,
+      lastActivity: new Date(),
+      capabilities: ['code-generation', 'file-modification', 'testing']
+    }
+  }
+
+  /**
+   * Wait until the agent has taken over its pane (the foreground command is no
+   * longer the shell). Returns false if it did not within `timeout`.
+   */
+  async waitForAgent(proc: TazzProcess, timeout: number = 10000): Promise<boolean> {
+    const deadline = Date.now() + timeout
+
+    while (Date.now() < deadline) {
+      try {
+        const panes = await listPanes(proc.tmuxSession)
+        if (panes.some(p => !p.dead && !SHELL_COMMANDS.includes(p.currentCommand))) {
+          return true
+        }
+      } catch {
+        return false
+      }
+      await new Promise(resolve => setTimeout(resolve, 250))
+    }
+
+    this.logger.warn('Agent did not start', { processId: proc.processId, agent: proc.agent?.name, timeout })
+    return false
+  }
+
+  /**
+   * Look at a process's first pane; undefined when its tmux session is gone
+   */
+  async inspectProcess(processId: string): Promise<ProcessState | undefined> {
+    const tmuxSession = getTmuxSessionName(processId)
+    if (!await hasTmuxSession(tmuxSession)) {
+      return undefined
+    }
+
+    const [pane] = await listPanes(tmuxSession).catch(() => [])
+    if (!pane) {
+      return undefined
+    }
+
+    const paneAlive = !pane.dead && isProcessAlive(pane.pid)
+    return {
+      paneAlive,
+      agentRunning: paneAlive && !SHELL_COMMANDS.includes(pane.currentCommand),
+      pid: pane.pid,
+      lastOutput: pane.lastActivity
+    }
+  }
+
+  /**
+   * Gracefully stop a process: interrupt its agents with C-c, wait for them to
+   * return to the shell, capture the final scrollback, then kill the tmux session
+   */
+  async stopProcess(processId: string, captureDir: string, gracePeriod: number = 5000): Promise<StopProcessResult> {
+    const tmuxSession = getTmuxSessionName(processId)
+
+    if (!await hasTmuxSession(tmuxSession)) {
+      return { processId, forced: false }
+    }
+
+    const panes = await listPanes(tmuxSession)
+    await Promise.all(panes.filter(p => !p.dead).map(p => sendInterrupt(p.paneId)))
+
+    const exited = await this.waitForShells(tmuxSession, gracePeriod)
+    if (!exited) {
+      this.logger.warn('Agent did not exit after interrupt, killing', { processId, gracePeriod })
+    }
+
+    const capturePath = await this.captureScrollback(tmuxSession, processId, captureDir)
+    await killTmuxSession(tmuxSession)
+
+    this.logger.info('Process stopped', { processId, tmuxSession, capturePath, forced: !exited })
+    return { processId, capturePath, forced: !exited }
+  }
+
+  private async waitForShells(tmuxSession: string, gracePeriod: number): Promise<boolean> {
+    const deadline = Date.now() + gracePeriod
+
+    while (Date.now() < deadline) {
+      try {
+        const panes = await listPanes(tmuxSession)
+        if (panes.every(p => p.dead || SHELL_COMMANDS.includes(p.currentCommand))) {
+          return true
+        }
+      } catch {
+        // Session went away on its own
+        return true
+      }
+      await new Promise(resolve => setTimeout(resolve, 250))
+    }
+
+    return false
+  }
+
+  private async captureScrollback(tmuxSession: string, processId: string, captureDir: string): Promise<string | undefined> {
+    try {
+      const panes = await listPanes(tmuxSession)
+      const sections = await Promise.all(
+        panes.map(async pane => `===== ${tmuxSession} ${pane.paneId} =====\n${await capturePane(pane.paneId)}`)
+      )
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+      const capturePath = join(captureDir, `${processId}-${timestamp}.log`)
+      await ensureDir(captureDir)
+      await writeFile(capturePath, sections.join('\n'))
+      return capturePath
+    } catch (error) {
+      this.logger.warn('Failed to capture pane scrollback', { processId, error: (error as Error).message })
+      return undefined
+    }
+  }
+
+  private async resolveAgent(requested?: string): Promise<{ name: string; config: AgentConfig }> {
+    const { settings, agents } = await this.configStore.load()
+    const name = requested || settings.defaultAgent
+    const config = agents[name]
+
+    if (!config) {
+      throw new AgentError(`Agent "${name}" is not configured; add it to "agents" in ${this.configStore.getConfigPath()}`, {
+        agent: name,
+        available: Object.keys(agents)
+      })
+    }
+    if (!config.enabled) {
+      throw new AgentError(`Agent "${name}" is disabled`, { agent: name })
+    }
+    return { name, config }
+  }
+
+  private async writePrompt(processId: string, worktreePath: string, task: TaskReference): Promise<string> {
+    const promptFile = join(worktreePath, PROMPT_DIR, `${processId}.md`)
+    await ensureDir(join(worktreePath, PROMPT_DIR))
+    await writeFile(promptFile, buildTaskPrompt(processId, task))
+
+    try {
+      await ensureExcluded(`/${PROMPT_DIR}/`, worktreePath)
+    } catch (error) {
+      this.logger.warn('Could not exclude prompt files from git', { worktreePath, error: (error as Error).message })
+    }
+    return promptFile
+  }
+
+  private async createTmuxSession(processId: string, worktreePath: string, env: Record<string, string> = {}): Promise<string> {
+    const tmuxSession = getTmuxSessionName(processId)
+    const envArgs = Object.entries(env).flatMap(([key, value]) => ['-e', `${key}=${value}`])
+
+    try {
+      await execa('tmux', ['new-session', '-d', '-s', tmuxSession, '-c', worktreePath, ...envArgs])
+      return tmuxSession
+    } catch (error) {
+      throw new SessionError(`Failed to create tmux session: ${tmuxSession}`, {
+        processId,
+        worktreePath
+      }, error as Error)
+    }
+  }
+
+  private async sendLines(tmuxSession: string, lines: string[]): Promise<void> {
+    for (const line of lines) {
+      await execa('tmux', ['send-keys', '-t', tmuxSession, line, 'Enter'])
+    }
+  }
+}
+
+/**
+ * The prompt handed to a task's agent
+ */
+function buildTaskPrompt(processId: string, task: TaskReference): string {
+  return [
+    `# ${task.title}`,
+    '',
+    task.description || `Work on: ${task.title}`,
+    '',
+    '## Context',
+    `- Tazz process: ${processId}`,
+    ...(task.dependencies.length > 0 ? [`- Builds on completed tasks: ${task.dependencies.join(', ')}`] : []),
+    ...(task.estimatedTime ? [`- Estimate: ${task.estimatedTime} minutes`] : []),
+    '',
+    `When the task is finished, commit your work and tell the user to run \`tazz done ${processId}\`.`,
+    ''
+  ].join('\n')
+}
+
+/**
+ * Shell command line that starts an agent; `{prompt}` becomes the prompt file's
+ * contents, everything else is passed as a quoted literal
+ */
+function buildAgentCommand(name: string, config: AgentConfig, promptFile: string): string {
+  const args = (config.args || ['{prompt}']).map(arg => {
+    if (arg === '{prompt}') {
+      return `"$(cat ${shellQuote(promptFile)})"`
+    }
+    return shellQuote(arg.replace(/\{promptFile\}/g, promptFile).replace(/\{model\}/g, config.model || ''))
+  })
+  return [shellQuote(config.command || name), ...args].join(' ')
+}
+
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM means it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
@@ -0,0 +1,325 @@
+import { Logger } from '../../utils/logger'
+import { getSessionDataDir } from '../../utils/paths'
+import { SessionReconciler } from './SessionReconciler'
+import { TaskProcessLauncher, TazzProcess } from './TaskProcessLauncher'
+import { WorktreeManager } from './WorktreeManager'
+import { TrackerSyncService } from './TrackerSyncService'
+import { TazzSession, TaskReference, TaskStatus, AgentStatus, SessionStatus, SessionError } from '../types'
+
+export interface ScheduleResult {
+  started: TazzProcess[]
+  /** Launches that failed; their tasks stay queued */
+  failed: Array<{ task: TaskReference; error: Error }>
+  /** Queued tasks still waiting for dependencies or a free slot */
+  waiting: TaskReference[]
+  /** Queued tasks that depend, directly or not, on a blocked or cancelled task */
+  unreachable: TaskReference[]
+}
+
+const DEAD_END_STATUSES = [TaskStatus.BLOCKED, TaskStatus.CANCELLED]
+
+/**
+ * Find a dependency cycle, returned as the ids along it with the first id
+ * repeated at the end (e.g. ['a', 'b', 'a']), or undefined if the graph is a DAG
+ */
+export function findDependencyCycle(tasks: Array<Pick<TaskReference, 'id' | 'dependencies'>>): string[] | undefined {
+  const byId = new Map(tasks.map(task => [task.id, task]))
+  const visiting = new Set<string>()
+  const done = new Set<string>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | undefined => {
+    if (visiting.has(id)) {
+      return [...path.slice(path.indexOf(id)), id]
+    }
+    if (done.has(id) || !byId.has(id)) {
+      return undefined
+    }
+
+    visiting.add(id)
+    path.push(id)
+    for (const dep of byId.get(id)!.dependencies) {
+      const cycle = visit(dep)
+      if (cycle) {
+        return cycle
+      }
+    }
+    path.pop()
+    visiting.delete(id)
+    done.add(id)
+    return undefined
+  }
+
+  for (const task of tasks) {
+    const cycle = visit(task.id)
+    if (cycle) {
+      return cycle
+    }
+  }
+  return undefined
+}
+
+/**
+ * Queued tasks (TODO, or IN_PROGRESS without a process) whose dependencies are
+ * all COMPLETED, highest priority (lowest number) first
+ */
+export function getReadyTasks<T extends TaskReference>(tasks: T[]): T[] {
+  const byId = new Map(tasks.map(task => [task.id, task]))
+
+  return tasks
+    .filter(task => isQueued(task))
+    .filter(task => task.dependencies.every(dep => byId.get(dep)?.status === TaskStatus.COMPLETED))
+    .sort((a, b) => a.priority - b.priority)
+}
+
+/**
+ * Queued tasks that can never start because a blocked or cancelled task is upstream
+ */
+export function getUnreachableTasks<T extends TaskReference>(tasks: T[]): T[] {
+  const byId = new Map(tasks.map(task => [task.id, task]))
+  const memo = new Map<string, boolean>()
+
+  const deadEnd = (id: string, seen: Set<string>): boolean => {
+    const task = byId.get(id)
+    if (!task || seen.has(id)) {
+      return false
+    }
+    if (!memo.has(id)) {
+      seen.add(id)
+      memo.set(id, DEAD_END_STATUSES.includes(task.status) || task.dependencies.some(dep => deadEnd(dep, seen)))
+    }
+    return memo.get(id)!
+  }
+
+  return tasks.filter(task => isQueued(task) && task.dependencies.some(dep => deadEnd(dep, new Set())))
+}
+
+/**
+ * Tasks in dependency order (dependencies first), by priority among tasks
+ * whose dependencies are all placed. Tasks on a cycle are left out.
+ */
+export function sortTasksByDependencies<T extends TaskReference>(tasks: T[]): T[] {
+  const ids = new Set(tasks.map(task => task.id))
+  const placed = new Set<string>()
+  const remaining = [...tasks].sort((a, b) => a.priority - b.priority)
+  const sorted: T[] = []
+
+  let next: T | undefined
+  while ((next = remaining.find(task => task.dependencies.every(dep => placed.has(dep) || !ids.has(dep))))) {
+    sorted.push(next)
+    placed.add(next.id)
+    remaining.splice(remaining.indexOf(next), 1)
+  }
+  return sorted
+}
+
+function isQueued(task: TaskReference): boolean {
+  return task.status === TaskStatus.TODO || (task.status === TaskStatus.IN_PROGRESS && !task.assignedAgent)
+}
+
+/**
+ * Starts a session's task processes in dependency order, keeping at most
+ * metadata.scheduler.maxParallel of them running at once
+ */
+export class TaskScheduler {
+  private logger: Logger
+  private reconciler: SessionReconciler
+  private launcher: TaskProcessLauncher
+  private worktrees: WorktreeManager
+  private trackerSync: TrackerSyncService
+  private projectPath: string
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.reconciler = new SessionReconciler(logger, projectPath)
+    this.launcher = new TaskProcessLauncher(logger, projectPath)
+    this.worktrees = new WorktreeManager(logger, projectPath)
+    this.trackerSync = new TrackerSyncService(logger, projectPath)
+    this.projectPath = projectPath
+  }
+
+  /**
+   * Launch every ready task that fits in the free slots and record it on the session
+   */
+  async schedule(sessionId: string): Promise<ScheduleResult> {
+    const { sessions } = await this.reconciler.reconcile()
+    const current = sessions.find(s => s.session.id === sessionId)
+    if (!current) {
+      throw new SessionError(`Session ${sessionId} not found`, { sessionId })
+    }
+
+    const { session, liveProcesses } = current
+    const liveIds = new Set(liveProcesses.map(p => p.processId))
+    const running = session.tasks.filter(task =>
+      task.status === TaskStatus.IN_PROGRESS && task.assignedAgent && liveIds.has(task.assignedAgent)
+    ).length
+
+    const maxParallel = session.metadata.scheduler?.maxParallel ?? Infinity
+    const slots = Math.max(0, maxParallel - running)
+    const ready = getReadyTasks(session.tasks)
+    const toStart = ready.slice(0, slots)
+
+    const results = await Promise.allSettled(
+      toStart.map(task => this.startTask(session, task))
+    )
+
+    const started: TazzProcess[] = []
+    const failed: ScheduleResult['failed'] = []
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        started.push(result.value)
+      } else {
+        failed.push({ task: toStart[i], error: result.reason as Error })
+      }
+    })
+
+    const updated = await this.reconciler.getStore().updateSession(session.id, latest => {
+      // Record task worktrees even when the launch failed, so teardown finds them
+      for (const task of toStart.filter(t => t.worktreePath)) {
+        const stored = latest.tasks.find(t => t.id === task.id)
+        if (stored) {
+          stored.branch = task.branch
+          stored.worktreePath = task.worktreePath
+        }
+      }
+
+      for (const proc of started) {
+        const agent = this.launcher.createAgentInstance(proc)
+        const index = latest.agents.findIndex(a => a.id === agent.id)
+        if (index >= 0) {
+          latest.agents[index] = { ...latest.agents[index], ...agent }
+        } else {
+          latest.agents.push(agent)
+        }
+
+        const task = latest.tasks.find(t => t.id === proc.task?.id)
+        if (task) {
+          task.status = TaskStatus.IN_PROGRESS
+          task.assignedAgent = proc.processId
+          task.startedAt = new Date()
+        }
+      }
+      if (started.length > 0) {
+        latest.status = SessionStatus.ACTIVE
+      }
+      latest.lastActive = new Date()
+    })
+
+    await this.confirmAgents(session.id, started)
+    for (const proc of started) {
+      const task = updated.tasks.find(t => t.id === proc.task?.id)
+      if (task) {
+        await this.trackerSync.recordTaskStatus(updated, task)
+      }
+    }
+
+    const unreachable = getUnreachableTasks(updated.tasks)
+    const failedIds = new Set(failed.map(f => f.task.id))
+    const waiting = updated.tasks.filter(task => isQueued(task) && !unreachable.includes(task) && !failedIds.has(task.id))
+
+    this.logger.info('Tasks scheduled', {
+      sessionId,
+      started: started.map(p => p.processId),
+      failed: failed.map(f => f.task.id),
+      waiting: waiting.length,
+      maxParallel: Number.isFinite(maxParallel) ? maxParallel : undefined
+    })
+
+    return { started, failed, waiting, unreachable }
+  }
+
+  /**
+   * Launch a task in the instance worktree, or in a worktree of its own when
+   * the task is isolated (recorded on `task` for the caller to persist)
+   */
+  private async startTask(session: TazzSession, task: TaskReference): Promise<TazzProcess> {
+    let worktreePath = session.worktreePath
+    if (task.isolate) {
+      const worktree = await this.worktrees.createTaskWorktree(session.id, session.branch, task.id)
+      task.branch = worktree.branch
+      task.worktreePath = worktree.path
+      worktreePath = worktree.path
+    }
+    return this.launcher.launchTaskProcess(`${session.id}_${task.id}`, worktreePath, task)
+  }
+
+  /**
+   * Move freshly launched agents from STARTING to RUNNING once they have taken
+   * over their pane, or to ERROR if they never did
+   */
+  async confirmAgents(sessionId: string, processes: TazzProcess[]): Promise<void> {
+    const withAgents = processes.filter(proc => proc.agent)
+    if (withAgents.length === 0) {
+      return
+    }
+
+    const started = await Promise.all(withAgents.map(proc => this.launcher.waitForAgent(proc)))
+    await this.reconciler.getStore().updateSession(sessionId, latest => {
+      withAgents.forEach((proc, i) => {
+        const agent = latest.agents.find(a => a.id === proc.processId)
+        if (agent && agent.status === AgentStatus.STARTING) {
+          agent.status = started[i] ? AgentStatus.RUNNING : AgentStatus.ERROR
+          agent.lastActivity = new Date()
+        }
+      })
+    })
+  }
+
+  /**
+   * `completeTask` for the task run by a process (e.g. instance_task-1)
+   */
+  async completeProcess(processId: string, options: { keepProcess?: boolean; gracePeriod?: number } = {}): Promise<{
+    sessionId: string
+    task: TaskReference
+    result: ScheduleResult
+  }> {
+    const found = await this.reconciler.findProcess(processId)
+    const task = found?.session.tasks.find(t =>
+      t.assignedAgent === processId || `${found.session.id}_${t.id}` === processId
+    )
+    if (!found || !task) {
+      throw new SessionError(`No task found for process ${processId}`, { processId })
+    }
+
+    const result = await this.completeTask(found.session.id, task.id, options)
+    return { sessionId: found.session.id, task, result }
+  }
+
+  /**
+   * Mark a task COMPLETED, stop its process (unless `keepProcess`) and start
+   * whatever was waiting on it
+   */
+  async completeTask(sessionId: string, taskId: string, options: { keepProcess?: boolean; gracePeriod?: number } = {}): Promise<ScheduleResult> {
+    const session = await this.reconciler.getStore().getSession(sessionId)
+    const task = session?.tasks.find(t => t.id === taskId)
+    if (!session || !task) {
+      throw new SessionError(`Task ${taskId} not found in session ${sessionId}`, { sessionId, taskId })
+    }
+
+    const stopped = task.assignedAgent && !options.keepProcess
+      ? await this.launcher.stopProcess(
+        task.assignedAgent,
+        getSessionDataDir(this.projectPath, sessionId),
+        options.gracePeriod
+      )
+      : undefined
+
+    const updated = await this.reconciler.getStore().updateSession(sessionId, latest => {
+      const completed = latest.tasks.find(t => t.id === taskId)!
+      completed.status = TaskStatus.COMPLETED
+      if (completed.startedAt) {
+        completed.actualTime = Math.round((Date.now() - completed.startedAt.getTime()) / 60000)
+      }
+
+      const agent = latest.agents.find(a => a.id === completed.assignedAgent)
+      if (agent && !options.keepProcess) {
+        agent.status = AgentStatus.STOPPED
+        agent.lastActivity = new Date()
+      }
+    })
+
+    this.logger.info('Task completed', { sessionId, taskId })
+    await this.trackerSync.recordTaskStatus(updated, updated.tasks.find(t => t.id === taskId)!, { capturePath: stopped?.capturePath })
+    return this.schedule(sessionId)
+  }
+}
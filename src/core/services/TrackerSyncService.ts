@@ -0,0 +1,326 @@
+import { readFile, pathExists } from 'fs-extra'
+import { Logger, redact } from '../../utils/logger'
+import { getDiffStat, getDefaultBranch } from '../../utils/git'
+import { MCPIntegrationService } from './MCPIntegrationService'
+import { JiraTicketService } from './JiraTicketService'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { TrackerOutboxStore, NewTrackerOperation } from '../storage/TrackerOutboxStore'
+import { TazzSession, TaskReference, TaskStatus, TrackerOperation, TrackerSyncSettings, MCPError } from '../types'
+
+export interface TrackerFlushResult {
+  sent: TrackerOperation[]
+  /** Delivered as far as the tracker allows, e.g. no transition leads to the wanted status */
+  skipped: Array<{ operation: TrackerOperation; reason: string }>
+  failed: Array<{ operation: TrackerOperation; error: string; dropped: boolean }>
+  /** Kept in the outbox because the tracker's MCP server could not be reached or an earlier update of the issue failed */
+  pending: TrackerOperation[]
+}
+
+/** Failed sends before an operation is dropped from the outbox */
+const MAX_ATTEMPTS = 5
+const SERVERS: Record<TrackerOperation['tracker'], string> = { jira: 'atlassian', github: 'github' }
+
+/**
+ * Pushes task status changes to the issue a session works on: the Jira ticket
+ * in `metadata.jira` (or the sub-task a task was created from) and the GitHub
+ * issue in `metadata.github.issue`. Updates are recorded in an outbox when the
+ * status changes and delivered through the trackers' MCP servers by `flush`,
+ * so nothing is lost while offline.
+ */
+export class TrackerSyncService {
+  private logger: Logger
+  private projectPath: string
+  private outbox: TrackerOutboxStore
+  private configStore: ProjectConfigStore
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.projectPath = projectPath
+    this.outbox = new TrackerOutboxStore(projectPath)
+    this.configStore = new ProjectConfigStore(projectPath)
+  }
+
+  /**
+   * Queue the tracker updates for a task that just reached its current status.
+   * Never throws: tracker problems must not get in the way of the task itself.
+   */
+  async recordTaskStatus(session: TazzSession, task: TaskReference, details: { capturePath?: string } = {}): Promise<TrackerOperation[]> {
+    try {
+      const { settings } = await this.configStore.load()
+      if (!settings.trackerSync.enabled) {
+        return []
+      }
+
+      const operations = await this.planTaskStatus(session, task, settings.trackerSync, details)
+      const added = operations.length > 0 ? await this.outbox.add(operations) : []
+      if (added.length > 0) {
+        this.logger.info('Tracker updates queued', { sessionId: session.id, taskId: task.id, status: task.status, operations: added.length })
+      }
+      return added
+    } catch (error) {
+      this.logger.warn('Failed to record tracker updates', { sessionId: session.id, taskId: task.id, error: (error as Error).message })
+      return []
+    }
+  }
+
+  /**
+   * Operations waiting in the outbox, oldest first
+   */
+  async getPending(sessionId?: string): Promise<TrackerOperation[]> {
+    return this.outbox.getAll(sessionId)
+  }
+
+  /**
+   * Deliver the outbox in order. Operations for a tracker whose MCP server is
+   * unreachable stay queued for the next flush; failed sends are retried up
+   * to MAX_ATTEMPTS times, and later updates of the same issue wait for them.
+   */
+  async flush(options: { sessionId?: string } = {}): Promise<TrackerFlushResult> {
+    const result: TrackerFlushResult = { sent: [], skipped: [], failed: [], pending: [] }
+    const claimed = await this.outbox.claim(options.sessionId)
+    if (claimed.length === 0) {
+      return result
+    }
+
+    const mcpService = new MCPIntegrationService(this.logger, this.projectPath)
+    try {
+      await mcpService.detectAndSetupMCPs({ servers: [...new Set(claimed.map(op => SERVERS[op.tracker]))] })
+    } catch (error) {
+      this.logger.warn('Trackers unreachable, keeping updates in the outbox', { error: (error as Error).message })
+    }
+
+    // Issues whose update failed; their later updates wait so they arrive in order
+    const blocked = new Set<string>()
+    try {
+      for (const operation of claimed) {
+        const issueKey = `${operation.tracker}:${operation.issue}`
+        if (!mcpService.isAvailable(SERVERS[operation.tracker]) || blocked.has(issueKey)) {
+          await this.outbox.release(operation.id)
+          result.pending.push(operation)
+          continue
+        }
+
+        try {
+          const skipped = await this.send(mcpService, operation)
+          if (skipped) {
+            result.skipped.push({ operation, reason: skipped })
+            this.logger.info('Tracker update skipped', { id: operation.id, issue: operation.issue, action: operation.action, reason: skipped })
+          } else {
+            result.sent.push(operation)
+          }
+          await this.outbox.remove([operation.id])
+        } catch (error) {
+          blocked.add(issueKey)
+          const { message, cause } = error as MCPError
+          const reason = redact(cause ? `${message}: ${cause.message}` : message)
+          const released = await this.outbox.release(operation.id, reason)
+          const dropped = (released?.attempts ?? MAX_ATTEMPTS) >= MAX_ATTEMPTS
+          if (dropped) {
+            await this.outbox.remove([operation.id])
+            this.logger.warn('Dropping tracker update after repeated failures', { id: operation.id, issue: operation.issue, action: operation.action, error: reason })
+          }
+          result.failed.push({ operation, error: reason, dropped })
+        }
+      }
+    } finally {
+      await mcpService.disconnect()
+    }
+
+    this.logger.info('Tracker outbox flushed', {
+      sent: result.sent.length,
+      skipped: result.skipped.length,
+      failed: result.failed.length,
+      pending: result.pending.length
+    })
+    return result
+  }
+
+  /**
+   * The updates a status change causes. A task created from a Jira sub-task
+   * (or the ticket itself) moves that issue; any other task reports on the
+   * session's ticket, which is completed once every task is.
+   */
+  private async planTaskStatus(
+    session: TazzSession,
+    task: TaskReference,
+    settings: TrackerSyncSettings,
+    details: { capturePath?: string }
+  ): Promise<NewTrackerOperation[]> {
+    const jira = session.metadata.jira
+    const jiraKey = jira ? jira.key || JiraTicketService.parseTicketKey(session.id) : undefined
+    const github = session.metadata.github?.issue
+    if (!jiraKey && !github) {
+      return []
+    }
+
+    const operations: NewTrackerOperation[] = []
+    const base = { sessionId: session.id, taskId: task.id }
+    const transition = settings.transitions[task.status]
+    const allDone = session.tasks.length > 0 && session.tasks.every(t => t.status === TaskStatus.COMPLETED)
+    const comment = await this.buildComment(session, task, details)
+
+    if (jiraKey) {
+      const own = task.id === jiraKey || (jira?.subtasks || []).some(subtask => subtask.key === task.id)
+      const issue = own ? task.id : jiraKey
+      const jiraOp = { ...base, tracker: 'jira' as const, issue }
+
+      if (transition && (own || task.status === TaskStatus.IN_PROGRESS)) {
+        operations.push({ ...jiraOp, action: 'transition', status: transition })
+      }
+      if (transition && task.status === TaskStatus.IN_PROGRESS && issue !== jiraKey) {
+        operations.push({ ...jiraOp, issue: jiraKey, action: 'transition', status: transition })
+      }
+      if (comment) {
+        operations.push({ ...jiraOp, action: 'comment', body: comment })
+      }
+      if (task.status === TaskStatus.COMPLETED && task.actualTime && task.actualTime >= 1) {
+        operations.push({ ...jiraOp, action: 'worklog', minutes: task.actualTime, comment: `Task ${task.id}: ${task.title}` })
+      }
+      if (allDone && settings.transitions[TaskStatus.COMPLETED] && !(own && issue === jiraKey)) {
+        operations.push({ ...jiraOp, issue: jiraKey, action: 'transition', status: settings.transitions[TaskStatus.COMPLETED]! })
+      }
+    }
+
+    if (github) {
+      const githubOp = { ...base, tracker: 'github' as const, issue: `${github.owner}/${github.repo}#${github.number}` }
+      if (comment) {
+        operations.push({ ...githubOp, action: 'comment', body: comment })
+      }
+      if (allDone) {
+        operations.push({ ...githubOp, action: 'close' })
+      }
+    }
+
+    return operations
+  }
+
+  /**
+   * What the agent did: diffstat of its branch, test results from its final
+   * scrollback and the time it took. Only for finished, blocked or cancelled tasks.
+   */
+  private async buildComment(session: TazzSession, task: TaskReference, details: { capturePath?: string }): Promise<string | undefined> {
+    switch (task.status) {
+      case TaskStatus.BLOCKED:
+        return `⛔ Task "${task.title}" (${task.id}) is blocked.`
+      case TaskStatus.CANCELLED:
+        return `Task "${task.title}" (${task.id}) was cancelled.`
+      case TaskStatus.COMPLETED:
+        break
+      default:
+        return undefined
+    }
+
+    const lines = [`✅ Task "${task.title}" (${task.id}) completed.`, '']
+    if (task.actualTime) {
+      lines.push(`Time spent: ${formatMinutes(task.actualTime)}`)
+    }
+
+    const tests = details.capturePath && await pathExists(details.capturePath)
+      ? summarizeTestRuns(await readFile(details.capturePath, 'utf-8'))
+      : undefined
+    lines.push(`Tests: ${tests || 'no test run found in the agent output'}`)
+
+    const worktreePath = task.worktreePath || session.worktreePath
+    try {
+      const { settings } = await this.configStore.load()
+      const baseBranch = task.worktreePath
+        ? session.branch
+        : settings.defaultBranch || await getDefaultBranch(this.projectPath)
+      const diffStat = await getDiffStat(baseBranch, worktreePath)
+      lines.push('', `Changes since ${baseBranch}:`, '```', diffStat || 'No changes', '```')
+    } catch (error) {
+      this.logger.debug('No diffstat for tracker comment', { taskId: task.id, worktreePath, error: (error as Error).message })
+    }
+
+    return lines.join('\n').trimEnd()
+  }
+
+  /**
+   * @returns why the operation was skipped, or undefined once it was delivered
+   */
+  private async send(mcpService: MCPIntegrationService, operation: TrackerOperation): Promise<string | undefined> {
+    const server = SERVERS[operation.tracker]
+    const tool = toolFor(operation)
+    if (!tool) {
+      return `${operation.tracker} has no ${operation.action} operation`
+    }
+    if (!mcpService.isAvailable(server, tool)) {
+      return `${server} does not offer ${tool}`
+    }
+
+    if (operation.tracker === 'jira') {
+      const issueKey = operation.issue
+      switch (operation.action) {
+        case 'transition': {
+          const response = await mcpService.callTool<any>(server, 'jira_get_transitions', { issue_key: issueKey })
+          const transitions: any[] = Array.isArray(response) ? response : response?.transitions || []
+          const wanted = operation.status.toLowerCase()
+          const match = transitions.find(t => [t.name, t.to?.name, t.to_status].some(name =>
+            typeof name === 'string' && name.toLowerCase() === wanted))
+          if (!match) {
+            return `no transition of ${issueKey} leads to ${operation.status}`
+          }
+          await mcpService.callTool(server, tool, { issue_key: issueKey, transition_id: String(match.id) })
+          return undefined
+        }
+        case 'comment':
+          await mcpService.callTool(server, tool, { issue_key: issueKey, comment: operation.body })
+          return undefined
+        case 'worklog':
+          await mcpService.callTool(server, tool, { issue_key: issueKey, time_spent: formatMinutes(operation.minutes), comment: operation.comment })
+          return undefined
+      }
+    }
+
+    const [, owner, repo, number] = operation.issue.match(/^([^/]+)\/(.+)#(\d+)$/) || []
+    const issue = { owner, repo, issue_number: Number(number) }
+    if (operation.action === 'comment') {
+      await mcpService.callTool(server, tool, { ...issue, body: operation.body })
+    } else {
+      await mcpService.callTool(server, tool, { ...issue, state: 'closed' })
+    }
+    return undefined
+  }
+}
+
+function toolFor(operation: TrackerOperation): string | undefined {
+  const tools: Record<TrackerOperation['tracker'], Partial<Record<TrackerOperation['action'], string>>> = {
+    jira: { transition: 'jira_transition_issue', comment: 'jira_add_comment', worklog: 'jira_add_worklog' },
+    github: { comment: 'add_issue_comment', close: 'update_issue' }
+  }
+  return tools[operation.tracker][operation.action]
+}
+
+/**
+ * Jira duration notation, e.g. `1h 30m`
+ */
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = Math.round(minutes % 60)
+  return [hours > 0 ? `${hours}h` : '', rest > 0 || hours === 0 ? `${rest}m` : ''].filter(Boolean).join(' ')
+}
+
+/**
+ * The last test summary line printed by a common runner (jest, vitest, mocha,
+ * pytest, go test) in an agent's scrollback
+ */
+export function summarizeTestRuns(output: string): string | undefined {
+  const text = output.replace(/\u001b\[[0-9;]*m/g, '')
+  const patterns = [
+    /^\s*Tests:\s+(.*\d+ total)\s*$/gm,
+    /^\s*Tests\s+(\d+ (?:passed|failed).*?)\s*$/gm,
+    /^\s*(\d+ passing.*?)\s*$/gm,
+    /^=+ (.*\d+ (?:passed|failed).*?) in [\d.]+s.*=+\s*$/gm,
+    /^((?:ok|FAIL)\s+\S+\s+[\d.]+s)\s*$/gm
+  ]
+
+  let last: { index: number; summary: string } | undefined
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      if (!last || match.index! > last.index) {
+        last = { index: match.index!, summary: match[1].trim() }
+      }
+    }
+  }
+  return last?.summary
+}
@@ -0,0 +1,213 @@
+import { pathExists, ensureDir } from 'fs-extra'
+import { basename, dirname, join, resolve } from 'path'
+import { homedir } from 'os'
+import { Logger } from '../../utils/logger'
+import { listWorktrees, branchExists, refExists, addWorktree } from '../../utils/git'
+import { ProjectConfigStore } from '../storage/ProjectConfigStore'
+import { SessionError, GitError, ValidationError } from '../types'
+
+export interface WorktreeOptions {
+  /** Ref to branch from instead of HEAD */
+  base?: string
+  /** Attach an existing branch (or the worktree it is checked out in) instead of failing */
+  reuse?: boolean
+  /** Explicit branch name, bypassing settings.branchTemplate */
+  branch?: string
+  /** Value for {type} in the branch template */
+  type?: string
+  /** Ticket summary, naming the branch of an instance called just by its ticket key */
+  summary?: string
+}
+
+export interface PreparedWorktree {
+  path: string
+  branch: string
+  /** True when an existing branch or worktree was attached rather than created */
+  reused: boolean
+}
+
+const JIRA_KEY_PATTERN = /^([A-Za-z][A-Za-z0-9]+-\d+)(?:[-_](.*))?$/
+const MAX_SUMMARY_SLUG_LENGTH = 40
+
+/**
+ * Creates the git worktrees backing an instance (and its isolated tasks),
+ * placing them under settings.worktreeRoot and naming branches from
+ * settings.branchTemplate and settings.taskBranchTemplate
+ */
+export class WorktreeManager {
+  private logger: Logger
+  private configStore: ProjectConfigStore
+  private projectPath: string
+
+  constructor(logger: Logger, projectPath: string = process.cwd()) {
+    this.logger = logger
+    this.configStore = new ProjectConfigStore(projectPath)
+    this.projectPath = projectPath
+  }
+
+  /**
+   * Branch name for an instance, e.g. `feature/PROJ-12-login` for `{type}/{ticket}-{slug}`
+   */
+  async resolveBranchName(instanceName: string, options: WorktreeOptions = {}): Promise<string> {
+    if (options.branch) {
+      return options.branch
+    }
+
+    const { settings } = await this.configStore.load()
+    const match = instanceName.match(JIRA_KEY_PATTERN)
+    // `PROJ-12` with a fetched summary is named as if it were `PROJ-12-<summary>`
+    const summarySlug = match && !match[2] && options.summary ? truncateSlug(slugify(options.summary)) : ''
+    const variables: Record<string, string> = {
+      name: summarySlug ? `${instanceName}-${summarySlug}` : instanceName,
+      type: options.type || 'feature',
+      ticket: match ? match[1].toUpperCase() : '',
+      slug: summarySlug || slugify(match ? match[2] || '' : instanceName)
+    }
+
+    const branch = renderTemplate(settings.branchTemplate, variables, 'branchTemplate')
+      .split('/')
+      .map(segment => segment.replace(/-{2,}/g, '-').replace(/^[-.]+|[-.]+$/g, ''))
+      .filter(segment => segment !== '')
+      .join('/')
+
+    if (!branch) {
+      throw new ValidationError(`branchTemplate "${settings.branchTemplate}" produced an empty branch name for ${instanceName}`)
+    }
+    return branch
+  }
+
+  /**
+   * Absolute worktree path for an instance; the instance name is appended
+   * unless worktreeRoot already contains {instance}
+   */
+  async resolveWorktreePath(instanceName: string): Promise<string> {
+    const { settings } = await this.configStore.load()
+    const root = settings.worktreeRoot.replace(/^~(?=$|\/)/, homedir())
+    const variables = { project: basename(this.projectPath), instance: instanceName }
+    const rendered = renderTemplate(root, variables, 'worktreeRoot')
+
+    return resolve(
+      this.projectPath,
+      root.includes('{instance}') ? rendered : join(rendered, instanceName)
+    )
+  }
+
+  async create(instanceName: string, options: WorktreeOptions = {}): Promise<PreparedWorktree> {
+    const branch = await this.resolveBranchName(instanceName, options)
+    const worktreePath = await this.resolveWorktreePath(instanceName)
+
+    const checkedOut = (await listWorktrees(this.projectPath)).find(wt => wt.branch === branch)
+    if (checkedOut) {
+      if (!options.reuse) {
+        throw new SessionError(`Branch ${branch} is already checked out at ${checkedOut.path} (use --reuse to attach it)`, {
+          branch,
+          worktreePath: checkedOut.path
+        })
+      }
+      this.warnIgnoredBase(options, branch)
+      this.logger.info('Reusing existing worktree', { instanceName, branch, worktreePath: checkedOut.path })
+      return { path: checkedOut.path, branch, reused: true }
+    }
+
+    if (await pathExists(worktreePath)) {
+      throw new SessionError(`Worktree path already exists: ${worktreePath}`, { worktreePath })
+    }
+
+    const exists = await branchExists(branch, this.projectPath)
+    if (exists && !options.reuse) {
+      throw new SessionError(`Branch ${branch} already exists (use --reuse to attach it)`, { branch })
+    }
+    if (exists) {
+      this.warnIgnoredBase(options, branch)
+    } else if (options.base && !await refExists(options.base, this.projectPath)) {
+      throw new GitError(`Base ref not found: ${options.base}`, { base: options.base })
+    }
+
+    await ensureDir(dirname(worktreePath))
+    try {
+      await addWorktree(worktreePath, branch, { createBranch: !exists, base: options.base }, this.projectPath)
+    } catch (error) {
+      throw new GitError(`git worktree add failed for ${worktreePath}: ${(error as Error).message.trim()}`, { branch, worktreePath }, error as Error)
+    }
+
+    this.logger.info('Worktree created', { instanceName, branch, worktreePath, base: options.base, reused: exists })
+    return { path: worktreePath, branch, reused: exists }
+  }
+
+  /**
+   * Branch for an isolated task, named from settings.taskBranchTemplate
+   */
+  async resolveTaskBranchName(instanceName: string, instanceBranch: string, taskId: string): Promise<string> {
+    const { settings } = await this.configStore.load()
+    const variables = { branch: instanceBranch, instance: instanceName, task: taskId }
+    const branch = renderTemplate(settings.taskBranchTemplate, variables, 'taskBranchTemplate')
+
+    if (branch === instanceBranch || branch.startsWith(`${instanceBranch}/`)) {
+      // refs/heads/<branch> is a file, so nothing can be created underneath it
+      throw new ValidationError(`taskBranchTemplate "${settings.taskBranchTemplate}" must not nest task branches under the instance branch ${instanceBranch}`)
+    }
+    return branch
+  }
+
+  /**
+   * Worktree for an isolated task, branched off the instance branch and placed
+   * next to the instance worktree as `<instance>_<task>`. A task that was
+   * started before keeps its branch and worktree.
+   */
+  async createTaskWorktree(instanceName: string, instanceBranch: string, taskId: string): Promise<PreparedWorktree> {
+    const branch = await this.resolveTaskBranchName(instanceName, instanceBranch, taskId)
+    const worktreePath = await this.resolveWorktreePath(`${instanceName}_${taskId}`)
+
+    const checkedOut = (await listWorktrees(this.projectPath)).find(wt => wt.branch === branch)
+    if (checkedOut) {
+      return { path: checkedOut.path, branch, reused: true }
+    }
+
+    if (await pathExists(worktreePath)) {
+      throw new SessionError(`Worktree path already exists: ${worktreePath}`, { worktreePath })
+    }
+
+    const exists = await branchExists(branch, this.projectPath)
+    await ensureDir(dirname(worktreePath))
+    try {
+      await addWorktree(worktreePath, branch, { createBranch: !exists, base: instanceBranch }, this.projectPath)
+    } catch (error) {
+      throw new GitError(`git worktree add failed for ${worktreePath}: ${(error as Error).message.trim()}`, { branch, worktreePath }, error as Error)
+    }
+
+    this.logger.info('Task worktree created', { instanceName, taskId, branch, worktreePath, reused: exists })
+    return { path: worktreePath, branch, reused: exists }
+  }
+
+  private warnIgnoredBase(options: WorktreeOptions, branch: string): void {
+    if (options.base) {
+      this.logger.warn('Ignoring --base for an existing branch', { branch, base: options.base })
+    }
+  }
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Cut a slug at a word boundary so summaries don't make unwieldy branch names
+ */
+function truncateSlug(slug: string, maxLength = MAX_SUMMARY_SLUG_LENGTH): string {
+  if (slug.length <= maxLength) {
+    return slug
+  }
+  const cut = slug.substring(0, maxLength + 1)
+  return cut.substring(0, cut.lastIndexOf('-') > 0 ? cut.lastIndexOf('-') : maxLength)
+}
+
+function renderTemplate(template: string, variables: Record<string, string>, setting: string): string {
+  return template.replace(/\{(\w+)\}/g, (token, key: string) => {
+    if (!(key in variables)) {
+      throw new ValidationError(`Unknown placeholder ${token} in settings.${setting}`, {
+        allowed: Object.keys(variables)
+      })
+    }
+    return variables[key]
+  })
+}
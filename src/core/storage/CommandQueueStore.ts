@@ -0,0 +1,179 @@
+import { readFile, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { z } from 'zod'
+import { AgentCommand, AgentCommandType, QueuedCommand, QueuedCommandStatus, SessionError } from '../types'
+import { getProjectTazzDir } from '../../utils/paths'
+import { withFileLock, writeFileAtomic } from '../../utils/lock'
+
+export interface QueueData {
+  commands: QueuedCommand[]
+  lastUpdated: string
+}
+
+/** Finished commands beyond this many are dropped, oldest first */
+const MAX_FINISHED_COMMANDS = 500
+
+const FINISHED_STATUSES = [QueuedCommandStatus.SUCCEEDED, QueuedCommandStatus.FAILED, QueuedCommandStatus.CANCELLED]
+
+const CommandResultSchema = z.object({
+  success: z.boolean(),
+  data: z.unknown().optional(),
+  error: z.string().optional(),
+  metadata: z.record(z.unknown()).optional()
+})
+
+const QueuedCommandSchema = z.object({
+  command: z.object({
+    type: z.nativeEnum(AgentCommandType),
+    sessionId: z.string().optional(),
+    payload: z.unknown(),
+    timestamp: z.coerce.date(),
+    requestId: z.string()
+  }),
+  status: z.nativeEnum(QueuedCommandStatus),
+  attempts: z.number().int().nonnegative().default(0),
+  maxRetries: z.number().int().nonnegative().default(0),
+  timeout: z.number().positive(),
+  results: z.array(CommandResultSchema).default([]),
+  enqueuedAt: z.coerce.date(),
+  startedAt: z.coerce.date().optional(),
+  finishedAt: z.coerce.date().optional()
+})
+
+const QueueDataSchema = z.object({
+  commands: z.array(QueuedCommandSchema),
+  lastUpdated: z.string()
+})
+
+/**
+ * Per-project queue of AgentCommands (queue.json next to sessions.json),
+ * shared by every tazz process through the same file lock
+ */
+export class CommandQueueStore {
+  private queuePath: string
+
+  constructor(projectPath: string = process.cwd()) {
+    this.queuePath = join(getProjectTazzDir(projectPath), 'queue.json')
+  }
+
+  async getAll(): Promise<QueuedCommand[]> {
+    return (await this.load()).commands
+  }
+
+  /**
+   * Find a command by request id or an unambiguous prefix of it
+   */
+  async find(idOrPrefix: string): Promise<QueuedCommand | null> {
+    const commands = await this.getAll()
+    const exact = commands.find(c => c.command.requestId === idOrPrefix)
+    if (exact) {
+      return exact
+    }
+
+    const matches = commands.filter(c => c.command.requestId.startsWith(idOrPrefix))
+    if (matches.length > 1) {
+      throw new SessionError(`Request id prefix ${idOrPrefix} is ambiguous (${matches.length} commands)`, { idOrPrefix })
+    }
+    return matches[0] || null
+  }
+
+  async enqueue(command: AgentCommand, options: { maxRetries: number; timeout: number }): Promise<QueuedCommand> {
+    const queued: QueuedCommand = {
+      command,
+      status: QueuedCommandStatus.PENDING,
+      attempts: 0,
+      maxRetries: options.maxRetries,
+      timeout: options.timeout,
+      results: [],
+      enqueuedAt: new Date()
+    }
+
+    await this.mutate(commands => [...commands, queued])
+    return queued
+  }
+
+  /**
+   * Apply an update to the latest stored copy of a command under the file lock
+   */
+  async update(requestId: string, updater: (queued: QueuedCommand) => void): Promise<QueuedCommand> {
+    let updated: QueuedCommand | null = null
+
+    await this.mutate(commands => {
+      const queued = commands.find(c => c.command.requestId === requestId)
+      if (!queued) {
+        throw new SessionError(`Command ${requestId} not found in queue`, { requestId })
+      }
+
+      updater(queued)
+      updated = queued
+      return commands
+    })
+
+    return updated!
+  }
+
+  /**
+   * Atomically take the oldest pending command (optionally among `requestIds`)
+   * and mark it RUNNING, so two dispatchers never run the same command
+   */
+  async claimNext(requestIds?: string[]): Promise<QueuedCommand | null> {
+    let claimed: QueuedCommand | null = null
+
+    await this.mutate(commands => {
+      const next = commands.find(c =>
+        c.status === QueuedCommandStatus.PENDING && (!requestIds || requestIds.includes(c.command.requestId))
+      )
+      if (next) {
+        next.status = QueuedCommandStatus.RUNNING
+        next.attempts++
+        next.startedAt = new Date()
+        claimed = next
+      }
+      return commands
+    })
+
+    return claimed
+  }
+
+  private async mutate(fn: (commands: QueuedCommand[]) => QueuedCommand[]): Promise<void> {
+    await withFileLock(this.queuePath, async () => {
+      const { commands } = await this.load()
+      const updated = fn(commands)
+
+      const finished = updated.filter(c => FINISHED_STATUSES.includes(c.status))
+      const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_COMMANDS)))
+
+      const data: QueueData = {
+        commands: updated.filter(c => !dropped.has(c)),
+        lastUpdated: new Date().toISOString()
+      }
+
+      await writeFileAtomic(this.queuePath, JSON.stringify(data, null, 2))
+    })
+  }
+
+  private async load(): Promise<QueueData> {
+    if (!await pathExists(this.queuePath)) {
+      return { commands: [], lastUpdated: new Date().toISOString() }
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(await readFile(this.queuePath, 'utf-8'))
+    } catch (error) {
+      throw new SessionError('Failed to read command queue', {
+        path: this.queuePath
+      }, error as Error)
+    }
+
+    const result = QueueDataSchema.safeParse(raw)
+    if (!result.success) {
+      throw new SessionError('Command queue file is invalid', {
+        path: this.queuePath,
+        issues: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      })
+    }
+
+    return result.data as QueueData
+  }
+}
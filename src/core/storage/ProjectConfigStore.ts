@@ -0,0 +1,112 @@
+import { readFile, pathExists } from 'fs-extra'
+import { join, basename } from 'path'
+import { z } from 'zod'
+import { ProjectConfig, TaskStatus, ValidationError } from '../types'
+import { getProjectTazzDir } from '../../utils/paths'
+
+export const DEFAULT_WORKTREE_ROOT = '..'
+export const DEFAULT_BRANCH_TEMPLATE = 'feature/{name}'
+export const DEFAULT_AGENT = 'claude'
+// git cannot nest refs under an existing branch, so feature/x/task is not an option
+export const DEFAULT_TASK_BRANCH_TEMPLATE = '{branch}--{task}'
+
+export const DEFAULT_TRACKER_TRANSITIONS: Partial<Record<TaskStatus, string>> = {
+  [TaskStatus.IN_PROGRESS]: 'In Progress',
+  [TaskStatus.COMPLETED]: 'Done',
+  [TaskStatus.BLOCKED]: 'Blocked',
+  [TaskStatus.CANCELLED]: ''
+}
+
+const TrackerSyncSchema = z.object({
+  enabled: z.boolean().default(true),
+  transitions: z.record(z.nativeEnum(TaskStatus), z.string()).default({})
+    .transform(transitions => ({ ...DEFAULT_TRACKER_TRANSITIONS, ...transitions }))
+})
+
+// Unknown keys are kept so settings written by newer versions survive a round trip
+const ProjectSettingsSchema = z.object({
+  maxConcurrentSessions: z.number().int().positive().default(10),
+  defaultBranch: z.string().optional(),
+  tmuxPrefix: z.string().default('tazz_'),
+  agentTimeout: z.number().default(300000),
+  worktreeRoot: z.string().min(1).default(DEFAULT_WORKTREE_ROOT),
+  branchTemplate: z.string().min(1).default(DEFAULT_BRANCH_TEMPLATE),
+  defaultAgent: z.string().min(1).default(DEFAULT_AGENT),
+  taskBranchTemplate: z.string().min(1).default(DEFAULT_TASK_BRANCH_TEMPLATE),
+  trackerSync: TrackerSyncSchema.default({})
+}).passthrough()
+
+const AgentConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  apiKey: z.string().optional(),
+  model: z.string().optional(),
+  timeout: z.number().positive().optional(),
+  maxRetries: z.number().int().nonnegative().optional(),
+  command: z.string().min(1).optional(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  restart: z.enum(['never', 'on-failure']).optional(),
+  maxRestarts: z.number().int().nonnegative().optional()
+}).passthrough()
+
+const ProjectConfigSchema = z.object({
+  version: z.string().default('1.0.0'),
+  project: z.object({
+    name: z.string(),
+    path: z.string(),
+    type: z.string().default('unknown')
+  }).passthrough(),
+  settings: ProjectSettingsSchema.default({}),
+  agents: z.record(AgentConfigSchema).default({
+    [DEFAULT_AGENT]: { enabled: true, command: 'claude', args: ['{prompt}'] }
+  })
+}).passthrough()
+
+/**
+ * Read-only access to the project's config.json, with defaults for settings
+ * that older `tazz make` runs did not write
+ */
+export class ProjectConfigStore {
+  private configPath: string
+  private projectPath: string
+
+  constructor(projectPath: string = process.cwd()) {
+    this.projectPath = projectPath
+    this.configPath = join(getProjectTazzDir(projectPath), 'config.json')
+  }
+
+  getConfigPath(): string {
+    return this.configPath
+  }
+
+  async load(): Promise<ProjectConfig> {
+    let raw: Record<string, any> = {}
+
+    if (await pathExists(this.configPath)) {
+      try {
+        raw = JSON.parse(await readFile(this.configPath, 'utf-8'))
+      } catch (error) {
+        throw new ValidationError(`Project config is not valid JSON: ${this.configPath}`, {
+          configPath: this.configPath
+        }, error as Error)
+      }
+    }
+
+    const parsed = ProjectConfigSchema.safeParse({
+      ...raw,
+      project: {
+        name: basename(this.projectPath),
+        path: this.projectPath,
+        ...raw.project
+      }
+    })
+    if (!parsed.success) {
+      throw new ValidationError(`Invalid project config: ${this.configPath}`, {
+        configPath: this.configPath,
+        issues: parsed.error.issues
+      })
+    }
+
+    return parsed.data as ProjectConfig
+  }
+}
@@ -0,0 +1,78 @@
+import { readFile, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { z } from 'zod'
+import { PullRequestStatus } from '../types'
+import { getProjectTazzDir } from '../../utils/paths'
+import { withFileLock, writeFileAtomic } from '../../utils/lock'
+
+const PullRequestStatusSchema = z.object({
+  url: z.string(),
+  number: z.number().int().positive(),
+  state: z.enum(['open', 'draft', 'merged', 'closed']),
+  reviewDecision: z.enum(['approved', 'changes_requested', 'review_required']).optional(),
+  checks: z.enum(['success', 'pending', 'failure', 'none']).optional(),
+  fetchedAt: z.coerce.date()
+})
+
+const CacheDataSchema = z.object({
+  pullRequests: z.record(PullRequestStatusSchema),
+  lastUpdated: z.string()
+})
+
+/**
+ * Per-project cache of pull request state, review decision and CI status
+ * (pr-status.json next to queue.json), keyed by pull request URL. Only a cache:
+ * a missing or unreadable file just means everything is fetched again.
+ */
+export class PullRequestStatusCache {
+  private cachePath: string
+
+  constructor(projectPath: string = process.cwd()) {
+    this.cachePath = join(getProjectTazzDir(projectPath), 'pr-status.json')
+  }
+
+  /**
+   * Cached statuses fetched less than `maxAge` milliseconds ago
+   */
+  async getFresh(urls: string[], maxAge: number): Promise<Map<string, PullRequestStatus>> {
+    const cached = await this.load()
+    const fresh = new Map<string, PullRequestStatus>()
+    for (const url of urls) {
+      const status = cached[url]
+      if (status && Date.now() - status.fetchedAt.getTime() < maxAge) {
+        fresh.set(url, status)
+      }
+    }
+    return fresh
+  }
+
+  /**
+   * Cached statuses however old, as a fallback when GitHub cannot be reached
+   */
+  async getAll(): Promise<Record<string, PullRequestStatus>> {
+    return this.load()
+  }
+
+  async set(statuses: PullRequestStatus[]): Promise<void> {
+    await withFileLock(this.cachePath, async () => {
+      const pullRequests = await this.load()
+      statuses.forEach(status => { pullRequests[status.url] = status })
+      await writeFileAtomic(this.cachePath, JSON.stringify({
+        pullRequests,
+        lastUpdated: new Date().toISOString()
+      }, null, 2))
+    })
+  }
+
+  private async load(): Promise<Record<string, PullRequestStatus>> {
+    if (!await pathExists(this.cachePath)) {
+      return {}
+    }
+    try {
+      const result = CacheDataSchema.safeParse(JSON.parse(await readFile(this.cachePath, 'utf-8')))
+      return result.success ? result.data.pullRequests : {}
+    } catch {
+      return {}
+    }
+  }
+}
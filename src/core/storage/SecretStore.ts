@@ -0,0 +1,137 @@
+import { readFile, pathExists } from 'fs-extra'
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto'
+import { z } from 'zod'
+import { ValidationError } from '../types'
+import { getSecretsPath, getSecretsKeyPath } from '../../utils/paths'
+import { withFileLock, writeFileAtomic } from '../../utils/lock'
+
+export interface SecretInfo {
+  name: string
+  updatedAt: Date
+}
+
+const SECRET_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/
+
+const EncryptedFileSchema = z.object({
+  version: z.literal(1),
+  salt: z.string(),
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string()
+})
+
+const SecretsSchema = z.record(z.object({
+  value: z.string(),
+  updatedAt: z.coerce.date()
+}))
+
+type Secrets = z.infer<typeof SecretsSchema>
+
+/**
+ * Secrets for MCP server credentials, kept in one AES-256-GCM encrypted file
+ * under the Tazz dir. The key is derived from TAZZ_SECRETS_PASSPHRASE or, when
+ * that is unset, from a random passphrase generated into a key file readable
+ * only by the current user.
+ */
+export class SecretStore {
+  private secretsPath: string
+  private keyPath: string
+
+  constructor(secretsPath: string = getSecretsPath(), keyPath: string = getSecretsKeyPath()) {
+    this.secretsPath = secretsPath
+    this.keyPath = keyPath
+  }
+
+  async list(): Promise<SecretInfo[]> {
+    const secrets = await this.load()
+    return Object.entries(secrets)
+      .map(([name, secret]) => ({ name, updatedAt: secret.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  async get(name: string): Promise<string | undefined> {
+    return (await this.load())[name]?.value
+  }
+
+  async set(name: string, value: string): Promise<void> {
+    if (!SECRET_NAME_PATTERN.test(name)) {
+      throw new ValidationError(`Invalid secret name ${name}; use letters, digits, '.', '_' and '-'`, { name })
+    }
+    if (value === '') {
+      throw new ValidationError(`Secret ${name} cannot be empty`, { name })
+    }
+
+    await withFileLock(this.secretsPath, async () => {
+      const secrets = await this.load()
+      secrets[name] = { value, updatedAt: new Date() }
+      await this.save(secrets)
+    })
+  }
+
+  /**
+   * Remove a secret; returns whether it existed
+   */
+  async remove(name: string): Promise<boolean> {
+    return withFileLock(this.secretsPath, async () => {
+      const secrets = await this.load()
+      if (!secrets[name]) {
+        return false
+      }
+      delete secrets[name]
+      await this.save(secrets)
+      return true
+    })
+  }
+
+  private async load(): Promise<Secrets> {
+    if (!(await pathExists(this.secretsPath))) {
+      return {}
+    }
+
+    const file = EncryptedFileSchema.parse(JSON.parse(await readFile(this.secretsPath, 'utf-8')))
+    const key = scryptSync(await this.getPassphrase(), Buffer.from(file.salt, 'base64'), 32)
+    let plaintext: string
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'))
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'))
+      plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8')
+    } catch {
+      throw new ValidationError('Cannot decrypt the secret store; was TAZZ_SECRETS_PASSPHRASE or the key file changed?', {
+        secretsPath: this.secretsPath
+      })
+    }
+    return SecretsSchema.parse(JSON.parse(plaintext))
+  }
+
+  private async save(secrets: Secrets): Promise<void> {
+    const salt = randomBytes(16)
+    const iv = randomBytes(12)
+    const key = scryptSync(await this.getPassphrase(), salt, 32)
+    const cipher = createCipheriv('aes-256-gcm', key, iv)
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()])
+
+    const file = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64')
+    }
+    await writeFileAtomic(this.secretsPath, JSON.stringify(file, null, 2), { mode: 0o600 })
+  }
+
+  private async getPassphrase(): Promise<string> {
+    if (process.env.TAZZ_SECRETS_PASSPHRASE) {
+      return process.env.TAZZ_SECRETS_PASSPHRASE
+    }
+
+    if (!(await pathExists(this.keyPath))) {
+      await withFileLock(this.keyPath, async () => {
+        if (!(await pathExists(this.keyPath))) {
+          await writeFileAtomic(this.keyPath, randomBytes(32).toString('hex'), { mode: 0o600 })
+        }
+      })
+    }
+    return (await readFile(this.keyPath, 'utf-8')).trim()
+  }
+}
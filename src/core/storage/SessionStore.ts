@@ -1,34 +1,100 @@
-import { readFile, writeFile, pathExists, ensureFile } from 'fs-extra'
+import { readFile, pathExists } from 'fs-extra'
 import { join } from 'path'
-import { TazzSession, SessionError } from '../types'
+import { z } from 'zod'
+import { TazzSession, SessionError, SessionStatus, AgentType, AgentStatus, TaskStatus } from '../types'
+import { getProjectTazzDir } from '../../utils/paths'
+import { withFileLock, writeFileAtomic } from '../../utils/lock'
+import { DEFAULT_TASK_PRIORITY } from './TaskFileParser'
+
+export const CURRENT_SCHEMA_VERSION = 2
 
 export interface SessionData {
+  schemaVersion: number
   sessions: TazzSession[]
   lastUpdated: string
 }
 
+// Zod schemas for validation; dates are stored as ISO strings and revived on load
+const AgentInstanceSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.nativeEnum(AgentType),
+  status: z.nativeEnum(AgentStatus),
+  pid: z.number().optional(),
+  tmuxPane: z.string().optional(),
+  lastActivity: z.coerce.date(),
+  capabilities: z.array(z.string()).default([]),
+  restarts: z.number().int().nonnegative().optional()
+})
+
+const TaskReferenceSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().default(''),
+  status: z.nativeEnum(TaskStatus),
+  priority: z.number().default(DEFAULT_TASK_PRIORITY),
+  assignedAgent: z.string().optional(),
+  agent: z.string().optional(),
+  dependencies: z.array(z.string()).default([]),
+  estimatedTime: z.number().optional(),
+  actualTime: z.number().optional(),
+  startedAt: z.coerce.date().optional(),
+  isolate: z.boolean().optional(),
+  branch: z.string().optional(),
+  worktreePath: z.string().optional()
+})
+
+const TazzSessionSchema = z.object({
+  id: z.string(),
+  branch: z.string(),
+  worktreePath: z.string(),
+  status: z.nativeEnum(SessionStatus),
+  createdAt: z.coerce.date(),
+  lastActive: z.coerce.date(),
+  agents: z.array(AgentInstanceSchema).default([]),
+  tasks: z.array(TaskReferenceSchema).default([]),
+  metadata: z.record(z.unknown()).default({})
+})
+
+const SessionDataSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  sessions: z.array(TazzSessionSchema),
+  lastUpdated: z.string()
+})
+
+type RawSessionData = Record<string, any>
+
+/**
+ * Migrations keyed by the version they upgrade *from*.
+ * Files written before versioning have no schemaVersion and are treated as v1.
+ */
+const MIGRATIONS: Record<number, (data: RawSessionData) => RawSessionData> = {
+  1: data => ({
+    ...data,
+    schemaVersion: 2,
+    sessions: (data.sessions || []).map((session: RawSessionData) => ({
+      ...session,
+      branch: session.branch || `feature/${session.id}`,
+      status: session.status || SessionStatus.STOPPED,
+      createdAt: session.createdAt || new Date().toISOString(),
+      lastActive: session.lastActive || session.createdAt || new Date().toISOString(),
+      agents: session.agents || [],
+      tasks: session.tasks || [],
+      metadata: session.metadata || {}
+    })),
+    lastUpdated: data.lastUpdated || new Date().toISOString()
+  })
+}
+
 export class SessionStore {
   private sessionsPath: string
 
   constructor(projectPath: string = process.cwd()) {
-    this.sessionsPath = join(projectPath, '.tazz', 'sessions.json')
+    this.sessionsPath = join(getProjectTazzDir(projectPath), 'sessions.json')
   }
 
   async getAllSessions(): Promise<TazzSession[]> {
-    try {
-      if (!await pathExists(this.sessionsPath)) {
-        return []
-      }
-
-      const data = await readFile(this.sessionsPath, 'utf-8')
-      const sessionData: SessionData = JSON.parse(data)
-      
-      return sessionData.sessions || []
-    } catch (error) {
-      throw new SessionError('Failed to read sessions file', {
-        path: this.sessionsPath
-      }, error)
-    }
+    return (await this.load()).sessions
   }
 
   async getSession(sessionId: string): Promise<TazzSession | null> {
@@ -38,58 +104,123 @@ export class SessionStore {
 
   async saveSession(session: TazzSession): Promise<void> {
     try {
-      const sessions = await this.getAllSessions()
-      const existingIndex = sessions.findIndex(s => s.id === session.id)
-
-      if (existingIndex >= 0) {
-        sessions[existingIndex] = session
-      } else {
-        sessions.push(session)
-      }
+      await this.mutate(sessions => {
+        const existingIndex = sessions.findIndex(s => s.id === session.id)
 
-      const sessionData: SessionData = {
-        sessions,
-        lastUpdated: new Date().toISOString()
-      }
+        if (existingIndex >= 0) {
+          sessions[existingIndex] = session
+        } else {
+          sessions.push(session)
+        }
 
-      await ensureFile(this.sessionsPath)
-      await writeFile(this.sessionsPath, JSON.stringify(sessionData, null, 2))
+        return sessions
+      })
     } catch (error) {
       throw new SessionError('Failed to save session', {
         sessionId: session.id,
         path: this.sessionsPath
-      }, error)
+      }, error as Error)
     }
   }
 
   async removeSession(sessionId: string): Promise<void> {
     try {
-      const sessions = await this.getAllSessions()
-      const filteredSessions = sessions.filter(s => s.id !== sessionId)
+      await this.mutate(sessions => sessions.filter(s => s.id !== sessionId))
+    } catch (error) {
+      throw new SessionError('Failed to remove session', {
+        sessionId,
+        path: this.sessionsPath
+      }, error as Error)
+    }
+  }
+
+  /**
+   * Apply an update to the latest stored copy of a session under the file lock
+   */
+  async updateSession(sessionId: string, updater: (session: TazzSession) => void): Promise<TazzSession> {
+    let updated: TazzSession | null = null
+
+    await this.mutate(sessions => {
+      const session = sessions.find(s => s.id === sessionId)
+      if (!session) {
+        throw new SessionError(`Session ${sessionId} not found`, { sessionId })
+      }
+
+      updater(session)
+      updated = session
+      return sessions
+    })
+
+    return updated!
+  }
+
+  async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    await this.updateSession(sessionId, session => {
+      session.status = status
+      session.lastActive = new Date()
+    })
+  }
+
+  /**
+   * Read-modify-write of the whole sessions file, serialized across processes
+   */
+  private async mutate(fn: (sessions: TazzSession[]) => TazzSession[]): Promise<void> {
+    await withFileLock(this.sessionsPath, async () => {
+      const { sessions } = await this.load()
 
       const sessionData: SessionData = {
-        sessions: filteredSessions,
+        schemaVersion: CURRENT_SCHEMA_VERSION,
+        sessions: fn(sessions),
         lastUpdated: new Date().toISOString()
       }
 
-      await writeFile(this.sessionsPath, JSON.stringify(sessionData, null, 2))
+      await writeFileAtomic(this.sessionsPath, JSON.stringify(sessionData, null, 2))
+    })
+  }
+
+  private async load(): Promise<SessionData> {
+    if (!await pathExists(this.sessionsPath)) {
+      return { schemaVersion: CURRENT_SCHEMA_VERSION, sessions: [], lastUpdated: new Date().toISOString() }
+    }
+
+    let raw: RawSessionData
+    try {
+      raw = JSON.parse(await readFile(this.sessionsPath, 'utf-8'))
     } catch (error) {
-      throw new SessionError('Failed to remove session', {
-        sessionId,
+      throw new SessionError('Failed to read sessions file', {
         path: this.sessionsPath
-      }, error)
+      }, error as Error)
+    }
+
+    const migrated = this.migrate(raw)
+    const result = SessionDataSchema.safeParse(migrated)
+    if (!result.success) {
+      throw new SessionError('Sessions file is invalid', {
+        path: this.sessionsPath,
+        issues: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      })
     }
+
+    return result.data as SessionData
   }
 
-  async updateSessionStatus(sessionId: string, status: any): Promise<void> {
-    const session = await this.getSession(sessionId)
-    if (!session) {
-      throw new SessionError(`Session ${sessionId} not found`)
+  private migrate(data: RawSessionData): RawSessionData {
+    let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1
+
+    if (version > CURRENT_SCHEMA_VERSION) {
+      throw new SessionError('Sessions file was written by a newer version of Tazz', {
+        path: this.sessionsPath,
+        schemaVersion: version,
+        supported: CURRENT_SCHEMA_VERSION
+      })
     }
 
-    session.status = status
-    session.lastActive = new Date()
-    
-    await this.saveSession(session)
+    let migrated = data
+    while (version < CURRENT_SCHEMA_VERSION) {
+      migrated = MIGRATIONS[version](migrated)
+      version = migrated.schemaVersion
+    }
+
+    return migrated
   }
-}
\ No newline at end of file
+}
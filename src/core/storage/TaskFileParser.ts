@@ -0,0 +1,314 @@
+import MarkdownIt from 'markdown-it'
+import { readFile, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { TaskReference, TaskStatus } from '../types'
+
+export const TASK_FILE_NAME = 'tazz-todo.md'
+
+export interface ParsedTask extends TaskReference {
+  /** 1-based line of the `- [ ]` item */
+  line: number
+  /** Heading the task was found under, or '' before the first heading */
+  section: string
+  checked: boolean
+}
+
+export interface TaskFileIssue {
+  line: number
+  severity: 'error' | 'warning'
+  message: string
+}
+
+export interface TaskFileParseResult {
+  tasks: ParsedTask[]
+  issues: TaskFileIssue[]
+}
+
+type FieldName = 'session' | 'description' | 'dependsOn' | 'priority' | 'agent' | 'estimate' | 'isolate'
+
+interface FieldLine {
+  name: FieldName
+  value: string
+  line: number
+}
+
+const FIELD_PATTERNS: Array<[FieldName, RegExp]> = [
+  ['session', /^session name\s*:\s*(.*)$/i],
+  ['description', /^description\s*:\s*(.*)$/i],
+  ['dependsOn', /^depends on\s*:\s*(.*)$/i],
+  ['priority', /^priority\s*:\s*(.*)$/i],
+  ['agent', /^agent\s*:\s*(.*)$/i],
+  ['estimate', /^estimate\s*:\s*(.*)$/i],
+  ['isolate', /^isolate\s*:\s*(.*)$/i]
+]
+
+/**
+ * Section headings that hold tasks, and the status their unchecked items get.
+ * Any other heading (Quality Checklist, Session Notes, ...) is not a task list.
+ */
+const TASK_SECTIONS: Record<string, TaskStatus> = {
+  'tasks': TaskStatus.TODO,
+  'session tasks': TaskStatus.TODO,
+  'development tasks': TaskStatus.TODO,
+  'todo': TaskStatus.TODO,
+  'to do': TaskStatus.TODO,
+  'in progress': TaskStatus.IN_PROGRESS,
+  'blocked': TaskStatus.BLOCKED,
+  'done': TaskStatus.COMPLETED,
+  'completed': TaskStatus.COMPLETED
+}
+
+const PRIORITY_NAMES: Record<string, number> = { high: 1, medium: 2, low: 3 }
+/** Tasks without a Priority: field are medium, so high-priority tasks go first */
+export const DEFAULT_TASK_PRIORITY = PRIORITY_NAMES.medium
+const ESTIMATE_UNITS: Record<string, number> = { m: 1, min: 1, h: 60, d: 480 }
+const SESSION_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/
+const CHECKBOX_PATTERN = /^\[([ xX])\]\s+/
+
+/**
+ * Parse a tazz-todo.md file into tasks. Unchecked items under a task section
+ * take that section's status, checked items are COMPLETED, and items before
+ * the first heading count as TODO.
+ */
+export function parseTaskFile(content: string): TaskFileParseResult {
+  const lines = content.split('\n')
+  const tokens = new MarkdownIt().parse(content, {})
+  const tasks: ParsedTask[] = []
+  const issues: TaskFileIssue[] = []
+  const fieldLines = new Map<ParsedTask, FieldLine[]>()
+
+  let section = ''
+  let sectionStatus: TaskStatus | undefined = TaskStatus.TODO
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+
+    if (token.type === 'heading_open') {
+      section = tokens[i + 1].content.trim()
+      sectionStatus = token.tag === 'h1' ? TaskStatus.TODO : TASK_SECTIONS[section.toLowerCase()]
+      continue
+    }
+
+    // Only top-level items are tasks; nested lists are part of the task's text
+    if (token.type !== 'list_item_open' || token.level !== 1 || !token.map || sectionStatus === undefined) {
+      continue
+    }
+
+    // The item's first line is `- [ ] Title`, everything up to a nested list belongs to it
+    const inline = tokens[i + 2]?.type === 'inline' ? tokens[i + 2] : undefined
+    const checkbox = inline?.content.match(CHECKBOX_PATTERN)
+    if (!inline || !checkbox) {
+      continue
+    }
+
+    const [start, end] = token.map
+    const nested = tokens.slice(i + 1).find(t =>
+      t.level === token.level + 1 && (t.type === 'bullet_list_open' || t.type === 'ordered_list_open')
+    )
+    const itemEnd = nested?.map && nested.map[0] < end ? nested.map[0] : end
+    const title = lines[start].replace(/^\s*[-*+]\s+\[[ xX]\]\s*/, '').trim()
+    const checked = checkbox[1].toLowerCase() === 'x'
+
+    const task: ParsedTask = {
+      id: '',
+      title,
+      description: '',
+      status: checked ? TaskStatus.COMPLETED : sectionStatus,
+      priority: DEFAULT_TASK_PRIORITY,
+      dependencies: [],
+      line: start + 1,
+      section,
+      checked
+    }
+
+    if (!title) {
+      issues.push({ line: start + 1, severity: 'error', message: 'Task has no title' })
+    }
+
+    fieldLines.set(task, parseFields(task, lines, start + 1, itemEnd, issues))
+    task.id = task.id || slugify(title)
+    tasks.push(task)
+  }
+
+  resolveTasks(tasks, fieldLines, issues)
+  issues.sort((a, b) => a.line - b.line)
+
+  return { tasks, issues }
+}
+
+/**
+ * Load and parse `.tazz/tazz-todo.md`, or the instance's own task file when it
+ * has one; a missing file yields no tasks
+ */
+export async function loadTaskFile(
+  projectPath: string = process.cwd(),
+  instanceName?: string
+): Promise<TaskFileParseResult & { path: string }> {
+  const instancePath = instanceName && getInstanceTaskFilePath(instanceName, projectPath)
+  const path = instancePath && await pathExists(instancePath) ? instancePath : getTaskFilePath(projectPath)
+  if (!await pathExists(path)) {
+    return { path, tasks: [], issues: [] }
+  }
+  return { path, ...parseTaskFile(await readFile(path, 'utf-8')) }
+}
+
+export function getTaskFilePath(projectPath: string = process.cwd()): string {
+  return join(projectPath, '.tazz', TASK_FILE_NAME)
+}
+
+/**
+ * Task file of a single instance, e.g. one written from its Jira ticket
+ */
+export function getInstanceTaskFilePath(instanceName: string, projectPath: string = process.cwd()): string {
+  return join(projectPath, '.tazz', 'tasks', `${instanceName}.md`)
+}
+
+/**
+ * Tasks that should get a process when an instance starts
+ */
+export function getRunnableTasks<T extends TaskReference>(tasks: T[]): T[] {
+  return tasks.filter(task => task.status === TaskStatus.TODO || task.status === TaskStatus.IN_PROGRESS)
+}
+
+function parseFields(task: ParsedTask, lines: string[], from: number, to: number, issues: TaskFileIssue[]): FieldLine[] {
+  const fields: FieldLine[] = []
+  const description: string[] = []
+  let current: FieldName | undefined
+
+  for (let index = from; index < to; index++) {
+    const text = lines[index].trim()
+    if (!text) {
+      continue
+    }
+
+    const field = FIELD_PATTERNS
+      .map(([name, pattern]) => ({ name, match: text.match(pattern) }))
+      .find(candidate => candidate.match)
+
+    if (!field) {
+      // Continuation of Description:, or free text directly under the title
+      if (current && current !== 'description') {
+        issues.push({ line: index + 1, severity: 'warning', message: `Text after "${fieldLabel(current)}" is treated as description` })
+      }
+      description.push(text)
+      continue
+    }
+
+    if (fields.some(f => f.name === field.name)) {
+      issues.push({ line: index + 1, severity: 'error', message: `Duplicate "${fieldLabel(field.name)}" for task "${task.title}"` })
+      continue
+    }
+
+    current = field.name
+    const value = field.match![1].trim()
+    fields.push({ name: field.name, value, line: index + 1 })
+    if (field.name === 'description' && value) {
+      description.push(value)
+    }
+  }
+
+  task.description = description.join(' ')
+
+  for (const { name, value, line } of fields) {
+    switch (name) {
+      case 'session':
+        if (!SESSION_NAME_PATTERN.test(value)) {
+          issues.push({ line, severity: 'error', message: `Invalid session name "${value}": use letters, numbers, hyphens and underscores` })
+        } else {
+          task.id = value
+        }
+        break
+
+      case 'priority': {
+        const priority = PRIORITY_NAMES[value.toLowerCase()] ?? Number(value)
+        if (!Number.isInteger(priority) || priority < 1) {
+          issues.push({ line, severity: 'error', message: `Invalid priority "${value}": use a positive integer or high/medium/low` })
+        } else {
+          task.priority = priority
+        }
+        break
+      }
+
+      case 'estimate': {
+        const match = value.toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(min|m|h|d)$/)
+        if (!match) {
+          issues.push({ line, severity: 'error', message: `Invalid estimate "${value}": use e.g. 30m, 2h or 1d` })
+        } else {
+          task.estimatedTime = Math.round(parseFloat(match[1]) * ESTIMATE_UNITS[match[2]])
+        }
+        break
+      }
+
+      case 'agent':
+        if (!value) {
+          issues.push({ line, severity: 'error', message: 'Empty "Agent:" field' })
+        } else {
+          task.agent = value
+        }
+        break
+
+      case 'isolate': {
+        const flag = value.toLowerCase()
+        if (!['true', 'yes', 'false', 'no'].includes(flag)) {
+          issues.push({ line, severity: 'error', message: `Invalid isolate value "${value}": use true or false` })
+        } else {
+          task.isolate = flag === 'true' || flag === 'yes'
+        }
+        break
+      }
+
+      case 'dependsOn':
+        task.dependencies = value.split(',').map(dep => dep.trim()).filter(dep => dep !== '')
+        break
+    }
+  }
+
+  return fields
+}
+
+/**
+ * Checks that need every task: unique ids and dependencies that point at real tasks
+ */
+function resolveTasks(tasks: ParsedTask[], fieldLines: Map<ParsedTask, FieldLine[]>, issues: TaskFileIssue[]): void {
+  const byId = new Map<string, ParsedTask>()
+
+  for (const task of tasks) {
+    const existing = byId.get(task.id)
+    if (existing) {
+      issues.push({
+        line: task.line,
+        severity: 'error',
+        message: `Duplicate task id "${task.id}" (also used on line ${existing.line}); give one of them a different "Session name:"`
+      })
+    } else if (task.id) {
+      byId.set(task.id, task)
+    }
+  }
+
+  for (const task of tasks) {
+    const line = fieldLines.get(task)!.find(f => f.name === 'dependsOn')?.line ?? task.line
+    for (const dep of task.dependencies) {
+      if (dep === task.id) {
+        issues.push({ line, severity: 'error', message: `Task "${task.id}" depends on itself` })
+      } else if (!byId.has(dep)) {
+        issues.push({ line, severity: 'error', message: `Unknown dependency "${dep}" for task "${task.id}"` })
+      }
+    }
+  }
+}
+
+function fieldLabel(name: FieldName): string {
+  return {
+    session: 'Session name:',
+    description: 'Description:',
+    dependsOn: 'Depends on:',
+    priority: 'Priority:',
+    agent: 'Agent:',
+    estimate: 'Estimate:',
+    isolate: 'Isolate:'
+  }[name]
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '-')
+}
@@ -0,0 +1,167 @@
+import { readFile, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import { TrackerOperation, SessionError } from '../types'
+import { getProjectTazzDir } from '../../utils/paths'
+import { withFileLock, writeFileAtomic } from '../../utils/lock'
+
+/** Claims older than this belong to a flush that died */
+const CLAIM_TIMEOUT = 5 * 60 * 1000
+
+const OperationBaseSchema = z.object({
+  id: z.string(),
+  tracker: z.enum(['jira', 'github']),
+  issue: z.string(),
+  sessionId: z.string(),
+  taskId: z.string().optional(),
+  createdAt: z.coerce.date(),
+  attempts: z.number().int().nonnegative().default(0),
+  lastError: z.string().optional(),
+  claimedAt: z.coerce.date().optional()
+})
+
+const TrackerOperationSchema = z.discriminatedUnion('action', [
+  OperationBaseSchema.extend({ action: z.literal('transition'), status: z.string() }),
+  OperationBaseSchema.extend({ action: z.literal('comment'), body: z.string() }),
+  OperationBaseSchema.extend({ action: z.literal('worklog'), minutes: z.number().positive(), comment: z.string() }),
+  OperationBaseSchema.extend({ action: z.literal('close') })
+])
+
+const OutboxDataSchema = z.object({
+  operations: z.array(TrackerOperationSchema),
+  lastUpdated: z.string()
+})
+
+type OutboxData = z.infer<typeof OutboxDataSchema>
+
+/** An operation as recorded, before the outbox assigns its bookkeeping fields */
+export type NewTrackerOperation = TrackerOperation extends infer T
+  ? T extends unknown ? Omit<T, 'id' | 'createdAt' | 'attempts' | 'lastError' | 'claimedAt'> : never
+  : never
+
+/**
+ * Per-project outbox of issue tracker updates (tracker-outbox.json next to
+ * queue.json). Operations stay here, in order, until a flush delivers them.
+ */
+export class TrackerOutboxStore {
+  private outboxPath: string
+
+  constructor(projectPath: string = process.cwd()) {
+    this.outboxPath = join(getProjectTazzDir(projectPath), 'tracker-outbox.json')
+  }
+
+  async getAll(sessionId?: string): Promise<TrackerOperation[]> {
+    const { operations } = await this.load()
+    return operations.filter(op => !sessionId || op.sessionId === sessionId)
+  }
+
+  /**
+   * Queue operations; a transition already waiting for the same issue and status is not queued twice
+   */
+  async add(operations: NewTrackerOperation[]): Promise<TrackerOperation[]> {
+    const added: TrackerOperation[] = []
+
+    await this.mutate(existing => {
+      for (const operation of operations) {
+        const duplicate = operation.action === 'transition' && existing.some(op =>
+          op.action === 'transition' && op.tracker === operation.tracker && op.issue === operation.issue && op.status === operation.status)
+        if (!duplicate) {
+          const queued = { ...operation, id: randomUUID(), createdAt: new Date(), attempts: 0 } as TrackerOperation
+          existing.push(queued)
+          added.push(queued)
+        }
+      }
+      return existing
+    })
+
+    return added
+  }
+
+  /**
+   * Atomically mark every unclaimed operation (optionally of one session) as
+   * being sent, so two flushes never deliver the same update
+   */
+  async claim(sessionId?: string): Promise<TrackerOperation[]> {
+    const claimed: TrackerOperation[] = []
+    const now = Date.now()
+
+    await this.mutate(operations => {
+      for (const op of operations) {
+        const free = !op.claimedAt || now - op.claimedAt.getTime() > CLAIM_TIMEOUT
+        if (free && (!sessionId || op.sessionId === sessionId)) {
+          op.claimedAt = new Date(now)
+          claimed.push(op)
+        }
+      }
+      return operations
+    })
+
+    return claimed
+  }
+
+  /**
+   * Remove delivered (or given up) operations
+   */
+  async remove(ids: string[]): Promise<void> {
+    await this.mutate(operations => operations.filter(op => !ids.includes(op.id)))
+  }
+
+  /**
+   * Hand a claimed operation back, recording the error when the send failed
+   */
+  async release(id: string, error?: string): Promise<TrackerOperation | undefined> {
+    let released: TrackerOperation | undefined
+
+    await this.mutate(operations => {
+      const op = operations.find(o => o.id === id)
+      if (op) {
+        op.claimedAt = undefined
+        if (error !== undefined) {
+          op.attempts++
+          op.lastError = error
+        }
+        released = op
+      }
+      return operations
+    })
+
+    return released
+  }
+
+  private async mutate(fn: (operations: TrackerOperation[]) => TrackerOperation[]): Promise<void> {
+    await withFileLock(this.outboxPath, async () => {
+      const { operations } = await this.load()
+      const data: OutboxData = {
+        operations: fn(operations),
+        lastUpdated: new Date().toISOString()
+      }
+      await writeFileAtomic(this.outboxPath, JSON.stringify(data, null, 2))
+    })
+  }
+
+  private async load(): Promise<{ operations: TrackerOperation[] }> {
+    if (!await pathExists(this.outboxPath)) {
+      return { operations: [] }
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(await readFile(this.outboxPath, 'utf-8'))
+    } catch (error) {
+      throw new SessionError('Failed to read tracker outbox', {
+        path: this.outboxPath
+      }, error as Error)
+    }
+
+    const result = OutboxDataSchema.safeParse(raw)
+    if (!result.success) {
+      throw new SessionError('Tracker outbox file is invalid', {
+        path: this.outboxPath,
+        issues: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      })
+    }
+
+    return { operations: result.data.operations as TrackerOperation[] }
+  }
+}
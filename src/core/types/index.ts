@@ -20,6 +20,8 @@ export enum SessionStatus {
 
 export interface SessionMetadata {
   jira?: {
+    /** Issue key; sessions recorded before it was stored use their id */
+    key?: string
     title: string
     description: string
     priority: string
@@ -27,6 +29,10 @@ export interface SessionMetadata {
     status: string
     type: string
     storyPoints?: number
+    url?: string
+    acceptanceCriteria?: string[]
+    subtasks?: JiraIssueReference[]
+    links?: JiraIssueReference[]
   }
   github?: {
     relatedPRs: Array<{
@@ -35,6 +41,8 @@ export interface SessionMetadata {
       status: string
       url: string
     }>
+    /** Issue the session works on, e.g. from `tazz run --issue 42` */
+    issue?: GitHubIssueReference
   }
   sonarcloud?: {
     projectKey: string
@@ -42,9 +50,40 @@ export interface SessionMetadata {
     coverage: number
     issues: number
   }
+  scheduler?: {
+    /** Most task processes that may run at once for this session */
+    maxParallel: number
+  }
   custom?: Record<string, unknown>
 }
 
+export interface GitHubIssueReference {
+  owner: string
+  repo: string
+  number: number
+}
+
+/**
+ * Pull request state as shown by `tazz list`, refreshed through the GitHub MCP
+ */
+export interface PullRequestStatus {
+  url: string
+  number: number
+  state: 'open' | 'draft' | 'merged' | 'closed'
+  reviewDecision?: 'approved' | 'changes_requested' | 'review_required'
+  /** Combined state of the head commit's checks */
+  checks?: 'success' | 'pending' | 'failure' | 'none'
+  fetchedAt: Date
+}
+
+export interface JiraIssueReference {
+  key: string
+  title: string
+  status: string
+  /** How a linked issue relates to the session's issue, e.g. `is blocked by` */
+  relation?: string
+}
+
 export interface AgentInstance {
   id: string
   name: string
@@ -54,6 +93,8 @@ export interface AgentInstance {
   tmuxPane?: string
   lastActivity: Date
   capabilities: string[]
+  /** Times the monitor restarted this agent after it crashed */
+  restarts?: number
 }
 
 export enum AgentType {
@@ -76,9 +117,20 @@ export interface TaskReference {
   status: TaskStatus
   priority: number
   assignedAgent?: string
+  /** Agent profile requested by the task file (`Agent:`) */
+  agent?: string
   dependencies: string[]
+  /** Minutes */
   estimatedTime?: number
+  /** Minutes from the task's start to its completion */
   actualTime?: number
+  /** When the scheduler last started the task */
+  startedAt?: Date
+  /** Run in a worktree of its own, on a branch off the instance branch */
+  isolate?: boolean
+  /** Task branch and worktree, once an isolated task has been started */
+  branch?: string
+  worktreePath?: string
 }
 
 export enum TaskStatus {
@@ -98,7 +150,11 @@ export interface MCPServer {
   autoApprove: string[]
   disabled: boolean
   timeout: number
-  transportType: 'stdio' | 'sse'
+  transportType: 'stdio' | 'sse' | 'http'
+  /** Endpoint of sse and http (streamable HTTP) servers */
+  url?: string
+  /** Extra request headers for sse and http servers, e.g. Authorization */
+  headers?: Record<string, string>
 }
 
 export interface MCPConfiguration {
@@ -146,6 +202,57 @@ export interface CommandResult {
   metadata?: Record<string, unknown>
 }
 
+export enum QueuedCommandStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled'
+}
+
+/**
+ * An AgentCommand in the project's on-disk command queue
+ */
+export interface QueuedCommand {
+  command: AgentCommand
+  status: QueuedCommandStatus
+  /** Attempts made so far; a failed attempt is retried while attempts <= maxRetries */
+  attempts: number
+  maxRetries: number
+  /** Per-attempt time limit (ms) */
+  timeout: number
+  /** One result per attempt, oldest first */
+  results: CommandResult[]
+  enqueuedAt: Date
+  startedAt?: Date
+  finishedAt?: Date
+}
+
+export type TrackerOperation =
+  | TrackerOperationBase & { action: 'transition'; status: string }
+  | TrackerOperationBase & { action: 'comment'; body: string }
+  | TrackerOperationBase & { action: 'worklog'; minutes: number; comment: string }
+  | TrackerOperationBase & { action: 'close' }
+
+/**
+ * A change to push to an issue tracker, waiting in the project's outbox
+ * until the tracker's MCP server can be reached
+ */
+export interface TrackerOperationBase {
+  id: string
+  tracker: 'jira' | 'github'
+  /** Jira key (`PROJ-12`) or GitHub `owner/repo#42` */
+  issue: string
+  sessionId: string
+  taskId?: string
+  createdAt: Date
+  /** Failed sends so far; the operation is dropped after too many */
+  attempts: number
+  lastError?: string
+  /** Set while a flush is sending it, so concurrent flushes skip it */
+  claimedAt?: Date
+}
+
 // Project Analysis Types
 export interface DependencyAnalysis {
   packageManager: string
@@ -240,12 +347,60 @@ export interface TazzConfig {
   mcpServers: MCPConfiguration
 }
 
+/**
+ * Per-project config written by `tazz make` to the project's tazz directory (config.json)
+ */
+export interface ProjectConfig {
+  version: string
+  project: {
+    name: string
+    path: string
+    type: string
+  }
+  settings: ProjectSettings
+  /** Agent commands by name; tasks pick one with `Agent:`, otherwise settings.defaultAgent */
+  agents: Record<string, AgentConfig>
+}
+
+export interface ProjectSettings {
+  maxConcurrentSessions: number
+  defaultBranch?: string
+  tmuxPrefix: string
+  agentTimeout: number
+  /** Where instance worktrees are created; supports ~, {project} and {instance} */
+  worktreeRoot: string
+  /** Branch name for new instances; supports {type}, {ticket}, {slug} and {name} */
+  branchTemplate: string
+  /** Agent used for tasks without an `Agent:` field */
+  defaultAgent: string
+  /** Branch name for isolated tasks; supports {branch}, {instance} and {task} */
+  taskBranchTemplate: string
+  trackerSync: TrackerSyncSettings
+}
+
+export interface TrackerSyncSettings {
+  /** Push task status changes to Jira and GitHub issues */
+  enabled: boolean
+  /** Jira transition (or target status) name per task status; an empty name skips the transition */
+  transitions: Partial<Record<TaskStatus, string>>
+}
+
 export interface AgentConfig {
   enabled: boolean
   apiKey?: string
   model?: string
   timeout?: number
   maxRetries?: number
+  /** Executable to start in the task's tmux pane (defaults to the agent name) */
+  command?: string
+  /** Arguments; `{prompt}` is the prompt text, `{promptFile}` its path, `{model}` the model */
+  args?: string[]
+  /** Extra environment for the agent's tmux session */
+  env?: Record<string, string>
+  /** Whether the monitor restarts the agent when it crashes before its task is done */
+  restart?: 'never' | 'on-failure'
+  /** Restarts allowed per agent under `restart: on-failure` (default 3) */
+  maxRestarts?: number
 }
 
 export interface HookConfiguration {
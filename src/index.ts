@@ -9,6 +9,17 @@ import { RunCommand } from './cli/commands/run'
 import { ListCommand } from './cli/commands/list'
 import { JoinCommand } from './cli/commands/join'
 import { StopCommand } from './cli/commands/stop'
+import { ResumeCommand } from './cli/commands/resume'
+import { DoneCommand } from './cli/commands/done'
+import { MergeCommand } from './cli/commands/merge'
+import { PRCommand } from './cli/commands/pr'
+import { AgentCommand } from './cli/commands/agent'
+import { QueueCommand } from './cli/commands/queue'
+import { MonitorCommand } from './cli/commands/monitor'
+import { DaemonCommand } from './cli/commands/daemon'
+import { MCPCommand } from './cli/commands/mcp'
+import { SecretsCommand } from './cli/commands/secrets'
+import { SyncCommand } from './cli/commands/sync'
 import { DeleteCommand } from './cli/commands/delete'
 import { HealthCommand } from './cli/commands/health'
 import { InteractiveCommand } from './cli/commands/interactive'
@@ -69,6 +80,17 @@ async function main() {
   program.addCommand(new ListCommand().build())
   program.addCommand(new JoinCommand().build())
   program.addCommand(new StopCommand().build())
+  program.addCommand(new ResumeCommand().build())
+  program.addCommand(new DoneCommand().build())
+  program.addCommand(new SyncCommand().build())
+  program.addCommand(new MergeCommand().build())
+  program.addCommand(new PRCommand().build())
+  program.addCommand(new AgentCommand().build())
+  program.addCommand(new QueueCommand().build())
+  program.addCommand(new MonitorCommand().build())
+  program.addCommand(new DaemonCommand().build())
+  program.addCommand(new MCPCommand().build())
+  program.addCommand(new SecretsCommand().build())
   program.addCommand(new DeleteCommand().build())
   program.addCommand(new HealthCommand().build())
   program.addCommand(new CleanCommand().build())
@@ -93,6 +115,17 @@ async function main() {
     console.log('  $ tazz run feature-auth        Start development instance')
     console.log('  $ tazz health                  Check system dependencies')
     console.log('  $ tazz list                    Show all instances')
+    console.log('  $ tazz resume feature-auth     Resume a stopped instance')
+    console.log('  $ tazz done feature-auth_api   Complete a task and start its dependents')
+    console.log('  $ tazz sync --dry-run          Preview the updates queued for Jira and GitHub')
+    console.log('  $ tazz merge feature-auth      Merge isolated task branches into the instance')
+    console.log('  $ tazz pr feature-auth         Push the instance branch and open a pull request')
+    console.log('  $ tazz agent run -t "a, b"     Dispatch ad-hoc tasks to agents')
+    console.log('  $ tazz queue ls                Inspect the agent command queue')
+    console.log('  $ tazz monitor                 Watch agents and restart crashed ones')
+    console.log('  $ tazz daemon start            Run sessions, monitor and queue in the background')
+    console.log('  $ tazz mcp call git git_status Call an MCP tool and print the result as JSON')
+    console.log('  $ tazz secrets set jira-token  Store a credential MCP settings reference as ${secret:jira-token}')
     console.log('')
     console.log(chalk.yellow('For more information, visit: https://github.com/tazz-dev/tazz-cli'))
   })
@@ -148,8 +181,8 @@ process.on('uncaughtException', (error) => {
   process.exit(1)
 })
 
-// Show Tazz logo on direct execution
-if (require.main === module) {
+// Show Tazz logo on direct execution, but keep piped output (e.g. `tazz mcp call ... | jq`) clean
+if (require.main === module && process.stdout.isTTY) {
   console.log(chalk.cyan(TAZZ_LOGO))
   console.log(chalk.bold.cyan('=== Tazz CLI Tool ==='))
   console.log(chalk.gray('   AI-Powered Development Orchestrator'))
@@ -0,0 +1,253 @@
+import { execa } from 'execa'
+import { resolve, dirname } from 'path'
+import { readFile, appendFile, mkdir } from 'fs/promises'
+
+/**
+ * Run git with an argument array, never through a shell: branch names, paths
+ * and commit messages come from task files and trackers
+ */
+async function git(args: string[], cwd: string): Promise<{ stdout: string }> {
+  return execa('git', args, { cwd })
+}
+
+export interface GitWorktree {
+  path: string
+  branch?: string
+  head?: string
+}
+
+/**
+ * List all worktrees attached to the repository at the given path
+ */
+export async function listWorktrees(repoPath: string = process.cwd()): Promise<GitWorktree[]> {
+  try {
+    const { stdout } = await git(['worktree', 'list', '--porcelain'], repoPath)
+    const worktrees: GitWorktree[] = []
+    let current: GitWorktree | null = null
+
+    for (const line of stdout.split('\n')) {
+      if (line.startsWith('worktree ')) {
+        current = { path: resolve(line.substring('worktree '.length)) }
+        worktrees.push(current)
+      } else if (current && line.startsWith('HEAD ')) {
+        current.head = line.substring('HEAD '.length)
+      } else if (current && line.startsWith('branch ')) {
+        current.branch = line.substring('branch '.length).replace(/^refs\/heads\//, '')
+      }
+    }
+
+    return worktrees
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Detect the repository's default branch (origin/HEAD, then main/master)
+ */
+export async function getDefaultBranch(repoPath: string = process.cwd()): Promise<string> {
+  try {
+    const { stdout } = await git(['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'], repoPath)
+    return stdout.trim().replace(/^origin\//, '')
+  } catch {
+    for (const candidate of ['main', 'master']) {
+      if (await branchExists(candidate, repoPath)) {
+        return candidate
+      }
+    }
+    return 'main'
+  }
+}
+
+/**
+ * Check whether a local branch exists
+ */
+export async function branchExists(branch: string, repoPath: string = process.cwd()): Promise<boolean> {
+  try {
+    await git(['show-ref', '--verify', '--quiet', `refs/heads/${branch}`], repoPath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Uncommitted (staged, unstaged and untracked) changes in a worktree, as porcelain status lines
+ */
+export async function getUncommittedChanges(worktreePath: string): Promise<string[]> {
+  const { stdout } = await git(['status', '--porcelain'], worktreePath)
+  return stdout.split('\n').filter(line => line.trim() !== '')
+}
+
+/**
+ * Commits on `branch` that exist on no remote and are not in `baseBranch`
+ */
+export async function getUnpushedCommits(
+  branch: string,
+  baseBranch: string,
+  repoPath: string = process.cwd()
+): Promise<string[]> {
+  const { stdout } = await git(['log', '--oneline', branch, '--not', '--remotes', baseBranch], repoPath)
+  return stdout.split('\n').filter(line => line.trim() !== '')
+}
+
+/**
+ * Check whether every commit of `branch` is already contained in `into`
+ */
+export async function isBranchMerged(branch: string, into: string, repoPath: string = process.cwd()): Promise<boolean> {
+  try {
+    await git(['merge-base', '--is-ancestor', branch, into], repoPath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Remove a worktree; `force` discards uncommitted changes
+ */
+export async function removeWorktree(worktreePath: string, force: boolean, repoPath: string = process.cwd()): Promise<void> {
+  await git(['worktree', 'remove', ...(force ? ['--force'] : []), worktreePath], repoPath)
+}
+
+/**
+ * Delete a local branch. Callers are expected to have checked it is merged.
+ */
+export async function deleteBranch(branch: string, repoPath: string = process.cwd()): Promise<void> {
+  await git(['branch', '-D', branch], repoPath)
+}
+
+/**
+ * Check whether a ref resolves to a commit
+ */
+export async function refExists(ref: string, repoPath: string = process.cwd()): Promise<boolean> {
+  try {
+    await git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], repoPath)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Add a worktree, either creating `branch` from `base` (HEAD if omitted) or
+ * checking out an existing branch
+ */
+export async function addWorktree(
+  worktreePath: string,
+  branch: string,
+  options: { createBranch: boolean; base?: string },
+  repoPath: string = process.cwd()
+): Promise<void> {
+  const args = options.createBranch
+    ? ['worktree', 'add', '-b', branch, worktreePath, ...(options.base ? [options.base] : [])]
+    : ['worktree', 'add', worktreePath, branch]
+  await git(args, repoPath)
+}
+
+/**
+ * Add a pattern to the repository's info/exclude (shared by all its worktrees)
+ * so generated files never show up as uncommitted changes
+ */
+export async function ensureExcluded(pattern: string, worktreePath: string): Promise<void> {
+  const { stdout } = await git(['rev-parse', '--git-common-dir'], worktreePath)
+  const excludePath = resolve(worktreePath, stdout.trim(), 'info', 'exclude')
+  const current = await readFile(excludePath, 'utf-8').catch(() => '')
+
+  if (!current.split('\n').includes(pattern)) {
+    await mkdir(dirname(excludePath), { recursive: true })
+    await appendFile(excludePath, `${current && !current.endsWith('\n') ? '\n' : ''}${pattern}\n`)
+  }
+}
+
+/**
+ * Commits on `branch` that are not in `base`, oldest first
+ */
+export async function getCommitsBetween(base: string, branch: string, repoPath: string = process.cwd()): Promise<string[]> {
+  const { stdout } = await git(['log', '--oneline', '--reverse', `${base}..${branch}`], repoPath)
+  return stdout.split('\n').filter(line => line.trim() !== '')
+}
+
+/**
+ * `git diff --stat` of what the branch checked out at `worktreePath` added since
+ * it forked from `base`, uncommitted changes included
+ */
+export async function getDiffStat(base: string, worktreePath: string): Promise<string> {
+  const { stdout: mergeBase } = await git(['merge-base', base, 'HEAD'], worktreePath)
+  const { stdout } = await git(['diff', '--stat', mergeBase.trim()], worktreePath)
+  return stdout.trimEnd()
+}
+
+/**
+ * GitHub owner and repository name of a remote, from its https or ssh URL
+ */
+export async function getRemoteRepository(
+  repoPath: string = process.cwd(),
+  remote: string = 'origin'
+): Promise<{ owner: string; repo: string } | undefined> {
+  try {
+    const { stdout } = await git(['remote', 'get-url', remote], repoPath)
+    const match = stdout.trim().match(/[/:]([^/:]+)\/([^/]+?)(?:\.git)?\/?$/)
+    return match ? { owner: match[1], repo: match[2] } : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Push `branch` to `remote` and make it the branch's upstream
+ */
+export async function pushBranch(
+  branch: string,
+  repoPath: string = process.cwd(),
+  remote: string = 'origin'
+): Promise<void> {
+  await git(['push', '--set-upstream', remote, branch], repoPath)
+}
+
+/**
+ * Merge `branch` into the branch checked out at `worktreePath`. On conflict the
+ * merge is aborted and the conflicted files are returned; an empty list means
+ * the merge succeeded.
+ */
+export async function mergeBranch(
+  branch: string,
+  worktreePath: string,
+  options: { fastForwardOnly?: boolean; message?: string } = {}
+): Promise<string[]> {
+  const flags = options.fastForwardOnly ? ['--ff-only'] : ['--no-ff', '-m', options.message || `Merge branch '${branch}'`]
+  try {
+    await git(['merge', ...flags, branch], worktreePath)
+    return []
+  } catch (error) {
+    const conflicts = await getConflictedFiles(worktreePath)
+    if (conflicts.length === 0) {
+      throw error
+    }
+    await git(['merge', '--abort'], worktreePath)
+    return conflicts
+  }
+}
+
+/**
+ * Rebase the branch checked out at `worktreePath` onto `onto`. On conflict the
+ * rebase is aborted and the conflicted files are returned.
+ */
+export async function rebaseBranch(onto: string, worktreePath: string): Promise<string[]> {
+  try {
+    await git(['rebase', onto], worktreePath)
+    return []
+  } catch (error) {
+    const conflicts = await getConflictedFiles(worktreePath)
+    if (conflicts.length === 0) {
+      throw error
+    }
+    await git(['rebase', '--abort'], worktreePath)
+    return conflicts
+  }
+}
+
+async function getConflictedFiles(worktreePath: string): Promise<string[]> {
+  const { stdout } = await git(['diff', '--name-only', '--diff-filter=U'], worktreePath)
+  return stdout.split('\n').filter(line => line.trim() !== '')
+}
@@ -0,0 +1,124 @@
+import { Readable } from 'stream'
+
+export type JsonRpcId = number | string
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0'
+  id: JsonRpcId
+  method: string
+  params?: unknown
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: unknown
+}
+
+export interface JsonRpcErrorObject {
+  code: number
+  message: string
+  data?: unknown
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0'
+  id: JsonRpcId | null
+  result?: unknown
+  error?: JsonRpcErrorObject
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse
+
+export const JSONRPC_PARSE_ERROR = -32700
+export const JSONRPC_INVALID_REQUEST = -32600
+export const JSONRPC_METHOD_NOT_FOUND = -32601
+export const JSONRPC_INVALID_PARAMS = -32602
+export const JSONRPC_INTERNAL_ERROR = -32603
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+/**
+ * Date fields of the records the daemon exchanges (sessions, agents, tasks,
+ * queued commands, tmux processes). Other strings, such as task titles or
+ * metadata, stay strings even when they look like timestamps.
+ */
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'lastActive',
+  'lastActivity',
+  'startedAt',
+  'finishedAt',
+  'enqueuedAt',
+  'claimedAt',
+  'fetchedAt',
+  'timestamp',
+  'lastOutput',
+  'created'
+])
+
+export function isRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message && message.id !== undefined && message.id !== null
+}
+
+export function isNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return 'method' in message && !('id' in message && message.id !== undefined && message.id !== null)
+}
+
+export function isResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+  return !('method' in message) && ('result' in message || 'error' in message)
+}
+
+/**
+ * Serialize a message as one line of newline-delimited JSON
+ */
+export function encodeMessage(message: JsonRpcMessage): string {
+  return `${JSON.stringify(message)}\n`
+}
+
+/**
+ * JSON.parse reviver turning ISO timestamps (as produced by Date#toJSON) of
+ * known date fields back into Dates
+ */
+export function reviveDates(key: string, value: unknown): unknown {
+  return DATE_FIELDS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value) ? new Date(value) : value
+}
+
+/**
+ * Call `onMessage` for every newline-delimited JSON message read from `stream`.
+ * Lines that are not JSON go to `onInvalid` (servers that log to stdout do this).
+ */
+export function readMessages(
+  stream: Readable,
+  onMessage: (message: JsonRpcMessage) => void,
+  onInvalid: (line: string, error: Error) => void = () => undefined,
+  reviver?: (key: string, value: unknown) => unknown
+): void {
+  let buffer = ''
+
+  stream.setEncoding('utf-8')
+  stream.on('data', (chunk: string) => {
+    buffer += chunk
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.substring(0, newline).replace(/\r$/, '')
+      buffer = buffer.substring(newline + 1)
+      if (line.trim() === '') {
+        continue
+      }
+
+      let message: JsonRpcMessage
+      try {
+        message = JSON.parse(line, reviver)
+      } catch (error) {
+        onInvalid(line, error as Error)
+        continue
+      }
+      if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+        onInvalid(line, new Error('Not a JSON-RPC message'))
+        continue
+      }
+      onMessage(message)
+    }
+  })
+}
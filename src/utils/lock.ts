@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs'
+import { randomUUID } from 'crypto'
+import { stat, unlink, ensureDir, writeFile, rename, link } from 'fs-extra'
+import { dirname } from 'path'
+
+export interface FileLockOptions {
+  /** How long to keep retrying before giving up (ms) */
+  timeout?: number
+  /** Locks older than this are considered abandoned by a crashed process (ms) */
+  staleAfter?: number
+  /** Delay between attempts (ms) */
+  retryInterval?: number
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<FileLockOptions> = {
+  timeout: 10000,
+  staleAfter: 30000,
+  retryInterval: 50
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file next to `targetPath`
+ */
+export async function withFileLock<T>(
+  targetPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const config = { ...DEFAULT_LOCK_OPTIONS, ...options }
+  const lockPath = `${targetPath}.lock`
+  const deadline = Date.now() + config.timeout
+
+  await ensureDir(dirname(lockPath))
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx')
+      await handle.writeFile(String(process.pid))
+      await handle.close()
+      break
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+
+      await removeIfStale(lockPath, config.staleAfter)
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock on ${targetPath}`)
+      }
+      await new Promise(resolve => setTimeout(resolve, config.retryInterval))
+    }
+  }
+
+  try {
+    return await fn()
+  } finally {
+    await unlink(lockPath).catch(() => undefined)
+  }
+}
+
+/**
+ * Write a file atomically: write to a temp file in the same directory, then rename over the target
+ */
+export async function writeFileAtomic(targetPath: string, content: string, options: { mode?: number } = {}): Promise<void> {
+  const tempPath = `${targetPath}.${process.pid}.${Date.now()}.tmp`
+
+  await ensureDir(dirname(targetPath))
+  try {
+    await writeFile(tempPath, content, { mode: options.mode })
+    await rename(tempPath, targetPath)
+  } catch (error) {
+    await unlink(tempPath).catch(() => undefined)
+    throw error
+  }
+}
+
+/**
+ * Take over a lock left behind by a crashed process. The rename is atomic, so
+ * only one waiter moves a stale lock away; checking the moved file again
+ * catches the case where that was a fresh lock another waiter had just taken.
+ */
+async function removeIfStale(lockPath: string, staleAfter: number): Promise<void> {
+  let stats
+  try {
+    stats = await stat(lockPath)
+  } catch {
+    // Lock was released between our attempts
+    return
+  }
+  if (Date.now() - stats.mtimeMs <= staleAfter) {
+    return
+  }
+
+  const stalePath = `${lockPath}.${randomUUID()}.stale`
+  try {
+    await rename(lockPath, stalePath)
+  } catch {
+    // Another waiter took it over first
+    return
+  }
+  const moved = await stat(stalePath)
+  if (moved.ino !== stats.ino || Date.now() - moved.mtimeMs <= staleAfter) {
+    // Put the live lock back, unless yet another waiter locked in the meantime
+    await link(stalePath, lockPath).catch(() => undefined)
+  }
+  await unlink(stalePath).catch(() => undefined)
+}
@@ -17,6 +17,49 @@ export interface LogEntry {
   pid: number
 }
 
+// Values that must never reach a log transport, e.g. resolved secrets
+const redactedValues = new Set<string>()
+
+/**
+ * Replace `value` with *** in everything logged from now on, and in `redact`
+ */
+export function addRedactedValue(value: string): void {
+  // Very short values would mangle unrelated text
+  if (value.length >= 4) {
+    redactedValues.add(value)
+  }
+}
+
+export function redact(text: string): string {
+  let result = text
+  redactedValues.forEach(value => {
+    result = result.split(value).join('***')
+  })
+  return result
+}
+
+function redactDeep(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redact(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactDeep)
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactDeep(item)]))
+  }
+  return value
+}
+
+const redactFormat = winston.format(info => {
+  if (redactedValues.size > 0) {
+    Object.keys(info).forEach(key => {
+      info[key] = redactDeep(info[key])
+    })
+  }
+  return info
+})
+
 export class Logger {
   private winston: winston.Logger
   private config: LoggerConfig
@@ -33,6 +76,7 @@ export class Logger {
     this.winston = winston.createLogger({
       level: this.config.level,
       format: winston.format.combine(
+        redactFormat(),
         winston.format.timestamp(),
         winston.format.errors({ stack: true }),
         winston.format.json()
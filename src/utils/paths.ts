@@ -1,5 +1,6 @@
 import { join } from 'path'
 import { homedir } from 'os'
+import { createHash } from 'crypto'
 
 /**
  * Get the centralized Tazz directory path
@@ -43,6 +44,34 @@ export function getProjectTazzDir(projectPath: string): string {
   return join(getTazzDir(), 'projects', projectName)
 }
 
+/**
+ * Get the data directory for a single session of a project (captures, prompts, etc.)
+ */
+export function getSessionDataDir(projectPath: string, sessionId: string): string {
+  return join(getProjectTazzDir(projectPath), 'sessions', sessionId)
+}
+
+/**
+ * Get the control socket of a project's daemon. Unix socket paths are limited
+ * to ~100 bytes, so it is keyed by a hash of the project path instead of
+ * living in the (arbitrarily long) project directory.
+ */
+export function getDaemonSocketPath(projectPath: string): string {
+  const hash = createHash('sha1').update(projectPath).digest('hex').substring(0, 12)
+  return join(getTazzDir(), 'run', `${hash}.sock`)
+}
+
+/**
+ * Get the encrypted secret store and the key file holding its local passphrase
+ */
+export function getSecretsPath(): string {
+  return join(getTazzDir(), 'secrets.json')
+}
+
+export function getSecretsKeyPath(): string {
+  return join(getTazzDir(), 'secrets.key')
+}
+
 /**
  * Get the main tazz log file path
  */
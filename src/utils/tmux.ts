@@ -0,0 +1,117 @@
+import { exec } from 'child_process'
+import { promisify } from 'util'
+
+const execAsync = promisify(exec)
+
+export const TMUX_PREFIX = 'tazz_'
+
+export interface TmuxProcess {
+  sessionName: string
+  processId: string
+  created: Date
+  path: string
+}
+
+/**
+ * Get the tmux session name for a Tazz process ID (e.g. instance_task-1)
+ */
+export function getTmuxSessionName(processId: string): string {
+  return `${TMUX_PREFIX}${processId}`
+}
+
+/**
+ * List all live tmux sessions created by Tazz
+ */
+export async function listTazzTmuxSessions(): Promise<TmuxProcess[]> {
+  try {
+    const { stdout } = await execAsync(
+      'tmux list-sessions -F "#{session_name}|#{session_created}|#{session_path}" 2>/dev/null || true'
+    )
+
+    return stdout
+      .trim()
+      .split('\n')
+      .filter(line => line.startsWith(TMUX_PREFIX))
+      .map(line => {
+        const [sessionName, created, path] = line.split('|')
+        return {
+          sessionName,
+          processId: sessionName.substring(TMUX_PREFIX.length),
+          created: new Date(parseInt(created) * 1000),
+          path: path || ''
+        }
+      })
+  } catch {
+    // tmux not available or no server running
+    return []
+  }
+}
+
+/**
+ * Check whether a tmux session exists
+ */
+export async function hasTmuxSession(sessionName: string): Promise<boolean> {
+  try {
+    await execAsync(`tmux has-session -t "${sessionName}" 2>/dev/null`)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Kill a tmux session
+ */
+export async function killTmuxSession(sessionName: string): Promise<void> {
+  await execAsync(`tmux kill-session -t "${sessionName}"`)
+}
+
+export interface TmuxPane {
+  paneId: string
+  pid: number
+  currentCommand: string
+  dead: boolean
+  /** Last time the pane's window produced output */
+  lastActivity: Date
+}
+
+/**
+ * List every pane across all windows of a tmux session
+ */
+export async function listPanes(sessionName: string): Promise<TmuxPane[]> {
+  const { stdout } = await execAsync(
+    `tmux list-panes -s -t "${sessionName}" -F "#{pane_id}|#{pane_pid}|#{pane_current_command}|#{pane_dead}|#{window_activity}"`
+  )
+
+  return stdout
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map(line => {
+      const [paneId, pid, currentCommand, dead, activity] = line.split('|')
+      return {
+        paneId,
+        pid: parseInt(pid),
+        currentCommand,
+        dead: dead === '1',
+        lastActivity: new Date(parseInt(activity) * 1000)
+      }
+    })
+}
+
+/**
+ * Send C-c to a pane to interrupt its foreground program
+ */
+export async function sendInterrupt(target: string): Promise<void> {
+  await execAsync(`tmux send-keys -t "${target}" C-c`)
+}
+
+/**
+ * Capture the full scrollback history of a pane
+ */
+export async function capturePane(target: string): Promise<string> {
+  const { stdout } = await execAsync(`tmux capture-pane -p -J -S - -t "${target}"`, {
+    maxBuffer: 50 * 1024 * 1024
+  })
+  return stdout
+}
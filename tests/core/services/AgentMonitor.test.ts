@@ -0,0 +1,171 @@
+import { outputJson } from 'fs-extra'
+import { join } from 'path'
+import { AgentMonitor } from '../../../src/core/services/AgentMonitor'
+import { SessionStore } from '../../../src/core/storage/SessionStore'
+import { AgentInstance, AgentStatus, AgentType, SessionStatus, TaskStatus } from '../../../src/core/types'
+import { getProjectTazzDir } from '../../../src/utils/paths'
+import { getLogger } from '../../../src/utils/logger'
+import { listTazzTmuxSessions } from '../../../src/utils/tmux'
+import { createTempProject, createSession } from '../../helpers'
+
+vi.mock('../../../src/utils/tmux', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../src/utils/tmux')>(),
+  listTazzTmuxSessions: vi.fn().mockResolvedValue([]),
+  hasTmuxSession: vi.fn().mockResolvedValue(false),
+  killTmuxSession: vi.fn().mockResolvedValue(undefined)
+}))
+
+const AGENT_ID = 'feature-auth_api'
+
+function agent(overrides: Partial<AgentInstance> = {}): AgentInstance {
+  return {
+    id: AGENT_ID,
+    name: 'API',
+    type: AgentType.CLAUDE,
+    status: AgentStatus.RUNNING,
+    lastActivity: new Date(),
+    capabilities: [],
+    ...overrides
+  }
+}
+
+describe('AgentMonitor', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let store: SessionStore
+  let monitor: AgentMonitor
+  let launcher: any
+
+  async function writeConfig(claude: Record<string, unknown>): Promise<void> {
+    await outputJson(join(getProjectTazzDir(project.path), 'config.json'), {
+      agents: { claude: { enabled: true, command: 'claude', args: [], ...claude } }
+    })
+  }
+
+  async function saveSession(agents: AgentInstance[], status = SessionStatus.ACTIVE): Promise<void> {
+    await store.saveSession(createSession({
+      worktreePath: project.path,
+      status,
+      agents,
+      tasks: [{
+        id: 'api',
+        title: 'API',
+        description: '',
+        status: TaskStatus.IN_PROGRESS,
+        priority: 2,
+        dependencies: [],
+        assignedAgent: AGENT_ID
+      }]
+    }))
+  }
+
+  /** Pretend the tmux sessions of `ids` are running */
+  function liveTmuxSessions(...ids: string[]): void {
+    vi.mocked(listTazzTmuxSessions).mockResolvedValue(ids.map(processId => ({
+      sessionName: `tazz_${processId}`,
+      processId,
+      created: new Date(),
+      path: project.path
+    })))
+  }
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    store = new SessionStore(project.path)
+    monitor = new AgentMonitor(getLogger(), project.path)
+    launcher = (monitor as any).launcher
+    vi.spyOn(launcher, 'launchTaskProcess').mockImplementation(async (processId: any) => ({
+      processId,
+      tmuxSession: `tazz_${processId}`,
+      agent: { name: 'claude', type: AgentType.CLAUDE, promptFile: '' }
+    }))
+    vi.spyOn(launcher, 'waitForAgent').mockResolvedValue(true)
+    liveTmuxSessions(AGENT_ID)
+    await writeConfig({ restart: 'on-failure', maxRestarts: 1 })
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await project.cleanup()
+  })
+
+  it('restarts an agent that exited before its task was done', async () => {
+    await saveSession([agent()])
+    vi.spyOn(launcher, 'inspectProcess').mockResolvedValue({ paneAlive: true, agentRunning: false })
+
+    const result = await monitor.check()
+
+    expect(result.changes).toEqual([expect.objectContaining({
+      agentId: AGENT_ID,
+      previous: AgentStatus.RUNNING,
+      status: AgentStatus.ERROR,
+      reason: 'agent exited before its task was done',
+      restarted: true
+    })])
+    expect(result.failedSessions).toEqual([])
+    expect(launcher.launchTaskProcess).toHaveBeenCalledWith(AGENT_ID, project.path, expect.objectContaining({ id: 'api' }))
+    const session = await store.getSession('feature-auth')
+    expect(session?.status).toBe(SessionStatus.ACTIVE)
+    expect(session?.agents[0]).toMatchObject({ status: AgentStatus.RUNNING, restarts: 1 })
+  })
+
+  it('fails the session once the agent crashed more than maxRestarts times', async () => {
+    await saveSession([agent({ restarts: 1 })])
+    vi.spyOn(launcher, 'inspectProcess').mockResolvedValue({ paneAlive: false, agentRunning: false })
+
+    const result = await monitor.check()
+
+    expect(launcher.launchTaskProcess).not.toHaveBeenCalled()
+    expect(result.changes).toEqual([expect.objectContaining({ status: AgentStatus.ERROR, reason: 'pane process is dead' })])
+    expect(result.failedSessions).toEqual(['feature-auth'])
+    const session = await store.getSession('feature-auth')
+    expect(session?.status).toBe(SessionStatus.FAILED)
+    expect(session?.agents[0].status).toBe(AgentStatus.ERROR)
+  })
+
+  it('does not restart agents without a restart policy', async () => {
+    await writeConfig({})
+    await saveSession([agent()])
+    vi.spyOn(launcher, 'inspectProcess').mockResolvedValue({ paneAlive: true, agentRunning: false })
+
+    const result = await monitor.check()
+
+    expect(launcher.launchTaskProcess).not.toHaveBeenCalled()
+    expect(result.failedSessions).toEqual(['feature-auth'])
+  })
+
+  it('gives a starting agent time to take over its pane', async () => {
+    await saveSession([agent({ status: AgentStatus.STARTING })])
+    vi.spyOn(launcher, 'inspectProcess').mockResolvedValue({ paneAlive: true, agentRunning: false })
+
+    expect((await monitor.check()).changes).toEqual([])
+
+    await store.updateSession('feature-auth', session => {
+      session.agents[0].lastActivity = new Date(Date.now() - 60000)
+    })
+    const result = await monitor.check()
+
+    expect(result.changes).toEqual([expect.objectContaining({ reason: 'agent never started', restarted: true })])
+  })
+
+  it('fails an active session whose tmux sessions all died', async () => {
+    await saveSession([agent()])
+    liveTmuxSessions()
+
+    const result = await monitor.check()
+
+    expect(result.failedSessions).toEqual(['feature-auth'])
+    const session = await store.getSession('feature-auth')
+    expect(session?.status).toBe(SessionStatus.FAILED)
+    expect(session?.agents[0].status).toBe(AgentStatus.STOPPED)
+  })
+
+  it('leaves sessions the user stopped alone', async () => {
+    await saveSession([agent({ status: AgentStatus.STOPPED })], SessionStatus.STOPPED)
+    liveTmuxSessions()
+
+    const result = await monitor.check()
+
+    expect(result).toEqual({ changes: [], failedSessions: [], checked: 0 })
+    expect((await store.getSession('feature-auth'))?.status).toBe(SessionStatus.STOPPED)
+  })
+})
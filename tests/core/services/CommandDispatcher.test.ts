@@ -0,0 +1,109 @@
+import { outputJson } from 'fs-extra'
+import { join } from 'path'
+import { CommandDispatcher } from '../../../src/core/services/CommandDispatcher'
+import { SessionStore } from '../../../src/core/storage/SessionStore'
+import { AgentCommand, AgentCommandType, QueuedCommandStatus, TaskStatus, ValidationError } from '../../../src/core/types'
+import { getProjectTazzDir } from '../../../src/utils/paths'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject, createSession } from '../../helpers'
+
+function command(type: AgentCommandType, requestId: string): AgentCommand {
+  return { type, requestId, sessionId: 'feature-auth', payload: {}, timestamp: new Date() }
+}
+
+describe('CommandDispatcher', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let dispatcher: CommandDispatcher
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    await outputJson(join(getProjectTazzDir(project.path), 'config.json'), {
+      agents: { claude: { enabled: true, command: 'claude', args: [], maxRetries: 2, timeout: 50 } }
+    })
+    dispatcher = new CommandDispatcher(getLogger(), project.path)
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  it('rejects command types without a handler when they are enqueued', async () => {
+    await expect(dispatcher.enqueue(command('explode' as AgentCommandType, 'explode-1'))).rejects.toThrow(ValidationError)
+    expect(await dispatcher.getQueue().getAll()).toEqual([])
+  })
+
+  it('has a handler for every command type', async () => {
+    for (const type of Object.values(AgentCommandType)) {
+      await dispatcher.enqueue(command(type, type))
+    }
+    expect(await dispatcher.getQueue().getAll()).toHaveLength(Object.values(AgentCommandType).length)
+  })
+
+  it('refuses to spawn an agent for a task that is already done', async () => {
+    await new SessionStore(project.path).saveSession(createSession({
+      tasks: [{ id: 'api', title: 'API', description: '', status: TaskStatus.COMPLETED, priority: 2, dependencies: [] }]
+    }))
+
+    await dispatcher.enqueue({ ...command(AgentCommandType.SPAWN_AGENT, 'spawn-1'), payload: { taskId: 'api' } })
+    const [queued] = await dispatcher.drain()
+
+    expect(queued.status).toBe(QueuedCommandStatus.FAILED)
+    expect(queued.results[0].error).toBe('Task api is completed and cannot get another agent')
+  })
+
+  it('generates tests through an agent task in the session', async () => {
+    const runTask = vi.spyOn((dispatcher as any).runner, 'runTask').mockResolvedValue({ success: true })
+
+    await dispatcher.enqueue({ ...command(AgentCommandType.GENERATE_TESTS, 'tests-1'), payload: { target: 'src/api.ts' } })
+    const [queued] = await dispatcher.drain()
+
+    expect(queued.status).toBe(QueuedCommandStatus.SUCCEEDED)
+    expect(runTask).toHaveBeenCalledWith(expect.objectContaining({
+      type: AgentCommandType.RUN_TASK,
+      requestId: 'tests-1',
+      sessionId: 'feature-auth',
+      payload: expect.objectContaining({ title: 'Write tests for src/api.ts' })
+    }))
+  })
+
+  it('retries failures up to maxRetries', async () => {
+    const handler = vi.fn().mockResolvedValue({ success: false, error: 'flaky' })
+    dispatcher.register(AgentCommandType.RUN_TASK, handler)
+
+    await dispatcher.enqueue(command(AgentCommandType.RUN_TASK, 'run-1'))
+    const [queued] = await dispatcher.drain()
+
+    expect(handler).toHaveBeenCalledTimes(3)
+    expect(queued.status).toBe(QueuedCommandStatus.FAILED)
+    expect(queued.results.map(r => r.error)).toEqual(['flaky', 'flaky', 'flaky'])
+  })
+
+  it('does not retry a timed-out attempt that may still be running', async () => {
+    const handler = vi.fn(() => new Promise<never>(() => undefined))
+    dispatcher.register(AgentCommandType.RUN_TASK, handler)
+
+    await dispatcher.enqueue(command(AgentCommandType.RUN_TASK, 'run-1'))
+    const [queued] = await dispatcher.drain()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(queued.status).toBe(QueuedCommandStatus.FAILED)
+    expect(queued.results).toEqual([{
+      success: false,
+      error: 'Timed out after 50ms',
+      metadata: { requestId: 'run-1', timedOut: true }
+    }])
+  })
+
+  it('retries timed-out attempts of handlers that allow it', async () => {
+    const handler = vi.fn()
+      .mockImplementationOnce(() => new Promise<never>(() => undefined))
+      .mockResolvedValue({ success: true })
+    dispatcher.register(AgentCommandType.UPDATE_TODO, handler, { retryOnTimeout: true })
+
+    await dispatcher.enqueue(command(AgentCommandType.UPDATE_TODO, 'todo-1'))
+    const [queued] = await dispatcher.drain()
+
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(queued.status).toBe(QueuedCommandStatus.SUCCEEDED)
+  })
+})
@@ -0,0 +1,97 @@
+import { DaemonServer } from '../../../src/core/services/DaemonServer'
+import { DaemonClient } from '../../../src/core/services/DaemonClient'
+import { SessionStore } from '../../../src/core/storage/SessionStore'
+import { SessionError } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject, createSession } from '../../helpers'
+
+describe('DaemonServer', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let server: DaemonServer
+  let client: DaemonClient
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    server = new DaemonServer(getLogger(), project.path, { interval: 60000 })
+    await server.start()
+    client = (await DaemonClient.connect(project.path))!
+  })
+
+  afterEach(async () => {
+    client.close()
+    await server.stop()
+    await project.cleanup()
+  })
+
+  it('answers pings with its info', async () => {
+    const info = await client.call<{ pid: number; startedAt: Date }>('daemon.ping')
+
+    expect(info.pid).toBe(process.pid)
+    expect(info.startedAt).toBeInstanceOf(Date)
+  })
+
+  it('stops sessions for the CLI and keeps the error class', async () => {
+    await expect(client.call('session.stop', { sessionId: 'missing' })).rejects.toThrow(SessionError)
+    await expect(client.call('session.stop', {})).rejects.toThrow('Specify a session ID, --instance <name> or --all')
+  })
+
+  it('resumes sessions for the CLI', async () => {
+    await new SessionStore(project.path).saveSession(createSession({ worktreePath: `${project.path}/gone` }))
+
+    await expect(client.call('session.resume', { sessionId: 'feature-auth' }))
+      .rejects.toThrow(`Worktree for session feature-auth no longer exists: ${project.path}/gone`)
+  })
+
+  it('tears sessions down with the plan the CLI made', async () => {
+    const store = new SessionStore(project.path)
+    const session = createSession({ worktreePath: `${project.path}/gone` })
+    await store.saveSession(session)
+
+    const result = await client.call('session.teardown', {
+      plan: {
+        session,
+        processes: [],
+        removeWorktree: true,
+        worktreeExists: false,
+        deleteBranch: false,
+        defaultBranch: 'main',
+        branchMerged: false,
+        uncommitted: [],
+        unpushed: [],
+        taskWorktrees: []
+      },
+      options: {}
+    })
+
+    expect(result).toMatchObject({ sessionId: 'feature-auth', recordRemoved: true })
+    expect(await store.getAllSessions()).toEqual([])
+  })
+
+  it('does not run the agent monitor while a task is being completed', async () => {
+    const order: string[] = []
+    let finish!: () => void
+    vi.spyOn((server as any).scheduler, 'completeProcess').mockImplementation(async () => {
+      order.push('done started')
+      await new Promise<void>(resolve => { finish = resolve })
+      order.push('done finished')
+      return { sessionId: 'feature-auth', taskId: 'api', result: { started: [], waiting: [], unreachable: [], failed: [] } }
+    })
+    vi.spyOn((server as any).monitor, 'check').mockImplementation(async () => {
+      order.push('monitor')
+      return []
+    })
+
+    const done = client.call('task.done', { processId: 'feature-auth_api' })
+    await vi.waitFor(() => expect(order).toEqual(['done started']))
+    const check = client.call('monitor.check')
+    await new Promise(resolve => setTimeout(resolve, 50))
+    finish()
+    await Promise.all([done, check])
+
+    expect(order).toEqual(['done started', 'done finished', 'monitor'])
+  })
+
+  it('rejects unknown methods', async () => {
+    await expect(client.call('session.explode')).rejects.toThrow('Unknown method session.explode')
+  })
+})
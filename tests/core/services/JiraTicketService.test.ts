@@ -0,0 +1,86 @@
+import { outputFile, outputJson, readFile } from 'fs-extra'
+import { join } from 'path'
+import { JiraTicketService } from '../../../src/core/services/JiraTicketService'
+import { MCPIntegrationService } from '../../../src/core/services/MCPIntegrationService'
+import { getTaskFilePath, loadTaskFile } from '../../../src/core/storage/TaskFileParser'
+import { TaskStatus } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject } from '../../helpers'
+
+const FIXTURE = join(__dirname, '../../fixtures/mcp-jira-server.js')
+
+describe('JiraTicketService', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let mcpService: MCPIntegrationService
+  let jira: JiraTicketService
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    await outputJson(join(project.path, '.mcp.json'), {
+      mcpServers: { atlassian: { command: process.execPath, args: [FIXTURE] } }
+    })
+    mcpService = new MCPIntegrationService(getLogger(), project.path)
+    await mcpService.detectAndSetupMCPs({ servers: ['atlassian'] })
+    jira = new JiraTicketService(mcpService, getLogger())
+  })
+
+  afterEach(async () => {
+    await mcpService.disconnect()
+    await project.cleanup()
+  })
+
+  it('parses ticket keys from instance names', () => {
+    expect(JiraTicketService.parseTicketKey('PROJ-12')).toBe('PROJ-12')
+    expect(JiraTicketService.parseTicketKey('PROJ-12-login')).toBe('PROJ-12')
+    expect(JiraTicketService.parseTicketKey('api-2')).toBeUndefined()
+    expect(JiraTicketService.parseTicketKey('feature-auth')).toBeUndefined()
+  })
+
+  it('fetches a ticket with its sub-tasks, linked issues and acceptance criteria', async () => {
+    expect(jira.isAvailable()).toBe(true)
+
+    const ticket = await jira.fetchTicket('PROJ-12')
+
+    expect(ticket).toMatchObject({
+      key: 'PROJ-12',
+      summary: 'Add login page',
+      priority: 'High',
+      status: 'In Progress',
+      type: 'Story',
+      assignee: 'Dana Developer',
+      url: 'https://example.atlassian.net/browse/PROJ-12',
+      acceptanceCriteria: ['Users can log in with email and password', 'Wrong passwords show an error']
+    })
+    expect(ticket.subtasks).toEqual([
+      { key: 'PROJ-13', title: 'Login form', status: 'To Do', description: 'Email and password fields' },
+      { key: 'PROJ-14', title: 'Session cookie', status: 'Done', description: 'Keep users signed in' }
+    ])
+    // The linked issue's status comes from fetching it, not from the parent's copy
+    expect(ticket.links).toEqual([{ key: 'PROJ-20', title: 'Logout', status: 'In Review', relation: 'blocks' }])
+  })
+
+  it('reports tickets the server does not know', async () => {
+    await expect(jira.fetchTicket('PROJ-99')).rejects.toThrow('Issue PROJ-99 does not exist')
+  })
+
+  it('writes the ticket to a task file only its instance reads', async () => {
+    await outputFile(getTaskFilePath(project.path), '# Project\n\n## Tasks\n- [ ] Update the docs\n')
+    const ticket = await jira.fetchTicket('PROJ-12')
+
+    expect(await jira.addToTaskFile(ticket, 'PROJ-12', project.path)).toBe(true)
+    expect(await jira.addToTaskFile(ticket, 'PROJ-12', project.path)).toBe(false)
+
+    const own = await loadTaskFile(project.path, 'PROJ-12')
+    expect(own.path).toBe(join(project.path, '.tazz', 'tasks', 'PROJ-12.md'))
+    expect(own.issues).toEqual([])
+    expect(own.tasks.map(task => [task.id, task.status])).toEqual([
+      ['PROJ-13', TaskStatus.TODO],
+      ['PROJ-14', TaskStatus.COMPLETED]
+    ])
+    expect(await readFile(own.path, 'utf-8')).toContain('- blocks PROJ-20: Logout (In Review)')
+
+    const other = await loadTaskFile(project.path, 'feature-auth')
+    expect(other.path).toBe(getTaskFilePath(project.path))
+    expect(other.tasks.map(task => task.title)).toEqual(['Update the docs'])
+  })
+})
@@ -0,0 +1,134 @@
+import { join } from 'path'
+import { MCPClient, StdioTransport, MCP_PROTOCOL_VERSION } from '../../../src/core/services/MCPClient'
+import { MCPError, MCPServer } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+
+const FIXTURE = join(__dirname, '../../fixtures/mcp-stdio-server.js')
+
+function createClient(env: Record<string, string> = {}): MCPClient {
+  const server: MCPServer = {
+    name: 'fixture',
+    command: process.execPath,
+    args: [FIXTURE],
+    env,
+    autoApprove: [],
+    disabled: false,
+    timeout: 10,
+    transportType: 'stdio'
+  }
+  return new MCPClient('fixture', new StdioTransport('fixture', server, getLogger()), getLogger())
+}
+
+const textOf = (result: { content: Array<{ text?: string }> }) => result.content[0].text
+
+describe('MCPClient over stdio', () => {
+  let client: MCPClient
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('performs the initialize handshake', async () => {
+    client = createClient()
+
+    const result = await client.connect()
+
+    expect(result.protocolVersion).toBe(MCP_PROTOCOL_VERSION)
+    expect(result.serverInfo).toEqual({ name: 'fixture', version: '1.0.0' })
+    expect(client.isConnected()).toBe(true)
+    expect(client.getInitializeResult()).toEqual(result)
+  })
+
+  it('refuses servers speaking an unsupported protocol version', async () => {
+    client = createClient({ MCP_FIXTURE_PROTOCOL: '1999-01-01' })
+
+    await expect(client.connect()).rejects.toThrow('speaks unsupported protocol version 1999-01-01')
+    expect(client.isConnected()).toBe(false)
+  })
+
+  it('follows tools/list pagination', async () => {
+    client = createClient()
+    await client.connect()
+
+    const tools = await client.listTools()
+
+    expect(tools.map(tool => tool.name)).toEqual(['echo', 'slow', 'crash', 'notify', 'ping-client', 'cancelled'])
+  })
+
+  it('calls tools and reports JSON-RPC errors as MCPError', async () => {
+    client = createClient()
+    await client.connect()
+
+    expect(textOf(await client.callTool('echo', { text: 'hello' }))).toBe('hello')
+    await expect(client.callTool('missing', {})).rejects.toThrow('MCP tools/call failed on fixture: Unknown tool missing')
+  })
+
+  it('dispatches notifications and answers server pings', async () => {
+    client = createClient()
+    await client.connect()
+    const progress = vi.fn()
+    const all = vi.fn()
+    client.onNotification('notifications/progress', progress)
+    const unsubscribe = client.onNotification('*', all)
+
+    await client.callTool('notify', {})
+    unsubscribe()
+    await client.callTool('notify', {})
+
+    expect(progress).toHaveBeenCalledTimes(2)
+    expect(progress).toHaveBeenCalledWith({ progress: 50, total: 100 }, 'notifications/progress')
+    expect(all).toHaveBeenCalledTimes(1)
+    expect(textOf(await client.callTool('ping-client', {}))).toBe('{}')
+  })
+
+  it('cancels requests that time out or are aborted', async () => {
+    client = createClient()
+    await client.connect()
+
+    await expect(client.callTool('slow', {}, { timeout: 50 })).rejects.toThrow('MCP request tools/call to fixture timed out after 50ms')
+
+    const controller = new AbortController()
+    const aborted = client.callTool('slow', {}, { signal: controller.signal })
+    controller.abort()
+    await expect(aborted).rejects.toThrow('MCP request tools/call to fixture was cancelled')
+
+    // initialize is request 1; the two slow calls were 2 and 3
+    expect(JSON.parse(textOf(await client.callTool('cancelled', {}))!)).toEqual([2, 3])
+  })
+
+  it('fails pending requests when the server crashes and can connect again', async () => {
+    client = createClient()
+    await client.connect()
+
+    const slow = expect(client.callTool('slow', {})).rejects.toThrow('MCP server fixture exited')
+    await expect(client.callTool('crash', {})).rejects.toThrow(MCPError)
+    await slow
+    expect(client.isConnected()).toBe(false)
+    await expect(client.callTool('echo', { text: 'hi' })).rejects.toThrow('MCP server fixture is not connected')
+
+    await client.connect()
+    expect(textOf(await client.callTool('echo', { text: 'back' }))).toBe('back')
+  })
+
+  it('fails pending requests on close and shuts the server down', async () => {
+    client = createClient()
+    await client.connect()
+
+    const slow = expect(client.callTool('slow', {})).rejects.toThrow('Connection to MCP server fixture was closed')
+    await client.close()
+
+    await slow
+    expect(client.isConnected()).toBe(false)
+  })
+
+  it('kills servers that ignore stdin closing and SIGTERM', async () => {
+    client = createClient({ MCP_FIXTURE_STUBBORN: '1' })
+    await client.connect()
+
+    const started = Date.now()
+    await client.close()
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(4000)
+    expect(client.isConnected()).toBe(false)
+  }, 10000)
+})
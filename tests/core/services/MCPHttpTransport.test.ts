@@ -0,0 +1,320 @@
+import { outputJson } from 'fs-extra'
+import { join } from 'path'
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { StreamableHttpTransport, SseTransport } from '../../../src/core/services/MCPHttpTransport'
+import { MCPClient, MCPTransport } from '../../../src/core/services/MCPClient'
+import { MCPIntegrationService } from '../../../src/core/services/MCPIntegrationService'
+import { MCPServer } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject } from '../../helpers'
+
+interface RecordedRequest {
+  method: string
+  path: string
+  headers: IncomingMessage['headers']
+  body?: any
+}
+
+interface FixtureOptions {
+  /** Offer a GET stream for server-initiated messages (405 otherwise) */
+  getStream?: boolean
+  /** Chunks the HTTP+SSE stream opens with, written a moment apart */
+  endpointEvent?: string[]
+}
+
+/**
+ * MCP server fixture speaking streamable HTTP on / and the HTTP+SSE protocol on /sse
+ */
+class HttpFixture {
+  requests: RecordedRequest[] = []
+  streams: ServerResponse[] = []
+  private legacyStream?: ServerResponse
+  private server: Server
+  url = ''
+
+  constructor(private options: FixtureOptions = {}) {
+    this.server = createServer((req, res) => this.handle(req, res))
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`
+  }
+
+  async stop(): Promise<void> {
+    this.streams.forEach(stream => stream.end())
+    this.server.closeAllConnections()
+    await new Promise(resolve => this.server.close(resolve))
+  }
+
+  /** Push a message down every open GET stream */
+  push(message: unknown): void {
+    this.streams.forEach(stream => stream.write(sse(message)))
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let raw = ''
+    for await (const chunk of req) {
+      raw += chunk
+    }
+    const path = req.url || '/'
+    const body = raw ? JSON.parse(raw) : undefined
+    this.requests.push({ method: req.method!, path, headers: req.headers, body })
+
+    if (path.startsWith('/sse') || path.startsWith('/messages')) {
+      return this.handleLegacy(req, res, path, body)
+    }
+
+    if (req.method === 'DELETE') {
+      return void res.writeHead(200).end()
+    }
+    if (req.method === 'GET') {
+      if (!this.options.getStream) {
+        return void res.writeHead(405).end()
+      }
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      res.write(': connected\n\n')
+      this.streams.push(res)
+      return
+    }
+
+    if (body.method !== 'initialize' && req.headers['mcp-session-id'] !== 'session-1') {
+      return void res.writeHead(404).end()
+    }
+    if (body.id === undefined) {
+      return void res.writeHead(202).end()
+    }
+
+    const result = respond(body)
+    if (body.method === 'tools/list') {
+      // Answer as an SSE stream with a notification ahead of the response
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      res.write(sse({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'listing' } }))
+      res.end(sse(result, 'evt-1'))
+      return
+    }
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      ...(body.method === 'initialize' ? { 'Mcp-Session-Id': 'session-1' } : {})
+    })
+    res.end(JSON.stringify(result))
+  }
+
+  private async handleLegacy(req: IncomingMessage, res: ServerResponse, path: string, body: any): Promise<void> {
+    if (req.method === 'GET') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      this.legacyStream = res
+      for (const chunk of this.options.endpointEvent ?? ['event: endpoint\ndata: /messages?session=legacy\n\n']) {
+        res.write(chunk)
+        await new Promise(resolve => setTimeout(resolve, 20))
+      }
+      return
+    }
+    // Older servers have no streamable HTTP endpoint to POST to
+    if (path.startsWith('/sse')) {
+      return void res.writeHead(405).end()
+    }
+    res.writeHead(202).end()
+    if (body.id !== undefined) {
+      this.legacyStream!.write(`event: message\ndata: ${JSON.stringify(respond(body))}\n\n`)
+    }
+  }
+}
+
+function respond(request: { id: number; method: string; params?: any }): unknown {
+  switch (request.method) {
+    case 'initialize':
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: { protocolVersion: request.params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'http-fixture', version: '1.0.0' } }
+      }
+    case 'tools/list':
+      return { jsonrpc: '2.0', id: request.id, result: { tools: [{ name: 'search', inputSchema: { type: 'object' } }] } }
+    default:
+      return { jsonrpc: '2.0', id: request.id, result: { content: [{ type: 'text', text: `called ${request.params?.name}` }] } }
+  }
+}
+
+function sse(message: unknown, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(message)}\n\n`
+}
+
+function server(url: string, transportType: 'http' | 'sse'): MCPServer {
+  return {
+    name: 'remote',
+    command: '',
+    args: [],
+    env: {},
+    autoApprove: [],
+    disabled: false,
+    timeout: 10,
+    transportType,
+    url,
+    headers: { Authorization: 'Bearer test-token' }
+  }
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10))
+  }
+  expect(check()).toBe(true)
+}
+
+describe('MCP HTTP transports', () => {
+  let fixture: HttpFixture
+  let client: MCPClient
+
+  const connect = async (transport: MCPTransport) => {
+    client = new MCPClient('remote', transport, getLogger(), 5000)
+    return client.connect()
+  }
+
+  afterEach(async () => {
+    await client?.close()
+    await fixture.stop()
+  })
+
+  describe('StreamableHttpTransport', () => {
+    it('posts JSON-RPC messages and reads JSON responses', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+
+      const result = await connect(new StreamableHttpTransport('remote', server(fixture.url, 'http'), getLogger()))
+      const called = await client.callTool('search', { query: 'tazz' })
+
+      expect(result.serverInfo).toEqual({ name: 'http-fixture', version: '1.0.0' })
+      expect(called.content[0].text).toBe('called search')
+      const initialize = fixture.requests[0]
+      expect(initialize.method).toBe('POST')
+      expect(initialize.headers.authorization).toBe('Bearer test-token')
+      expect(initialize.headers.accept).toBe('application/json, text/event-stream')
+    })
+
+    it('sends the session id it was given and ends the session on close', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+
+      await connect(new StreamableHttpTransport('remote', server(fixture.url, 'http'), getLogger()))
+      await client.callTool('search', {})
+      await client.close()
+
+      const [initialize, ...rest] = fixture.requests
+      expect(initialize.headers['mcp-session-id']).toBeUndefined()
+      expect(rest.filter(r => r.method === 'POST').every(r => r.headers['mcp-session-id'] === 'session-1')).toBe(true)
+      expect(fixture.requests.find(r => r.method === 'DELETE')?.headers['mcp-session-id']).toBe('session-1')
+    })
+
+    it('reads responses and notifications from SSE response streams', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+      await connect(new StreamableHttpTransport('remote', server(fixture.url, 'http'), getLogger()))
+      const messages = vi.fn()
+      client.onNotification('notifications/message', messages)
+
+      const tools = await client.listTools()
+
+      expect(tools.map(tool => tool.name)).toEqual(['search'])
+      expect(messages).toHaveBeenCalledWith({ level: 'info', data: 'listing' }, 'notifications/message')
+    })
+
+    it('listens for server messages on a GET stream once initialized', async () => {
+      fixture = new HttpFixture({ getStream: true })
+      await fixture.start()
+      await connect(new StreamableHttpTransport('remote', server(fixture.url, 'http'), getLogger()))
+      const changed = vi.fn()
+      client.onNotification('notifications/tools/list_changed', changed)
+
+      await waitFor(() => fixture.streams.length === 1)
+      fixture.push({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' })
+
+      await waitFor(() => changed.mock.calls.length === 1)
+      const stream = fixture.requests.find(r => r.method === 'GET')!
+      expect(stream.headers.accept).toBe('text/event-stream')
+      expect(stream.headers['mcp-session-id']).toBeUndefined()
+    })
+
+    it('keeps working without a GET stream when the server answers 405', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+      await connect(new StreamableHttpTransport('remote', server(fixture.url, 'http'), getLogger()))
+
+      await waitFor(() => fixture.requests.some(r => r.method === 'GET'))
+      expect(client.isConnected()).toBe(true)
+      expect((await client.callTool('search', {})).content[0].text).toBe('called search')
+    })
+
+    it('reports an expired session', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+      const transport = new StreamableHttpTransport('remote', server(fixture.url, 'http'), getLogger())
+      await connect(transport)
+      ;(transport as any).sessionId = 'session-0'
+
+      await expect(client.callTool('search', {})).rejects.toThrow('MCP session with remote expired')
+    })
+  })
+
+  describe('SseTransport', () => {
+    it('posts to the endpoint the event stream announces and reads responses from the stream', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+
+      const result = await connect(new SseTransport('remote', server(`${fixture.url}/sse`, 'sse'), getLogger()))
+      const called = await client.callTool('search', {})
+
+      expect(result.serverInfo.name).toBe('http-fixture')
+      expect(called.content[0].text).toBe('called search')
+      const posts = fixture.requests.filter(r => r.method === 'POST')
+      expect(posts.map(r => r.path)).toEqual([
+        '/messages?session=legacy',
+        '/messages?session=legacy',
+        '/messages?session=legacy'
+      ])
+      expect(posts.map(r => r.body.method)).toEqual(['initialize', 'notifications/initialized', 'tools/call'])
+      expect(fixture.requests[0].headers.authorization).toBe('Bearer test-token')
+    })
+
+    it('joins a CRLF line ending split across chunks', async () => {
+      fixture = new HttpFixture({ endpointEvent: ['event: endpoint\r', '\ndata: /messages?session=legacy\r\n\r', '\n'] })
+      await fixture.start()
+
+      const result = await connect(new SseTransport('remote', { ...server(`${fixture.url}/sse`, 'sse'), timeout: 1 }, getLogger()))
+
+      expect(result.serverInfo.name).toBe('http-fixture')
+    })
+
+    it('gives up on a stream that never announces its endpoint', async () => {
+      fixture = new HttpFixture({ endpointEvent: [': connected\n\n'] })
+      await fixture.start()
+
+      await expect(connect(new SseTransport('remote', { ...server(`${fixture.url}/sse`, 'sse'), timeout: 0.2 }, getLogger())))
+        .rejects.toThrow('MCP server remote did not announce its message endpoint within 200ms')
+    })
+  })
+
+  describe('MCPIntegrationService', () => {
+    it('falls back to HTTP+SSE when a streamable HTTP server refuses the initialize POST', async () => {
+      fixture = new HttpFixture()
+      await fixture.start()
+      const project = await createTempProject()
+      await outputJson(join(project.path, '.mcp.json'), {
+        mcpServers: { sonarcloud: { type: 'http', url: `${fixture.url}/sse` } }
+      })
+      const service = new MCPIntegrationService(getLogger(), project.path)
+
+      try {
+        await service.detectAndSetupMCPs({ servers: ['sonarcloud'] })
+
+        expect(service.getConnectedServers()).toEqual(['sonarcloud'])
+        expect(await service.callTool('sonarcloud', 'search', {})).toBe('called search')
+        expect(fixture.requests.slice(0, 2).map(r => `${r.method} ${r.path}`)).toEqual(['POST /sse', 'GET /sse'])
+      } finally {
+        await service.disconnect()
+        await project.cleanup()
+      }
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import {
+  buildSummary,
+  buildTitle,
+  fillTemplate,
+  pullNumberArgument,
+  toChecks,
+  toReviewDecision
+} from '../../../src/core/services/PullRequestService'
+import { MCPIntegrationService } from '../../../src/core/services/MCPIntegrationService'
+import { TaskStatus, TazzSession } from '../../../src/core/types'
+import { createSession } from '../../helpers'
+
+const JIRA: NonNullable<TazzSession['metadata']['jira']> = {
+  key: 'PROJ-12',
+  title: 'Add login page',
+  description: '',
+  priority: 'High',
+  status: 'In Progress',
+  type: 'Story',
+  url: 'https://example.atlassian.net/browse/PROJ-12',
+  acceptanceCriteria: ['Users can log in']
+}
+
+const REPOSITORY = { owner: 'acme', repo: 'app' }
+
+describe('PullRequestService', () => {
+  describe('buildTitle', () => {
+    it('prefers the Jira ticket, then a single commit, then the instance name', () => {
+      expect(buildTitle(createSession({ metadata: { jira: JIRA } }), [])).toBe('PROJ-12: Add login page')
+      expect(buildTitle(createSession({ metadata: { jira: { ...JIRA, title: 'PROJ-12 Add login page' } } }), []))
+        .toBe('PROJ-12 Add login page')
+      expect(buildTitle(createSession(), ['abc1234 Add the login form'])).toBe('Add the login form')
+      expect(buildTitle(createSession(), ['abc1234 One', 'def5678 Two'])).toBe('Feature auth')
+    })
+  })
+
+  describe('buildSummary', () => {
+    it('references the ticket and issue and lists tasks, criteria and commits', () => {
+      const session = createSession({
+        metadata: { jira: JIRA, github: { relatedPRs: [], issue: { owner: 'acme', repo: 'app', number: 42 } } },
+        tasks: [
+          { id: 'form', title: 'Login form', description: '', status: TaskStatus.COMPLETED, priority: 1, dependencies: [] },
+          { id: 'cookie', title: 'Session cookie', description: '', status: TaskStatus.TODO, priority: 2, dependencies: [] }
+        ]
+      })
+
+      expect(buildSummary(session, ['abc1234 Add the login form'], REPOSITORY)).toBe([
+        'Jira: [PROJ-12](https://example.atlassian.net/browse/PROJ-12) Add login page',
+        'Closes #42',
+        '',
+        '### Tasks',
+        '- [x] Login form (form)',
+        '- [ ] Session cookie (cookie)',
+        '',
+        '### Acceptance Criteria',
+        '- [ ] Users can log in',
+        '',
+        '### Commits',
+        '- Add the login form (abc1234)'
+      ].join('\n'))
+    })
+
+    it('names issues of other repositories and caps the commit list', () => {
+      const session = createSession({ metadata: { github: { relatedPRs: [], issue: { owner: 'acme', repo: 'api', number: 7 } } } })
+      const commits = Array.from({ length: 52 }, (_, i) => `c${i} Commit ${i}`)
+
+      const summary = buildSummary(session, commits, REPOSITORY).split('\n')
+
+      expect(summary[0]).toBe('Closes acme/api#7')
+      expect(summary.filter(line => line.startsWith('- Commit'))).toHaveLength(50)
+      expect(summary[summary.length - 1]).toBe('- ...and 2 more')
+    })
+  })
+
+  describe('fillTemplate', () => {
+    it('replaces the Summary section body and keeps its comments and later sections', () => {
+      const template = '## Summary\r\n<!-- What does this change? -->\r\nDescribe it here\r\n\r\n## Testing\r\n- [ ] Tests pass\r\n'
+
+      expect(fillTemplate(template, 'Adds the login page')).toBe(
+        '## Summary\n\n<!-- What does this change? -->\nAdds the login page\n\n## Testing\n- [ ] Tests pass\n'
+      )
+    })
+
+    it('ends the Summary section at the next heading of its level or above', () => {
+      expect(fillTemplate('# Summary\nold\n## Details\nmore', 'new')).toBe('# Summary\n\nnew\n')
+      expect(fillTemplate('### Summary\nold\n## Checklist\n- [ ] Done', 'new')).toBe('### Summary\n\nnew\n\n## Checklist\n- [ ] Done\n')
+    })
+
+    it('puts the summary above templates without a Summary section', () => {
+      expect(fillTemplate('## Checklist\n- [ ] Done\n', 'Adds the login page')).toBe(
+        '## Summary\n\nAdds the login page\n\n## Checklist\n- [ ] Done\n'
+      )
+    })
+  })
+
+  describe('toReviewDecision', () => {
+    it('counts each reviewer\'s latest decision with change requests outweighing approvals', () => {
+      const review = (login: string, state: string) => ({ user: { login }, state })
+
+      expect(toReviewDecision([review('ana', 'CHANGES_REQUESTED'), review('ana', 'APPROVED')], false)).toBe('approved')
+      expect(toReviewDecision({ reviews: [review('ana', 'APPROVED'), review('bo', 'CHANGES_REQUESTED')] }, false))
+        .toBe('changes_requested')
+      expect(toReviewDecision([review('ana', 'APPROVED'), review('ana', 'DISMISSED')], false)).toBe('review_required')
+      expect(toReviewDecision([review('ana', 'COMMENTED')], true)).toBe('review_required')
+      expect(toReviewDecision([review('ana', 'COMMENTED')], false)).toBeUndefined()
+    })
+  })
+
+  describe('toChecks', () => {
+    it('maps the combined commit status', () => {
+      expect(toChecks({ state: 'pending', total_count: 0 })).toBe('none')
+      expect(toChecks({ state: 'success', statuses: [{}] })).toBe('success')
+      expect(toChecks({ state: 'pending', total_count: 2 })).toBe('pending')
+      expect(toChecks({ state: 'error', total_count: 1 })).toBe('failure')
+      expect(toChecks({ state: 'failure', total_count: 1 })).toBe('failure')
+      expect(toChecks({ state: 'neutral', total_count: 1 })).toBeUndefined()
+    })
+  })
+
+  describe('pullNumberArgument', () => {
+    it('follows the tool\'s input schema', () => {
+      const mcpService = {
+        getTools: () => [
+          { name: 'get_pull_request', inputSchema: { type: 'object', properties: { pull_number: { type: 'number' } } } },
+          { name: 'get_pull_request_reviews', inputSchema: { type: 'object', properties: { pullNumber: { type: 'number' } } } }
+        ]
+      } as unknown as MCPIntegrationService
+
+      expect(pullNumberArgument(mcpService, 'get_pull_request')).toBe('pull_number')
+      expect(pullNumberArgument(mcpService, 'get_pull_request_reviews')).toBe('pullNumber')
+      expect(pullNumberArgument(mcpService, 'get_pull_request_status')).toBe('pullNumber')
+    })
+  })
+})
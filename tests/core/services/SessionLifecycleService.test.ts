@@ -0,0 +1,101 @@
+import { SessionLifecycleService } from '../../../src/core/services/SessionLifecycleService'
+import { SessionStore } from '../../../src/core/storage/SessionStore'
+import { AgentInstance, AgentStatus, AgentType, SessionError, SessionStatus, TaskStatus } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject, createSession } from '../../helpers'
+
+vi.mock('../../../src/utils/tmux', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../src/utils/tmux')>(),
+  listTazzTmuxSessions: vi.fn().mockResolvedValue([])
+}))
+
+function agent(id: string): AgentInstance {
+  return {
+    id,
+    name: id,
+    type: AgentType.CLAUDE,
+    status: AgentStatus.STOPPED,
+    lastActivity: new Date(),
+    capabilities: []
+  }
+}
+
+describe('SessionLifecycleService', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let store: SessionStore
+  let lifecycle: SessionLifecycleService
+  let launchMainProcess: ReturnType<typeof vi.fn>
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    store = new SessionStore(project.path)
+    lifecycle = new SessionLifecycleService(getLogger(), project.path)
+    launchMainProcess = vi.fn(async (processId: string) => {
+      if (processId.endsWith('_broken')) {
+        throw new Error('tmux refused')
+      }
+      return { processId, tmuxSession: `tazz_${processId}` }
+    })
+    ;(lifecycle as any).launcher.launchMainProcess = launchMainProcess
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  it('leaves a session stopped when nothing is left to resume', async () => {
+    await store.saveSession(createSession({
+      worktreePath: project.path,
+      status: SessionStatus.STOPPED,
+      agents: [agent('feature-auth_api')],
+      tasks: [{
+        id: 'api',
+        title: 'API',
+        description: '',
+        status: TaskStatus.COMPLETED,
+        priority: 2,
+        dependencies: [],
+        assignedAgent: 'feature-auth_api'
+      }]
+    }))
+
+    const updateSession = vi.spyOn((lifecycle as any).reconciler.getStore(), 'updateSession')
+
+    const result = await lifecycle.resume('feature-auth')
+
+    expect(result).toMatchObject({ alreadyRunning: false, restored: [] })
+    expect(updateSession).not.toHaveBeenCalled()
+    expect((await store.getSession('feature-auth'))?.status).toBe(SessionStatus.STOPPED)
+  })
+
+  it('records the processes that started when another one fails', async () => {
+    await store.saveSession(createSession({
+      worktreePath: project.path,
+      status: SessionStatus.STOPPED,
+      agents: [agent('feature-auth'), agent('feature-auth_broken')]
+    }))
+
+    const result = await lifecycle.resume('feature-auth')
+
+    expect(result.restored.map(p => p.processId)).toEqual(['feature-auth'])
+    expect(result.failed).toEqual(['feature-auth_broken'])
+    const session = await store.getSession('feature-auth')
+    expect(session?.status).toBe(SessionStatus.ACTIVE)
+    expect(session?.agents.map(a => [a.id, a.status])).toEqual([
+      ['feature-auth', AgentStatus.RUNNING],
+      ['feature-auth_broken', AgentStatus.STOPPED]
+    ])
+  })
+
+  it('fails without touching the session when no process could be restored', async () => {
+    await store.saveSession(createSession({
+      worktreePath: project.path,
+      status: SessionStatus.STOPPED,
+      agents: [agent('feature-auth_broken')]
+    }))
+
+    await expect(lifecycle.resume('feature-auth')).rejects.toThrow(SessionError)
+    await expect(lifecycle.resume('feature-auth')).rejects.toThrow('Failed to restore any process of session feature-auth')
+    expect((await store.getSession('feature-auth'))?.status).toBe(SessionStatus.STOPPED)
+  })
+})
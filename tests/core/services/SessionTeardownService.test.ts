@@ -0,0 +1,102 @@
+import { writeFile, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { SessionTeardownService } from '../../../src/core/services/SessionTeardownService'
+import { SessionStore } from '../../../src/core/storage/SessionStore'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject, createSession, initGitRepo, commitFile, git } from '../../helpers'
+
+describe('SessionTeardownService', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let worktreePath: string
+  let service: SessionTeardownService
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    await initGitRepo(project.path)
+    worktreePath = `${project.path}-feature-auth`
+    await git(project.path, 'worktree', 'add', '-q', '-b', 'feature/feature-auth', worktreePath)
+    service = new SessionTeardownService(getLogger(), project.path)
+  })
+
+  afterEach(async () => {
+    await git(project.path, 'worktree', 'remove', '--force', worktreePath).catch(() => undefined)
+    await project.cleanup()
+  })
+
+  const session = () => createSession({ worktreePath })
+
+  it('does not count unpushed commits when the branch is kept', async () => {
+    await commitFile(worktreePath, 'api.ts', 'export {}\n', 'Add API')
+
+    const plan = await service.plan(session(), [], { worktree: true })
+
+    expect(plan.unpushed).toEqual([])
+    expect(service.isDestructive(plan)).toBe(false)
+  })
+
+  it('keeps an unmerged branch without --force, so its commits are not at risk', async () => {
+    await commitFile(worktreePath, 'api.ts', 'export {}\n', 'Add API')
+
+    const plan = await service.plan(session(), [], { worktree: true, branch: true })
+
+    expect(plan.branchMerged).toBe(false)
+    expect(plan.deleteBranch).toBe(false)
+    expect(plan.branchKeptReason).toBe('not merged into main')
+    expect(plan.unpushed).toEqual([])
+    expect(service.isDestructive(plan)).toBe(false)
+  })
+
+  it('reports the unpushed commits an unmerged branch deleted with --force loses', async () => {
+    await commitFile(worktreePath, 'api.ts', 'export {}\n', 'Add API')
+
+    const plan = await service.plan(session(), [], { worktree: true, branch: true, force: true })
+
+    expect(plan.deleteBranch).toBe(true)
+    expect(plan.unpushed).toHaveLength(1)
+    expect(service.isDestructive(plan)).toBe(true)
+  })
+
+  it('reports uncommitted changes in the worktree as destructive', async () => {
+    await writeFile(join(worktreePath, 'draft.ts'), 'wip\n')
+
+    const plan = await service.plan(session(), [], { worktree: true })
+
+    expect(plan.uncommitted).toEqual(['?? draft.ts'])
+    expect(service.isDestructive(plan)).toBe(true)
+  })
+
+  it('removes the worktree, the merged branch and the session record', async () => {
+    const store = new SessionStore(project.path)
+    await store.saveSession(session())
+
+    const options = { worktree: true, branch: true }
+    const result = await service.execute(await service.plan(session(), [], options), options)
+
+    expect(result).toMatchObject({ worktreeRemoved: true, branchDeleted: true, recordRemoved: true })
+    expect(await pathExists(worktreePath)).toBe(false)
+    expect(await git(project.path, 'branch', '--list', 'feature/feature-auth')).toBe('')
+    expect(await store.getSession('feature-auth')).toBeNull()
+  })
+
+  it('keeps a branch that is not merged', async () => {
+    await commitFile(worktreePath, 'api.ts', 'export {}\n', 'Add API')
+
+    const options = { worktree: true, branch: true }
+    const result = await service.execute(await service.plan(session(), [], options), options)
+
+    expect(result.branchDeleted).toBe(false)
+    expect(result.branchKeptReason).toBe('not merged into main')
+    expect(await git(project.path, 'branch', '--list', 'feature/feature-auth')).not.toBe('')
+  })
+
+  it('deletes a branch that is not merged with --force', async () => {
+    await commitFile(worktreePath, 'api.ts', 'export {}\n', 'Add API')
+
+    const options = { worktree: true, branch: true, force: true }
+    const result = await service.execute(await service.plan(session(), [], options), options)
+
+    expect(result.branchDeleted).toBe(true)
+    expect(result.branchKeptReason).toBeUndefined()
+    expect(await git(project.path, 'branch', '--list', 'feature/feature-auth')).toBe('')
+  })
+})
@@ -0,0 +1,79 @@
+import { execFileSync } from 'child_process'
+import { execa } from 'execa'
+import { TaskProcessLauncher } from '../../../src/core/services/TaskProcessLauncher'
+import { TaskStatus } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject } from '../../helpers'
+
+vi.mock('execa', () => ({ execa: vi.fn().mockResolvedValue({ stdout: '' }) }))
+vi.mock('../../../src/utils/tmux', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../src/utils/tmux')>(),
+  listPanes: vi.fn().mockResolvedValue([])
+}))
+
+describe('TaskProcessLauncher', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    vi.mocked(execa).mockClear()
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  /** Lines typed into the pane, in order */
+  const sentLines = () => vi.mocked(execa).mock.calls
+    .map(([, args]) => args as string[])
+    .filter(args => args[0] === 'send-keys')
+    .map(args => args[3])
+
+  it('prints task titles literally in the pane banner', async () => {
+    const title = 'Fix "quotes", `backticks` and $(touch pwned) in Bob\'s parser'
+    const launcher = new TaskProcessLauncher(getLogger(), project.path)
+
+    await launcher.launchTaskProcess('feature_parser', project.path, {
+      id: 'parser',
+      title,
+      description: '',
+      status: TaskStatus.TODO,
+      priority: 2,
+      dependencies: []
+    })
+
+    const banner = sentLines().find(line => line.includes('Task:'))!
+    const output = execFileSync('bash', ['-c', banner], { cwd: project.path, encoding: 'utf-8' })
+    expect(output).toBe(`📝 Task: ${title}\n`)
+  })
+
+  it('prints the main session context literally', async () => {
+    const description = 'Ship it; rm -rf "$HOME"'
+    const launcher = new TaskProcessLauncher(getLogger(), project.path)
+
+    await launcher.launchMainProcess('feature', project.path, description)
+
+    const banner = sentLines().find(line => line.includes('Context:'))!
+    const output = execFileSync('bash', ['-c', banner], { cwd: project.path, encoding: 'utf-8' })
+    expect(output).toBe(`💡 Context: ${description}\n`)
+  })
+
+  it('prints process IDs literally', async () => {
+    const processId = 'feature-$(touch pwned)'
+    const launcher = new TaskProcessLauncher(getLogger(), project.path)
+
+    await launcher.launchMainProcess(processId, project.path)
+    await launcher.launchTaskProcess(`${processId}_parser`, project.path, {
+      id: 'parser',
+      title: 'Parser',
+      description: '',
+      status: TaskStatus.TODO,
+      priority: 2,
+      dependencies: []
+    })
+
+    const banners = sentLines().filter(line => line.includes('🚀'))
+    const output = banners.map(banner => execFileSync('bash', ['-c', banner], { cwd: project.path, encoding: 'utf-8' }))
+    expect(output).toEqual([`🚀 Tazz Session: ${processId}\n`, `🚀 Tazz Process: ${processId}_parser\n`])
+  })
+})
@@ -0,0 +1,113 @@
+import {
+  findDependencyCycle,
+  getReadyTasks,
+  getUnreachableTasks,
+  sortTasksByDependencies
+} from '../../../src/core/services/TaskScheduler'
+import { TaskReference, TaskStatus } from '../../../src/core/types'
+
+function task(id: string, overrides: Partial<TaskReference> = {}): TaskReference {
+  return {
+    id,
+    title: id,
+    description: '',
+    status: TaskStatus.TODO,
+    priority: 2,
+    dependencies: [],
+    ...overrides
+  }
+}
+
+const ids = (tasks: TaskReference[]) => tasks.map(t => t.id)
+
+describe('findDependencyCycle', () => {
+  it('returns undefined for a DAG', () => {
+    expect(findDependencyCycle([
+      task('api'),
+      task('tests', { dependencies: ['api'] }),
+      task('docs', { dependencies: ['api', 'tests'] })
+    ])).toBeUndefined()
+  })
+
+  it('returns the ids along a cycle', () => {
+    expect(findDependencyCycle([
+      task('setup'),
+      task('a', { dependencies: ['setup', 'c'] }),
+      task('b', { dependencies: ['a'] }),
+      task('c', { dependencies: ['b'] })
+    ])).toEqual(['a', 'c', 'b', 'a'])
+  })
+
+  it('ignores dependencies on unknown tasks', () => {
+    expect(findDependencyCycle([task('a', { dependencies: ['missing'] })])).toBeUndefined()
+  })
+})
+
+describe('getReadyTasks', () => {
+  it('returns queued tasks whose dependencies are completed, highest priority first', () => {
+    const tasks = [
+      task('api', { status: TaskStatus.COMPLETED }),
+      task('docs', { priority: 3 }),
+      task('tests', { priority: 1, dependencies: ['api'] }),
+      task('deploy', { dependencies: ['tests'] }),
+      task('resume', { status: TaskStatus.IN_PROGRESS }),
+      task('running', { status: TaskStatus.IN_PROGRESS, assignedAgent: 'feature_running' }),
+      task('stuck', { status: TaskStatus.BLOCKED })
+    ]
+
+    expect(ids(getReadyTasks(tasks))).toEqual(['tests', 'resume', 'docs'])
+  })
+
+  it('does not start tasks that depend on a missing task', () => {
+    expect(getReadyTasks([task('a', { dependencies: ['missing'] })])).toEqual([])
+  })
+})
+
+describe('getUnreachableTasks', () => {
+  it('returns queued tasks with a blocked or cancelled task upstream', () => {
+    const tasks = [
+      task('design', { status: TaskStatus.BLOCKED }),
+      task('api', { dependencies: ['design'] }),
+      task('tests', { dependencies: ['api'] }),
+      task('spike', { status: TaskStatus.CANCELLED }),
+      task('report', { dependencies: ['spike'] }),
+      task('docs'),
+      task('done', { status: TaskStatus.COMPLETED, dependencies: ['design'] })
+    ]
+
+    expect(ids(getUnreachableTasks(tasks))).toEqual(['api', 'tests', 'report'])
+  })
+
+  it('terminates on cycles', () => {
+    const tasks = [
+      task('a', { dependencies: ['b'] }),
+      task('b', { dependencies: ['a'] })
+    ]
+
+    expect(getUnreachableTasks(tasks)).toEqual([])
+  })
+})
+
+describe('sortTasksByDependencies', () => {
+  it('puts dependencies first and orders by priority otherwise', () => {
+    const tasks = [
+      task('docs', { priority: 3, dependencies: ['api'] }),
+      task('tests', { priority: 1, dependencies: ['api'] }),
+      task('api', { priority: 2 }),
+      task('lint', { priority: 2 })
+    ]
+
+    expect(ids(sortTasksByDependencies(tasks))).toEqual(['api', 'tests', 'lint', 'docs'])
+  })
+
+  it('leaves out tasks on a cycle and everything after them', () => {
+    const tasks = [
+      task('a', { dependencies: ['b'] }),
+      task('b', { dependencies: ['a'] }),
+      task('c', { dependencies: ['a'] }),
+      task('d', { dependencies: ['outside'] })
+    ]
+
+    expect(ids(sortTasksByDependencies(tasks))).toEqual(['d'])
+  })
+})
@@ -0,0 +1,62 @@
+import { TrackerSyncService } from '../../../src/core/services/TrackerSyncService'
+import { TrackerOutboxStore } from '../../../src/core/storage/TrackerOutboxStore'
+import { MCPError } from '../../../src/core/types'
+import { getLogger } from '../../../src/utils/logger'
+import { createTempProject } from '../../helpers'
+
+const mcp = vi.hoisted(() => ({
+  detectAndSetupMCPs: vi.fn(),
+  isAvailable: vi.fn(),
+  callTool: vi.fn(),
+  disconnect: vi.fn()
+}))
+
+vi.mock('../../../src/core/services/MCPIntegrationService', () => ({
+  MCPIntegrationService: vi.fn(() => mcp)
+}))
+
+describe('TrackerSyncService', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let outbox: TrackerOutboxStore
+  let sync: TrackerSyncService
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    outbox = new TrackerOutboxStore(project.path)
+    sync = new TrackerSyncService(getLogger(), project.path)
+    mcp.isAvailable.mockReturnValue(true)
+    mcp.callTool.mockReset().mockResolvedValue({})
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  it('holds back later updates of an issue whose update failed', async () => {
+    const [comment, transition, github] = await outbox.add([
+      { tracker: 'jira', issue: 'PROJ-12', sessionId: 'PROJ-12', action: 'comment', body: 'Started' },
+      { tracker: 'jira', issue: 'PROJ-12', sessionId: 'PROJ-12', action: 'transition', status: 'Done' },
+      { tracker: 'github', issue: 'acme/app#42', sessionId: 'PROJ-12', action: 'comment', body: 'Started' }
+    ])
+    mcp.callTool.mockImplementation(async (_server: string, tool: string) => {
+      if (tool === 'jira_add_comment') {
+        throw new MCPError('Jira unreachable')
+      }
+      return {}
+    })
+
+    const result = await sync.flush()
+
+    expect(result.failed.map(f => [f.operation.id, f.error, f.dropped])).toEqual([[comment.id, 'Jira unreachable', false]])
+    expect(result.pending.map(op => op.id)).toEqual([transition.id])
+    expect(result.sent.map(op => op.id)).toEqual([github.id])
+    expect(mcp.callTool.mock.calls.map(([, tool]) => tool)).toEqual(['jira_add_comment', 'add_issue_comment'])
+
+    // Both stay queued in order; only the failed one counts an attempt
+    const queued = await outbox.getAll()
+    expect(queued.map(op => [op.id, op.attempts, op.claimedAt])).toEqual([
+      [comment.id, 1, undefined],
+      [transition.id, 0, undefined]
+    ])
+  })
+})
@@ -0,0 +1,75 @@
+import { outputFile, outputJson } from 'fs-extra'
+import { join } from 'path'
+import { PullRequestStatusCache } from '../../../src/core/storage/PullRequestStatusCache'
+import { getProjectTazzDir } from '../../../src/utils/paths'
+import { PullRequestStatus } from '../../../src/core/types'
+import { createTempProject } from '../../helpers'
+
+const URL_1 = 'https://github.com/acme/app/pull/1'
+const URL_2 = 'https://github.com/acme/app/pull/2'
+
+function status(url: string, overrides: Partial<PullRequestStatus> = {}): PullRequestStatus {
+  return {
+    url,
+    number: Number(url.split('/').pop()),
+    state: 'open',
+    reviewDecision: 'review_required',
+    checks: 'pending',
+    fetchedAt: new Date(),
+    ...overrides
+  }
+}
+
+describe('PullRequestStatusCache', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let cache: PullRequestStatusCache
+  let cachePath: string
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    cache = new PullRequestStatusCache(project.path)
+    cachePath = join(getProjectTazzDir(project.path), 'pr-status.json')
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  it('is empty before anything is cached', async () => {
+    expect(await cache.getAll()).toEqual({})
+    expect((await cache.getFresh([URL_1], 60000)).size).toBe(0)
+  })
+
+  it('returns only statuses fetched within maxAge', async () => {
+    const fresh = status(URL_1)
+    await cache.set([fresh, status(URL_2, { fetchedAt: new Date(Date.now() - 120000) })])
+
+    const result = await cache.getFresh([URL_1, URL_2, 'https://github.com/acme/app/pull/3'], 60000)
+
+    expect([...result.keys()]).toEqual([URL_1])
+    expect(result.get(URL_1)).toEqual(fresh)
+    expect(Object.keys(await cache.getAll())).toEqual([URL_1, URL_2])
+  })
+
+  it('merges new statuses into the cached ones', async () => {
+    await cache.set([status(URL_1), status(URL_2)])
+    await cache.set([status(URL_1, { state: 'merged', reviewDecision: 'approved', checks: 'success' })])
+
+    const all = await cache.getAll()
+    expect(all[URL_1]).toMatchObject({ state: 'merged', reviewDecision: 'approved', checks: 'success' })
+    expect(all[URL_2].state).toBe('open')
+    expect(all[URL_2].fetchedAt).toBeInstanceOf(Date)
+  })
+
+  it('treats unreadable and invalid files as empty', async () => {
+    await outputFile(cachePath, '{ not json')
+    expect(await cache.getAll()).toEqual({})
+
+    await outputJson(cachePath, { pullRequests: { [URL_1]: { url: URL_1, state: 'unknown' } }, lastUpdated: '' })
+    expect(await cache.getAll()).toEqual({})
+
+    // A broken cache is replaced on the next write
+    await cache.set([status(URL_2)])
+    expect(Object.keys(await cache.getAll())).toEqual([URL_2])
+  })
+})
@@ -0,0 +1,72 @@
+import { readFile, stat } from 'fs-extra'
+import { join } from 'path'
+import { SecretStore } from '../../../src/core/storage/SecretStore'
+import { ValidationError } from '../../../src/core/types'
+import { createTempProject } from '../../helpers'
+
+describe('SecretStore', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let secretsPath: string
+  let keyPath: string
+  let store: SecretStore
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    secretsPath = join(project.path, 'secrets.enc')
+    keyPath = join(project.path, 'secrets.key')
+    store = new SecretStore(secretsPath, keyPath)
+    // Use the generated key file unless a test sets a passphrase
+    vi.stubEnv('TAZZ_SECRETS_PASSPHRASE', '')
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await project.cleanup()
+  })
+
+  it('has no secrets before anything is set', async () => {
+    expect(await store.list()).toEqual([])
+    expect(await store.get('jira-token')).toBeUndefined()
+  })
+
+  it('sets, lists, replaces and removes secrets', async () => {
+    await store.set('jira-token', 'first')
+    await store.set('github-token', 'ghp_secret')
+    await store.set('jira-token', 'second')
+
+    expect(await store.get('jira-token')).toBe('second')
+    expect((await store.list()).map(secret => secret.name)).toEqual(['github-token', 'jira-token'])
+    expect((await store.list())[0].updatedAt).toBeInstanceOf(Date)
+
+    expect(await store.remove('jira-token')).toBe(true)
+    expect(await store.remove('jira-token')).toBe(false)
+    expect(await store.get('jira-token')).toBeUndefined()
+  })
+
+  it('keeps values encrypted in files only the user can read', async () => {
+    await store.set('github-token', 'ghp_secret')
+
+    const contents = await readFile(secretsPath, 'utf-8')
+    expect(contents).not.toContain('ghp_secret')
+    expect(contents).not.toContain('github-token')
+    expect((await stat(secretsPath)).mode & 0o777).toBe(0o600)
+    expect((await stat(keyPath)).mode & 0o777).toBe(0o600)
+    expect(await new SecretStore(secretsPath, keyPath).get('github-token')).toBe('ghp_secret')
+  })
+
+  it('rejects invalid names and empty values', async () => {
+    await expect(store.set('../token', 'value')).rejects.toThrow(ValidationError)
+    await expect(store.set('-token', 'value')).rejects.toThrow(ValidationError)
+    await expect(store.set('token', '')).rejects.toThrow('Secret token cannot be empty')
+    expect(await store.list()).toEqual([])
+  })
+
+  it('derives the key from TAZZ_SECRETS_PASSPHRASE when it is set', async () => {
+    vi.stubEnv('TAZZ_SECRETS_PASSPHRASE', 'correct horse')
+    await store.set('sonar-token', 'squ_secret')
+
+    expect(await store.get('sonar-token')).toBe('squ_secret')
+    vi.stubEnv('TAZZ_SECRETS_PASSPHRASE', 'wrong horse')
+    await expect(store.get('sonar-token')).rejects.toThrow('Cannot decrypt the secret store')
+  })
+})
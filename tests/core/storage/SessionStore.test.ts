@@ -0,0 +1,102 @@
+import { writeFile, readJson, ensureDir, pathExists } from 'fs-extra'
+import { join } from 'path'
+import { SessionStore, CURRENT_SCHEMA_VERSION } from '../../../src/core/storage/SessionStore'
+import { getProjectTazzDir } from '../../../src/utils/paths'
+import { SessionError, SessionStatus, TaskStatus } from '../../../src/core/types'
+import { createTempProject, createSession } from '../../helpers'
+
+describe('SessionStore', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let store: SessionStore
+  let sessionsPath: string
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    store = new SessionStore(project.path)
+    sessionsPath = join(getProjectTazzDir(project.path), 'sessions.json')
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  it('returns no sessions before anything is saved', async () => {
+    expect(await store.getAllSessions()).toEqual([])
+    expect(await store.getSession('missing')).toBeNull()
+  })
+
+  it('saves, replaces and removes sessions with dates revived', async () => {
+    await store.saveSession(createSession())
+    await store.saveSession(createSession({ status: SessionStatus.STOPPED }))
+
+    const sessions = await store.getAllSessions()
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0].status).toBe(SessionStatus.STOPPED)
+    expect(sessions[0].createdAt).toBeInstanceOf(Date)
+
+    const data = await readJson(sessionsPath)
+    expect(data.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+
+    await store.removeSession('feature-auth')
+    expect(await store.getAllSessions()).toEqual([])
+  })
+
+  it('migrates an unversioned file and fills in missing fields', async () => {
+    await ensureDir(getProjectTazzDir(project.path))
+    await writeFile(sessionsPath, JSON.stringify({
+      sessions: [{ id: 'legacy', worktreePath: '/tmp/legacy', createdAt: '2025-05-01T10:00:00.000Z' }]
+    }))
+
+    const session = await store.getSession('legacy')
+    expect(session).toMatchObject({
+      id: 'legacy',
+      branch: 'feature/legacy',
+      status: SessionStatus.STOPPED,
+      agents: [],
+      tasks: [],
+      metadata: {}
+    })
+    expect(session!.lastActive.toISOString()).toBe('2025-05-01T10:00:00.000Z')
+  })
+
+  it('refuses files written by a newer version', async () => {
+    await ensureDir(getProjectTazzDir(project.path))
+    await writeFile(sessionsPath, JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, sessions: [] }))
+
+    await expect(store.getAllSessions()).rejects.toThrow(SessionError)
+  })
+
+  it('rejects an invalid file instead of overwriting it', async () => {
+    await ensureDir(getProjectTazzDir(project.path))
+    await writeFile(sessionsPath, JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, sessions: [{ id: 1 }] }))
+
+    await expect(store.getAllSessions()).rejects.toThrow('Sessions file is invalid')
+    await expect(store.saveSession(createSession())).rejects.toThrow(SessionError)
+  })
+
+  it('serializes concurrent updates from separate store instances', async () => {
+    await store.saveSession(createSession({
+      tasks: Array.from({ length: 10 }, (_, i) => ({
+        id: `task-${i}`,
+        title: `Task ${i}`,
+        description: '',
+        status: TaskStatus.TODO,
+        priority: 2,
+        dependencies: []
+      }))
+    }))
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      new SessionStore(project.path).updateSession('feature-auth', session => {
+        session.tasks[i].status = TaskStatus.COMPLETED
+      })))
+
+    const session = await store.getSession('feature-auth')
+    expect(session!.tasks.every(task => task.status === TaskStatus.COMPLETED)).toBe(true)
+    expect(await pathExists(`${sessionsPath}.lock`)).toBe(false)
+  })
+
+  it('fails to update a session that does not exist', async () => {
+    await expect(store.updateSession('missing', () => undefined)).rejects.toThrow('Session missing not found')
+  })
+})
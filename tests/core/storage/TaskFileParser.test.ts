@@ -0,0 +1,130 @@
+import { parseTaskFile, getRunnableTasks, DEFAULT_TASK_PRIORITY } from '../../../src/core/storage/TaskFileParser'
+import { TaskStatus } from '../../../src/core/types'
+import { MakeCommand } from '../../../src/cli/commands/make'
+
+describe('parseTaskFile', () => {
+  it('parses task fields', () => {
+    const { tasks, issues } = parseTaskFile([
+      '## Tasks',
+      '- [ ] Build the API',
+      '      Session name: api',
+      '      Priority: high',
+      '      Agent: claude',
+      '      Estimate: 1.5h',
+      '      Isolate: yes',
+      '      Description:',
+      '        REST endpoints',
+      '        with validation.',
+      '- [ ] Write tests',
+      '      Session name: tests',
+      '      Depends on: api',
+      '      Priority: 3'
+    ].join('\n'))
+
+    expect(issues).toEqual([])
+    expect(tasks).toHaveLength(2)
+    expect(tasks[0]).toMatchObject({
+      id: 'api',
+      title: 'Build the API',
+      description: 'REST endpoints with validation.',
+      status: TaskStatus.TODO,
+      priority: 1,
+      agent: 'claude',
+      estimatedTime: 90,
+      isolate: true,
+      dependencies: [],
+      line: 2,
+      section: 'Tasks'
+    })
+    expect(tasks[1]).toMatchObject({ id: 'tests', priority: 3, dependencies: ['api'] })
+  })
+
+  it('defaults to medium priority and a slug id', () => {
+    const { tasks } = parseTaskFile('- [ ] Update the docs\n')
+
+    expect(DEFAULT_TASK_PRIORITY).toBe(2)
+    expect(tasks[0]).toMatchObject({ id: 'update-the-docs', priority: DEFAULT_TASK_PRIORITY })
+  })
+
+  it('takes the status from the section and ignores other sections', () => {
+    const { tasks } = parseTaskFile([
+      '# Project',
+      '- [ ] Top level',
+      '## In Progress',
+      '- [ ] Ongoing',
+      '## Blocked',
+      '- [ ] Waiting',
+      '## Done',
+      '- [ ] Finished',
+      '## Tasks',
+      '- [x] Checked',
+      '## Quality Checklist',
+      '- [ ] Tests pass locally'
+    ].join('\n'))
+
+    expect(tasks.map(task => [task.id, task.status])).toEqual([
+      ['top-level', TaskStatus.TODO],
+      ['ongoing', TaskStatus.IN_PROGRESS],
+      ['waiting', TaskStatus.BLOCKED],
+      ['finished', TaskStatus.COMPLETED],
+      ['checked', TaskStatus.COMPLETED]
+    ])
+    expect(getRunnableTasks(tasks).map(task => task.id)).toEqual(['top-level', 'ongoing'])
+  })
+
+  it('treats nested lists as part of the task', () => {
+    const { tasks } = parseTaskFile([
+      '- [ ] Parent',
+      '  - [ ] Step one',
+      '  - [ ] Step two'
+    ].join('\n'))
+
+    expect(tasks.map(task => task.id)).toEqual(['parent'])
+  })
+
+  it('reports invalid fields with their line', () => {
+    const { issues } = parseTaskFile([
+      '- [ ] First',
+      '      Session name: bad name',
+      '      Priority: urgent',
+      '      Estimate: soon',
+      '      Isolate: maybe',
+      '      Agent:'
+    ].join('\n'))
+
+    expect(issues).toEqual([
+      { line: 2, severity: 'error', message: 'Invalid session name "bad name": use letters, numbers, hyphens and underscores' },
+      { line: 3, severity: 'error', message: 'Invalid priority "urgent": use a positive integer or high/medium/low' },
+      { line: 4, severity: 'error', message: 'Invalid estimate "soon": use e.g. 30m, 2h or 1d' },
+      { line: 5, severity: 'error', message: 'Invalid isolate value "maybe": use true or false' },
+      { line: 6, severity: 'error', message: 'Empty "Agent:" field' }
+    ])
+  })
+
+  it('reports duplicate ids, duplicate fields and bad dependencies', () => {
+    const { issues } = parseTaskFile([
+      '- [ ] Api',
+      '      Depends on: api, missing',
+      '- [ ] Other',
+      '      Session name: api',
+      '      Priority: high',
+      '      Priority: low'
+    ].join('\n'))
+
+    expect(issues.map(issue => [issue.line, issue.message])).toEqual([
+      [2, 'Task "api" depends on itself'],
+      [2, 'Unknown dependency "missing" for task "api"'],
+      [3, 'Duplicate task id "api" (also used on line 1); give one of them a different "Session name:"'],
+      [6, 'Duplicate "Priority:" for task "Other"']
+    ])
+  })
+
+  it('starts nothing but the example tasks of the tazz make template', () => {
+    const template = (new MakeCommand() as any).createInitialTodoTemplate() as string
+    const { tasks, issues } = parseTaskFile(template)
+
+    expect(issues).toEqual([])
+    expect(getRunnableTasks(tasks).every(task => task.status === TaskStatus.TODO)).toBe(true)
+    expect(tasks.some(task => task.section === 'In Progress')).toBe(false)
+  })
+})
@@ -0,0 +1,80 @@
+import { readJson, outputFile, outputJson } from 'fs-extra'
+import { join } from 'path'
+import { TrackerOutboxStore, NewTrackerOperation } from '../../../src/core/storage/TrackerOutboxStore'
+import { getProjectTazzDir } from '../../../src/utils/paths'
+import { SessionError } from '../../../src/core/types'
+import { createTempProject } from '../../helpers'
+
+const transition = (status: string, sessionId = 'PROJ-12'): NewTrackerOperation =>
+  ({ tracker: 'jira', issue: 'PROJ-12', sessionId, action: 'transition', status })
+
+describe('TrackerOutboxStore', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let store: TrackerOutboxStore
+  let outboxPath: string
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    store = new TrackerOutboxStore(project.path)
+    outboxPath = join(getProjectTazzDir(project.path), 'tracker-outbox.json')
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await project.cleanup()
+  })
+
+  it('queues operations in order and skips transitions already waiting', async () => {
+    const added = await store.add([
+      transition('In Progress'),
+      { tracker: 'github', issue: 'acme/app#42', sessionId: 'PROJ-12', action: 'comment', body: 'Started' }
+    ])
+    const again = await store.add([transition('In Progress'), transition('Done')])
+
+    expect(added.map(op => op.attempts)).toEqual([0, 0])
+    expect(again.map(op => op.action === 'transition' && op.status)).toEqual(['Done'])
+    const all = await store.getAll()
+    expect(all.map(op => op.action)).toEqual(['transition', 'comment', 'transition'])
+    expect(all[0].createdAt).toBeInstanceOf(Date)
+    expect((await readJson(outboxPath)).operations).toHaveLength(3)
+  })
+
+  it('filters operations by session', async () => {
+    await store.add([transition('In Progress', 'PROJ-12'), transition('Done', 'PROJ-13')])
+
+    expect((await store.getAll('PROJ-13')).map(op => op.sessionId)).toEqual(['PROJ-13'])
+  })
+
+  it('claims operations once until they are released or the claim goes stale', async () => {
+    await store.add([transition('In Progress', 'PROJ-12'), transition('Done', 'PROJ-13')])
+
+    const claimed = await store.claim('PROJ-12')
+    expect(claimed).toHaveLength(1)
+    expect(await store.claim('PROJ-12')).toEqual([])
+    expect((await store.claim()).map(op => op.sessionId)).toEqual(['PROJ-13'])
+
+    const released = await store.release(claimed[0].id, 'Jira unreachable')
+    expect(released).toMatchObject({ attempts: 1, lastError: 'Jira unreachable', claimedAt: undefined })
+    expect(await store.release('missing')).toBeUndefined()
+    expect((await store.claim()).map(op => op.sessionId)).toEqual(['PROJ-12'])
+
+    vi.useFakeTimers({ now: Date.now() + 6 * 60 * 1000, toFake: ['Date'] })
+    expect(await store.claim()).toHaveLength(2)
+  })
+
+  it('removes delivered operations', async () => {
+    const [first, second] = await store.add([transition('In Progress'), transition('Done')])
+
+    await store.remove([first.id])
+
+    expect((await store.getAll()).map(op => op.id)).toEqual([second.id])
+  })
+
+  it('rejects unreadable and invalid outbox files', async () => {
+    await outputFile(outboxPath, '{ not json')
+    await expect(store.getAll()).rejects.toThrow('Failed to read tracker outbox')
+
+    await outputJson(outboxPath, { operations: [{ action: 'transition' }], lastUpdated: '' })
+    await expect(store.getAll()).rejects.toThrow(SessionError)
+  })
+})
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+// Stand-in Atlassian MCP server over stdio whose jira_get_issue answers with
+// canned issues: PROJ-12 with two sub-tasks and a linked issue.
+
+const readline = require('readline')
+
+const issue = (key, summary, status, fields = {}) => ({
+  key,
+  self: `https://example.atlassian.net/rest/api/2/issue/${key}`,
+  fields: { summary, status: { name: status }, ...fields }
+})
+
+const ISSUES = {
+  'PROJ-12': issue('PROJ-12', 'Add login page', 'In Progress', {
+    description: 'Users need to sign in.\r\n\r\nh3. Acceptance Criteria\r\n* Users can log in with email and password\r\n* Wrong passwords show an error',
+    priority: { name: 'High' },
+    issuetype: { name: 'Story' },
+    assignee: { displayName: 'Dana Developer' },
+    subtasks: [
+      issue('PROJ-13', 'Login form', 'To Do'),
+      issue('PROJ-14', 'Session cookie', 'Done')
+    ],
+    issuelinks: [
+      { type: { outward: 'blocks', inward: 'is blocked by' }, outwardIssue: issue('PROJ-20', 'Logout', 'To Do') }
+    ]
+  }),
+  'PROJ-13': issue('PROJ-13', 'Login form', 'To Do', { description: 'Email and password fields' }),
+  'PROJ-14': issue('PROJ-14', 'Session cookie', 'Done', { description: 'Keep users signed in' }),
+  'PROJ-20': issue('PROJ-20', 'Logout', 'In Review')
+}
+
+const send = message => process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`)
+
+function handleRequest({ id, method, params = {} }) {
+  switch (method) {
+    case 'initialize':
+      return send({
+        id,
+        result: { protocolVersion: params.protocolVersion, capabilities: { tools: {} }, serverInfo: { name: 'jira', version: '1.0.0' } }
+      })
+    case 'tools/list':
+      return send({
+        id,
+        result: {
+          tools: [{
+            name: 'jira_get_issue',
+            inputSchema: { type: 'object', properties: { issue_key: { type: 'string' } }, required: ['issue_key'] }
+          }]
+        }
+      })
+    case 'tools/call': {
+      const found = ISSUES[params.arguments.issue_key]
+      return send({
+        id,
+        result: found
+          ? { content: [{ type: 'text', text: JSON.stringify(found) }] }
+          : { content: [{ type: 'text', text: `Issue ${params.arguments.issue_key} does not exist` }], isError: true }
+      })
+    }
+  }
+  send({ id, error: { code: -32601, message: `Method not found: ${method}` } })
+}
+
+const input = readline.createInterface({ input: process.stdin })
+input.on('line', line => {
+  const message = JSON.parse(line)
+  if (message.method && message.id !== undefined) {
+    handleRequest(message)
+  }
+})
+input.on('close', () => process.exit(0))
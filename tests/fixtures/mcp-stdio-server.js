@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+// Minimal MCP server speaking newline-delimited JSON-RPC on stdin/stdout.
+// MCP_FIXTURE_PROTOCOL overrides the protocol version it answers with,
+// MCP_FIXTURE_STUBBORN=1 makes it ignore stdin closing and SIGTERM.
+
+const readline = require('readline')
+
+const TOOLS = [
+  { name: 'echo', description: 'Echo the text argument', inputSchema: { type: 'object' } },
+  { name: 'slow', description: 'Never answers', inputSchema: { type: 'object' } },
+  { name: 'crash', description: 'Exit with code 3', inputSchema: { type: 'object' } },
+  { name: 'notify', description: 'Send a progress notification first', inputSchema: { type: 'object' } },
+  { name: 'ping-client', description: 'Ping the client and return its answer', inputSchema: { type: 'object' } },
+  { name: 'cancelled', description: 'Request ids cancelled so far', inputSchema: { type: 'object' } }
+]
+const PAGE_SIZE = 4
+
+const cancelled = []
+const waiting = new Map()
+let initialized = false
+
+const send = message => process.stdout.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`)
+const text = value => ({ content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value) }] })
+
+// Servers may log to stdout before speaking JSON-RPC
+process.stdout.write('fixture server starting\n')
+
+function handleRequest({ id, method, params = {} }) {
+  switch (method) {
+    case 'initialize':
+      return send({
+        id,
+        result: {
+          protocolVersion: process.env.MCP_FIXTURE_PROTOCOL || params.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'fixture', version: '1.0.0' },
+          clientInfo: params.clientInfo
+        }
+      })
+
+    case 'tools/list': {
+      if (!initialized) {
+        return send({ id, error: { code: -32002, message: 'Not initialized' } })
+      }
+      const start = params.cursor ? Number(params.cursor) : 0
+      const next = start + PAGE_SIZE
+      return send({ id, result: { tools: TOOLS.slice(start, next), ...(next < TOOLS.length ? { nextCursor: String(next) } : {}) } })
+    }
+
+    case 'tools/call':
+      switch (params.name) {
+        case 'echo':
+          return send({ id, result: text(params.arguments.text) })
+        case 'slow':
+          return undefined
+        case 'crash':
+          return process.exit(3)
+        case 'notify':
+          send({ method: 'notifications/progress', params: { progress: 50, total: 100 } })
+          return send({ id, result: text('done') })
+        case 'ping-client':
+          waiting.set('server-ping', answer => send({ id, result: text(answer) }))
+          return send({ id: 'server-ping', method: 'ping' })
+        case 'cancelled':
+          return send({ id, result: text(cancelled) })
+      }
+      return send({ id, error: { code: -32602, message: `Unknown tool ${params.name}` } })
+  }
+  send({ id, error: { code: -32601, message: `Method not found: ${method}` } })
+}
+
+const input = readline.createInterface({ input: process.stdin })
+input.on('line', line => {
+  const message = JSON.parse(line)
+  if (message.method && message.id !== undefined) {
+    handleRequest(message)
+  } else if (message.method === 'notifications/initialized') {
+    initialized = true
+  } else if (message.method === 'notifications/cancelled') {
+    cancelled.push(message.params.requestId)
+  } else if (waiting.has(message.id)) {
+    waiting.get(message.id)(message.result ?? message.error)
+    waiting.delete(message.id)
+  }
+})
+
+if (process.env.MCP_FIXTURE_STUBBORN) {
+  process.on('SIGTERM', () => undefined)
+  setInterval(() => undefined, 1000)
+} else {
+  input.on('close', () => process.exit(0))
+}
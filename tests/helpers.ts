@@ -0,0 +1,59 @@
+import { mkdtemp, remove, writeFile } from 'fs-extra'
+import { execa } from 'execa'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { getProjectTazzDir } from '../src/utils/paths'
+import { TazzSession, SessionStatus } from '../src/core/types'
+
+/**
+ * A throwaway project directory. Stores keep their files under the project's
+ * tazz dir, so a fresh path gives every test its own sessions, queue and outbox.
+ */
+export async function createTempProject(): Promise<{ path: string; cleanup: () => Promise<void> }> {
+  const path = await mkdtemp(join(tmpdir(), 'tazz-test-'))
+  return {
+    path,
+    cleanup: async () => {
+      await remove(getProjectTazzDir(path))
+      await remove(path)
+    }
+  }
+}
+
+export function createSession(overrides: Partial<TazzSession> = {}): TazzSession {
+  const now = new Date('2026-01-01T00:00:00.000Z')
+  return {
+    id: 'feature-auth',
+    branch: 'feature/feature-auth',
+    worktreePath: '/tmp/feature-auth',
+    status: SessionStatus.ACTIVE,
+    createdAt: now,
+    lastActive: now,
+    agents: [],
+    tasks: [],
+    metadata: {},
+    ...overrides
+  }
+}
+
+export async function git(cwd: string, ...args: string[]): Promise<string> {
+  const { stdout } = await execa('git', args, { cwd })
+  return stdout
+}
+
+/**
+ * Initialize `path` as a repository on `main` with one commit. The identity is
+ * set in the repository so code under test can commit and merge too.
+ */
+export async function initGitRepo(path: string): Promise<void> {
+  await git(path, 'init', '-q', '-b', 'main')
+  await git(path, 'config', 'user.name', 'Tazz Test')
+  await git(path, 'config', 'user.email', 'test@tazz.dev')
+  await commitFile(path, 'README.md', 'test\n', 'Initial commit')
+}
+
+export async function commitFile(repoPath: string, file: string, content: string, message: string): Promise<void> {
+  await writeFile(join(repoPath, file), content)
+  await git(repoPath, 'add', file)
+  await git(repoPath, 'commit', '-q', '-m', message)
+}
@@ -0,0 +1,6 @@
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { getLogger } from '../src/utils/logger'
+
+// Services log through the shared logger; keep test output clean and out of the real log file
+getLogger({ enableConsole: false, logFile: join(tmpdir(), 'tazz-test.log') })
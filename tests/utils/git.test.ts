@@ -0,0 +1,75 @@
+import { pathExists } from 'fs-extra'
+import { join } from 'path'
+import {
+  addWorktree,
+  mergeBranch,
+  rebaseBranch,
+  getCommitsBetween,
+  getUnpushedCommits,
+  isBranchMerged,
+  branchExists,
+  removeWorktree,
+  deleteBranch
+} from '../../src/utils/git'
+import { createTempProject, initGitRepo, commitFile, git } from '../helpers'
+
+describe('git utils', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let worktreePath: string
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    await initGitRepo(project.path)
+    worktreePath = `${project.path}-task`
+    await addWorktree(worktreePath, 'feature/task', { createBranch: true }, project.path)
+  })
+
+  afterEach(async () => {
+    await git(project.path, 'worktree', 'remove', '--force', worktreePath).catch(() => undefined)
+    await project.cleanup()
+  })
+
+  it('passes merge messages to git without a shell', async () => {
+    const message = 'Merge "Fix `quotes`" $(touch pwned) it\'s done'
+    await commitFile(worktreePath, 'task.ts', 'export {}\n', 'Add task')
+
+    expect(await mergeBranch('feature/task', project.path, { message })).toEqual([])
+
+    expect(await git(project.path, 'log', '-1', '--format=%s')).toBe(message)
+    expect(await pathExists(join(project.path, 'pwned'))).toBe(false)
+    expect(await isBranchMerged('feature/task', 'main', project.path)).toBe(true)
+  })
+
+  it('aborts a conflicting merge and returns the conflicted files', async () => {
+    await commitFile(worktreePath, 'README.md', 'task\n', 'Change on branch')
+    await commitFile(project.path, 'README.md', 'main\n', 'Change on main')
+
+    expect(await mergeBranch('feature/task', project.path)).toEqual(['README.md'])
+    expect(await git(project.path, 'status', '--porcelain')).toBe('')
+  })
+
+  it('aborts a conflicting rebase and returns the conflicted files', async () => {
+    await commitFile(worktreePath, 'README.md', 'task\n', 'Change on branch')
+    await commitFile(project.path, 'README.md', 'main\n', 'Change on main')
+
+    expect(await rebaseBranch('main', worktreePath)).toEqual(['README.md'])
+    expect(await git(worktreePath, 'status', '--porcelain')).toBe('')
+  })
+
+  it('lists commits of a branch oldest first', async () => {
+    await commitFile(worktreePath, 'a.ts', 'a\n', 'First')
+    await commitFile(worktreePath, 'b.ts', 'b\n', 'Second')
+
+    const commits = await getCommitsBetween('main', 'feature/task', project.path)
+    expect(commits.map(line => line.replace(/^\w+ /, ''))).toEqual(['First', 'Second'])
+    expect(await getUnpushedCommits('feature/task', 'main', project.path)).toHaveLength(2)
+  })
+
+  it('removes worktrees and deletes branches', async () => {
+    await removeWorktree(worktreePath, false, project.path)
+    await deleteBranch('feature/task', project.path)
+
+    expect(await pathExists(worktreePath)).toBe(false)
+    expect(await branchExists('feature/task', project.path)).toBe(false)
+  })
+})
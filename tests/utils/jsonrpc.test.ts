@@ -0,0 +1,23 @@
+import { reviveDates } from '../../src/utils/jsonrpc'
+
+describe('reviveDates', () => {
+  it('revives known date fields only', () => {
+    const parsed = JSON.parse(JSON.stringify({
+      session: {
+        id: 'feature-auth',
+        createdAt: new Date('2026-01-01T10:00:00.000Z'),
+        tasks: [{ title: '2026-01-01T10:00:00.000Z', startedAt: new Date('2026-01-02T10:00:00Z') }],
+        metadata: { deadline: '2026-02-01T00:00:00.000Z' }
+      }
+    }), reviveDates)
+
+    expect(parsed.session.createdAt).toEqual(new Date('2026-01-01T10:00:00.000Z'))
+    expect(parsed.session.tasks[0].startedAt).toEqual(new Date('2026-01-02T10:00:00.000Z'))
+    expect(parsed.session.tasks[0].title).toBe('2026-01-01T10:00:00.000Z')
+    expect(parsed.session.metadata.deadline).toBe('2026-02-01T00:00:00.000Z')
+  })
+
+  it('leaves date fields that are not timestamps alone', () => {
+    expect(JSON.parse('{"createdAt":"yesterday"}', reviveDates)).toEqual({ createdAt: 'yesterday' })
+  })
+})
@@ -0,0 +1,79 @@
+import { lstat, outputFile, pathExists, readdir, readFile, rename, stat, utimes } from 'fs-extra'
+import { join } from 'path'
+import { withFileLock } from '../../src/utils/lock'
+import { createTempProject } from '../helpers'
+
+vi.mock('fs-extra', async importOriginal => {
+  const actual = (await importOriginal<{ default: typeof import('fs-extra') }>()).default
+  return { ...actual, stat: vi.fn(actual.stat) }
+})
+
+describe('withFileLock', () => {
+  let project: Awaited<ReturnType<typeof createTempProject>>
+  let targetPath: string
+  let lockPath: string
+
+  beforeEach(async () => {
+    project = await createTempProject()
+    targetPath = join(project.path, 'sessions.json')
+    lockPath = `${targetPath}.lock`
+  })
+
+  afterEach(async () => {
+    await project.cleanup()
+  })
+
+  /** A lock file left behind by a process that crashed a minute ago */
+  async function leaveStaleLock(): Promise<void> {
+    await outputFile(lockPath, '99999')
+    const minuteAgo = new Date(Date.now() - 60000)
+    await utimes(lockPath, minuteAgo, minuteAgo)
+  }
+
+  it('waits for a held lock and gives up at the timeout', async () => {
+    await outputFile(lockPath, '99999')
+
+    await expect(withFileLock(targetPath, async () => 'locked', { timeout: 200, staleAfter: 30000 }))
+      .rejects.toThrow(`Timed out waiting for lock on ${targetPath}`)
+    expect(await pathExists(lockPath)).toBe(true)
+  })
+
+  it('takes over a stale lock and cleans up after itself', async () => {
+    await leaveStaleLock()
+
+    expect(await withFileLock(targetPath, async () => 'locked', { staleAfter: 1000 })).toBe('locked')
+    expect(await readdir(project.path)).toEqual([])
+  })
+
+  it('leaves a lock alone that another waiter renewed after it was found stale', async () => {
+    await leaveStaleLock()
+    vi.mocked(stat).mockImplementationOnce((async (path: string) => {
+      const stats = await lstat(path)
+      // Another waiter replaces the stale lock with its own meanwhile
+      await outputFile(`${lockPath}.renewed`, 'renewed')
+      await rename(`${lockPath}.renewed`, lockPath)
+      return stats
+    }) as typeof stat)
+
+    await expect(withFileLock(targetPath, async () => 'locked', { timeout: 200, staleAfter: 1000 }))
+      .rejects.toThrow(`Timed out waiting for lock on ${targetPath}`)
+    expect(await readFile(lockPath, 'utf-8')).toBe('renewed')
+    expect(await readdir(project.path)).toEqual(['sessions.json.lock'])
+  })
+
+  it('lets only one of several waiters take over a stale lock at a time', async () => {
+    await leaveStaleLock()
+    let holders = 0
+    let mostHolders = 0
+
+    await Promise.all(Array.from({ length: 5 }, () => withFileLock(targetPath, async () => {
+      holders++
+      mostHolders = Math.max(mostHolders, holders)
+      await new Promise(resolve => setTimeout(resolve, 20))
+      holders--
+    }, { staleAfter: 1000, retryInterval: 5 })))
+
+    expect(mostHolders).toBe(1)
+    expect(await readdir(project.path)).toEqual([])
+  })
+})